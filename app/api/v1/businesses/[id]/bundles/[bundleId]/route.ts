@@ -0,0 +1,241 @@
+// app/api/v1/businesses/[id]/bundles/[bundleId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { validateBundle, validateBundleReferences } from '@/lib/bundles'
+import type { ApiResponse, Bundle } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// PATCH /api/v1/businesses/:id/bundles/:bundleId
+// Update any bundle field. Send the full slots array to change slots;
+// keep slot ids to keep them stable.
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; bundleId: string }> }
+) {
+  try {
+    const { id: businessId, bundleId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the bundle
+    const { data: existing, error: bundleError } = await supabase
+      .from('bundles')
+      .select('*, businesses!inner(user_id)')
+      .eq('id', bundleId)
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bundleError || !existing) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Bundle not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const { businesses, ...bundle } = existing
+    const business = businesses as unknown as { user_id: string }
+    const canEdit = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to edit bundles for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate the bundle as it will be after the update
+    const body = await request.json()
+    const { values, errors } = validateBundle({ ...bundle, ...body })
+
+    if (errors.length === 0) {
+      errors.push(...await validateBundleReferences(supabase, businessId, values))
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid bundle',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Update bundle
+    const { data: updated, error: updateError } = await supabase
+      .from('bundles')
+      .update({
+        ...values,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', bundleId)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Update bundle error:', updateError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UPDATE_FAILED',
+          message: 'Failed to update bundle',
+          details: updateError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<Bundle>>({
+      data: updated as Bundle
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Update bundle error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/v1/businesses/:id/bundles/:bundleId
+// Soft delete a bundle (its component items are not touched)
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; bundleId: string }> }
+) {
+  try {
+    const { id: businessId, bundleId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the bundle
+    const { data: bundle, error: bundleError } = await supabase
+      .from('bundles')
+      .select('id, businesses!inner(user_id)')
+      .eq('id', bundleId)
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bundleError || !bundle) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Bundle not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = bundle.businesses as unknown as { user_id: string }
+    const canDelete = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_DELETE)
+
+    if (!canDelete) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to delete bundles for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Soft delete
+    const { error: deleteError } = await supabase
+      .from('bundles')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', bundleId)
+
+    if (deleteError) {
+      console.error('Delete bundle error:', deleteError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'DELETE_FAILED',
+          message: 'Failed to delete bundle',
+          details: deleteError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        id: bundleId,
+        deleted: true
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Delete bundle error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,252 @@
+// app/api/v1/businesses/[id]/bundles/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { validateBundle, validateBundleReferences } from '@/lib/bundles'
+import type { ApiResponse, Bundle } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/businesses/:id/bundles?menu_id=
+// List the business's bundles (optionally for one menu)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view bundles for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Get bundles
+    const menuId = new URL(request.url).searchParams.get('menu_id')
+
+    let query = supabase
+      .from('bundles')
+      .select('*')
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+
+    if (menuId) {
+      query = query.eq('menu_id', menuId)
+    }
+
+    const { data: bundles, error: bundlesError } = await query.order('sort_order', { ascending: true })
+
+    if (bundlesError) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'QUERY_FAILED',
+          message: 'Failed to fetch bundles',
+          details: bundlesError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<Bundle[]>>({
+      data: (bundles || []) as Bundle[]
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('List bundles error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/v1/businesses/:id/bundles
+// Body: { menu_id, name, price, category_id?, description?, image_url?, is_available?, is_featured?,
+//         sort_order?, slots: [{ name, item_ids?, category_id?, quantity?, is_required? }] }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canCreate = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_CREATE)
+
+    if (!canCreate) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to create bundles for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate request
+    const body = await request.json()
+    const { values, errors } = validateBundle(body)
+
+    if (errors.length === 0) {
+      errors.push(...await validateBundleReferences(supabase, businessId, values))
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid bundle',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Create bundle
+    const { data: bundle, error: insertError } = await supabase
+      .from('bundles')
+      .insert({
+        business_id: businessId,
+        menu_id: values.menu_id,
+        category_id: values.category_id ?? null,
+        name: values.name,
+        description: values.description ?? null,
+        image_url: values.image_url ?? null,
+        price: values.price,
+        slots: values.slots,
+        is_available: values.is_available ?? true,
+        is_featured: values.is_featured ?? false,
+        sort_order: values.sort_order ?? 0,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Create bundle error:', insertError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'CREATE_FAILED',
+          message: 'Failed to create bundle',
+          details: insertError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<Bundle>>({
+      data: bundle as Bundle
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Create bundle error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
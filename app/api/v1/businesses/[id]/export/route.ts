@@ -0,0 +1,139 @@
+// app/api/v1/businesses/[id]/export/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { buildMenuExport, renderMenuExport, EXPORT_CONTENT_TYPES, EXPORT_FORMATS } from '@/lib/menu-export'
+import type { ApiResponse, ExportFormat } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/businesses/:id/export?format=csv|xlsx|json
+// Download every menu of the business with all item fields and translations.
+// Spreadsheets start with a menu column (the menu's slug), so the file imports
+// back through POST /api/v1/businesses/:id/import.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Validate format
+    const format = (new URL(request.url).searchParams.get('format') || 'csv') as ExportFormat
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+        }
+      }, { status: 400 })
+    }
+
+    // 3. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, name, slug, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 4. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to export this business\'s menus'
+        }
+      }, { status: 403 })
+    }
+
+    // 5. Get menus
+    const { data: menus, error: menusError } = await supabase
+      .from('menus')
+      .select('id, name, slug, description')
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .order('display_order', { ascending: true })
+
+    if (menusError) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'QUERY_FAILED',
+          message: 'Failed to fetch menus',
+          details: menusError.message
+        }
+      }, { status: 500 })
+    }
+
+    // 6. Export
+    const document = await buildMenuExport(
+      supabase,
+      { id: business.id, name: business.name, slug: business.slug },
+      menus || []
+    )
+
+    return new NextResponse(renderMenuExport(document, format, true), {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${business.slug}-menus.${format}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Business export error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
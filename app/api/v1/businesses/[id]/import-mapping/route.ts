@@ -0,0 +1,212 @@
+// app/api/v1/businesses/[id]/import-mapping/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { getImportMapping, saveImportMapping, validateColumnMapping, IMPORT_FIELDS } from '@/lib/menu-import'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/businesses/:id/import-mapping
+// The saved spreadsheet column mapping used by menu imports, and the fields a column can map to
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view this business\'s import settings'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Get the mapping
+    const mapping = await getImportMapping(supabase, businessId)
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        business_id: businessId,
+        mapping,
+        fields: IMPORT_FIELDS
+      }
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Get import mapping error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/v1/businesses/:id/import-mapping
+// Replace the saved column mapping
+// Body: { mapping: { name: 'Dish', price: 'Cost', category: 'Section', ... } }
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Validate request
+    const body = await request.json().catch(() => ({}))
+    const { values, errors } = validateColumnMapping(body.mapping)
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid column mapping',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    // 3. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 4. Check permissions
+    const canEdit = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_CREATE)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to change this business\'s import settings'
+        }
+      }, { status: 403 })
+    }
+
+    // 5. Save
+    const { mapping, error: saveError } = await saveImportMapping(supabase, businessId, values, user.id)
+
+    if (saveError || !mapping) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UPSERT_FAILED',
+          message: 'Failed to save column mapping',
+          details: saveError
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: mapping
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Save import mapping error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
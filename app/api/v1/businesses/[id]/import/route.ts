@@ -0,0 +1,312 @@
+// app/api/v1/businesses/[id]/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { checkSubscriptionLimit } from '@/lib/subscription-enforcement'
+import {
+  applyImport,
+  getImportMapping,
+  matchSheetMenus,
+  planImport,
+  readImportFile,
+  resolveColumnMapping,
+  saveImportMapping,
+  splitSheetByMenu,
+  validateColumnMapping,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS
+} from '@/lib/menu-import'
+import type { ApiResponse, BusinessImportReport, ImportColumnMapping, ImportReport } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/businesses/:id/import
+// Import a business export (CSV, XLSX or JSON from GET /businesses/:id/export)
+// back into the business's menus (multipart/form-data). Each row goes to the
+// menu named in its menu column (slug, or a unique menu name); every menu must
+// already exist. Per menu, rows are matched and reported like POST /menus/:id/import.
+// Form: file, dry_run? ('true' reports without writing), mapping? (JSON, overrides
+// the saved mapping), save_mapping? ('true' saves the applied mapping)
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Validate request
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+
+    if (!formData || !(file instanceof File)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A CSV, XLSX or JSON export file is required in the file field'
+        }
+      }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'File too large. Maximum size is 5MB'
+        }
+      }, { status: 400 })
+    }
+
+    const dryRun = formData.get('dry_run') === 'true'
+    const saveMapping = formData.get('save_mapping') === 'true'
+
+    let requestMapping: ImportColumnMapping = {}
+    const mappingField = formData.get('mapping')
+
+    if (typeof mappingField === 'string' && mappingField.trim()) {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(mappingField)
+      } catch {
+        parsed = null
+      }
+
+      const { values, errors } = validateColumnMapping(parsed)
+      if (errors.length > 0) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid column mapping',
+            details: errors
+          }
+        }, { status: 400 })
+      }
+      requestMapping = values
+    }
+
+    // 3. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 4. Check permissions
+    const isOwner = business.user_id === user.id
+    const canCreate = isOwner || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_CREATE)
+
+    if (!canCreate) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to import items into this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 5. Read the sheet and split it by menu
+    const { sheet, error: fileError } = readImportFile(new Uint8Array(await file.arrayBuffer()), file.name)
+
+    if (fileError || !sheet) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: fileError || 'The file could not be read'
+        }
+      }, { status: 400 })
+    }
+
+    if (sheet.rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Cannot import more than ${MAX_IMPORT_ROWS} rows at once`
+        }
+      }, { status: 400 })
+    }
+
+    const { groups, blank_rows: blankRows } = splitSheetByMenu(sheet)
+
+    if (groups.some(group => group.menu === null)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The file needs a menu column naming each row\'s menu; import single menus through POST /api/v1/menus/:id/import'
+        }
+      }, { status: 400 })
+    }
+
+    if (blankRows.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Some rows do not name a menu',
+          details: blankRows.map(row => `Row ${row}: menu is required`)
+        }
+      }, { status: 400 })
+    }
+
+    const { data: menus } = await supabase
+      .from('menus')
+      .select('id, business_id, name, slug')
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+
+    const { matches, errors: menuErrors } = matchSheetMenus(groups.map(group => group.menu!), menus || [])
+
+    if (menuErrors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Some menus in the file were not found; create them first',
+          details: menuErrors
+        }
+      }, { status: 400 })
+    }
+
+    const savedMapping = await getImportMapping(supabase, businessId)
+    const headers = groups[0].sheet.headers
+    const columns = resolveColumnMapping(headers, { ...savedMapping, ...requestMapping })
+
+    if (columns.errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The file\'s columns do not match the mapping',
+          details: {
+            errors: columns.errors,
+            headers
+          }
+        }
+      }, { status: 400 })
+    }
+
+    if (saveMapping) {
+      await saveImportMapping(supabase, businessId, columns.mapping, user.id)
+    }
+
+    const targets = groups.map(group => ({ menu: matches.get(group.menu!)!, sheet: group.sheet }))
+
+    // 6. Plan the import of every menu
+    const plans = await Promise.all(targets.map(target => planImport(supabase, target.menu, target.sheet, columns)))
+
+    if (dryRun) {
+      return NextResponse.json<ApiResponse<BusinessImportReport>>({
+        data: toBusinessReport(targets, plans.map(plan => plan.report), true)
+      })
+    }
+
+    // 7. Check edit permission and subscription limits for what will be written
+    const updated = plans.reduce((sum, plan) => sum + plan.report.summary.updated, 0)
+    const created = plans.reduce((sum, plan) => sum + plan.report.summary.created, 0)
+
+    if (updated > 0 && !isOwner && !await hasPermission(businessId, user.id, PERMISSIONS.ITEM_EDIT)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to update existing items; remove rows that match existing items'
+        }
+      }, { status: 403 })
+    }
+
+    if (created > 0) {
+      const limitCheck = await checkSubscriptionLimit(businessId, 'items', created)
+      if (!limitCheck.allowed) {
+        return NextResponse.json<ApiResponse>({
+          error: limitCheck.error
+        }, { status: 403 })
+      }
+    }
+
+    // 8. Import menu by menu, planning each again so categories created for
+    // an earlier menu are reused instead of created twice
+    const reports: ImportReport[] = []
+
+    for (const target of targets) {
+      const plan = await planImport(supabase, target.menu, target.sheet, columns)
+      reports.push(await applyImport(supabase, plan))
+    }
+
+    return NextResponse.json<ApiResponse<BusinessImportReport>>({
+      data: toBusinessReport(targets, reports, false)
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Business import error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+function toBusinessReport(
+  targets: Array<{ menu: { id: string; name: string; slug: string } }>,
+  reports: ImportReport[],
+  dryRun: boolean
+): BusinessImportReport {
+  const total = (key: keyof ImportReport['summary']) => reports.reduce((sum, report) => sum + report.summary[key], 0)
+
+  return {
+    dry_run: dryRun,
+    summary: {
+      menus: targets.length,
+      rows: total('rows'),
+      created: total('created'),
+      updated: total('updated'),
+      skipped: total('skipped'),
+      rejected: total('rejected')
+    },
+    menus: targets.map((target, i) => ({
+      menu_id: target.menu.id,
+      menu_name: target.menu.name,
+      menu_slug: target.menu.slug,
+      report: reports[i]
+    }))
+  }
+}
@@ -0,0 +1,132 @@
+// app/api/v1/businesses/[id]/items/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import type { ApiResponse, MenuItem, MenuItemPlacement } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/businesses/:id/items
+// The business item library: every item with the menus it appears on
+// (its own menu_id plus placements). Place an item with POST /api/v1/menus/:id/items { item_id }
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view items for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Get items and their placements
+    const [{ data: items, error: itemsError }, { data: placements }] = await Promise.all([
+      supabase
+        .from('menu_items')
+        .select('*, menus!inner(id, name, business_id)')
+        .eq('menus.business_id', businessId)
+        .is('deleted_at', null)
+        .order('name', { ascending: true }),
+      supabase
+        .from('menu_item_placements')
+        .select('*')
+        .eq('business_id', businessId)
+        .is('deleted_at', null)
+    ])
+
+    if (itemsError) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'QUERY_FAILED',
+          message: 'Failed to fetch items',
+          details: itemsError.message
+        }
+      }, { status: 500 })
+    }
+
+    const placementsByItem = new Map<string, MenuItemPlacement[]>()
+    for (const placement of (placements || []) as MenuItemPlacement[]) {
+      placementsByItem.set(placement.item_id, [...(placementsByItem.get(placement.item_id) || []), placement])
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: ((items || []) as MenuItem[]).map(item => {
+        const itemPlacements = placementsByItem.get(item.id) || []
+        return {
+          ...item,
+          placements: itemPlacements,
+          menu_ids: [item.menu_id, ...itemPlacements.map(placement => placement.menu_id)]
+        }
+      })
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('List item library error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
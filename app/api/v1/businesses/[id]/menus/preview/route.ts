@@ -0,0 +1,199 @@
+// app/api/v1/businesses/[id]/menus/preview/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { getActiveMenus, resolveMenu, getAvailableMenus, describeFallback, getMenuTransitions } from '@/lib/menu-resolver'
+import { getZonedDateTime, zonedTimeToUtc } from '@/lib/time-utils'
+import { getBusinessStatus } from '@/lib/business-hours'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// GET /api/v1/businesses/:id/menus/preview?at=2026-03-01T12:30&menu=dinner-menu
+// Show what a guest would get from /public/menu/{slug} at an arbitrary instant.
+// `at` is an ISO timestamp; without an offset it is read as business-local time.
+// `menu` is the requested menu slug (omit to preview a business-slug scan).
+// `lang` localizes the next opening/closing messages (defaults to en).
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id, timezone, business_hours, holiday_closures, allow_browsing_when_closed')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to preview menus for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Parse the instant to evaluate
+    const { searchParams } = new URL(request.url)
+    const atParam = searchParams.get('at')
+    const menuSlug = searchParams.get('menu')
+    const lang = searchParams.get('lang') || 'en'
+    const timezone = business.timezone || 'UTC'
+
+    let at = new Date()
+    if (atParam) {
+      const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(atParam)
+      const parsed = hasOffset ? new Date(atParam) : zonedTimeToUtc(atParam, timezone)
+
+      if (!parsed || isNaN(parsed.getTime())) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'at must be an ISO 8601 timestamp (e.g., 2026-03-01T12:30 or 2026-03-01T12:30:00Z)'
+          }
+        }, { status: 400 })
+      }
+      at = parsed
+    }
+
+    // 5. Resolve exactly as the public route would
+    const menus = await getActiveMenus(supabase, businessId)
+
+    let requestedMenu = null
+    if (menuSlug) {
+      requestedMenu = menus.find(m => m.slug === menuSlug) || null
+
+      if (!requestedMenu) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'NOT_FOUND',
+            message: `No active menu with slug '${menuSlug}'`
+          }
+        }, { status: 404 })
+      }
+    }
+
+    const businessStatus = getBusinessStatus(business, timezone, lang, at)
+    const resolution = resolveMenu(menus, requestedMenu, timezone, at)
+    const transitions = getMenuTransitions(resolution, menus, timezone, lang, at)
+    const zoned = getZonedDateTime(at, timezone)
+    const localTime = `${String(Math.floor(zoned.minutes / 60)).padStart(2, '0')}:${String(zoned.minutes % 60).padStart(2, '0')}`
+
+    const summarize = (menu: { id: string; name: string; slug: string; location: string | null }) => ({
+      id: menu.id,
+      name: menu.name,
+      slug: menu.slug,
+      location: menu.location
+    })
+
+    // Business hours and holidays come first, as in the public route
+    const outcome = !businessStatus.is_open && !businessStatus.allow_browsing
+      ? {
+          status: 'business_closed' as const,
+          reason: businessStatus.reason,
+          message: businessStatus.message,
+          closure: businessStatus.closure,
+          next_opening: businessStatus.next_opening,
+          http_status: 403
+        }
+      : resolution.status === 'served'
+      ? {
+          status: 'served' as const,
+          menu: summarize(resolution.menu),
+          fallback: resolution.fallback
+            ? {
+                ...describeFallback(resolution.fallback, resolution.fallback.requested_menu.name, resolution.menu.name),
+                reason: resolution.fallback.reason
+              }
+            : null,
+          next_opening: transitions.next_opening,
+          closes_at: transitions.closes_at
+        }
+      : {
+          status: 'closed' as const,
+          reason: resolution.reason,
+          location: resolution.location,
+          availability: resolution.availability,
+          next_opening: transitions.next_opening,
+          http_status: 403
+        }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        at: at.toISOString(),
+        timezone,
+        local: {
+          date: zoned.date,
+          day: DAY_NAMES[zoned.dayOfWeek],
+          time: localTime
+        },
+        requested_menu: requestedMenu ? summarize(requestedMenu) : null,
+        business_status: businessStatus,
+        outcome,
+        available_menus: getAvailableMenus(menus, timezone, at).map(summarize)
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Menu preview error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
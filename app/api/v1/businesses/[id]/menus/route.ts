@@ -4,6 +4,7 @@ import { getAuthUser } from '@/lib/auth'
 import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse, validationErrorResponse } from '@/lib/api-helpers'
 import type { Menu } from '@/types/api'
 import { checkSubscriptionLimit } from '@/lib/subscription-enforcement'
+import { validateMenuSchedule } from '@/lib/schedule-validation'
 
 // GET /api/v1/businesses/:id/menus - List all menus for a business
 export async function GET(
@@ -85,6 +86,11 @@ export async function POST(
       return validationErrorResponse('Menu name is required')
     }
 
+    const schedule = validateMenuSchedule(body)
+    if (schedule.errors.length > 0) {
+      return validationErrorResponse('Invalid menu schedule', schedule.errors)
+    }
+
     const authHeader = request.headers.get('authorization')!
     const token = authHeader.replace('Bearer ', '')
     
@@ -144,7 +150,8 @@ export async function POST(
         description: body.description || null,
         is_active: body.is_active ?? true,
         display_order: displayOrder,
-        availability_schedule: body.availability_schedule || null
+        availability_schedule: body.availability_schedule || null,
+        ...schedule.values
       })
       .select()
       .single()
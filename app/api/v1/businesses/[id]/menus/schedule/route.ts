@@ -0,0 +1,118 @@
+// app/api/v1/businesses/[id]/menus/schedule/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { getActiveMenus } from '@/lib/menu-resolver'
+import { buildWeeklyTimeline } from '@/lib/schedule-timeline'
+import { getZonedDateTime } from '@/lib/time-utils'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/businesses/:id/menus/schedule?start=2026-03-02
+// Week-long timeline of which menu the public resolver serves, with conflicts:
+// equal-priority overlaps, gaps with no menu, and "Location closed" windows.
+// Business hours and holiday closures apply as they do for guests.
+// `start` is the first local date (defaults to today in the business timezone).
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id, timezone, business_hours, holiday_closures, allow_browsing_when_closed')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view menu schedules for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Parse the week start
+    const { searchParams } = new URL(request.url)
+    const timezone = business.timezone || 'UTC'
+    const startDate = searchParams.get('start') || getZonedDateTime(new Date(), timezone).date
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || isNaN(new Date(startDate).getTime())) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'start must be a date in YYYY-MM-DD format'
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Build timeline from all active menus and the opening hours
+    const menus = await getActiveMenus(supabase, businessId)
+    const timeline = buildWeeklyTimeline(menus, business, timezone, startDate)
+
+    return NextResponse.json<ApiResponse>({
+      data: timeline
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Menu schedule timeline error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,259 @@
+// app/api/v1/businesses/[id]/modifier-groups/[groupId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { validateModifierGroup } from '@/lib/modifier-groups'
+import type { ApiResponse, ModifierGroup } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// PATCH /api/v1/businesses/:id/modifier-groups/:groupId
+// Update any group field. Send the full options array to add, remove or
+// mark options unavailable; keep option ids to keep them stable.
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; groupId: string }> }
+) {
+  try {
+    const { id: businessId, groupId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the group
+    const { data: existing, error: groupError } = await supabase
+      .from('modifier_groups')
+      .select('*, businesses!inner(user_id)')
+      .eq('id', groupId)
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (groupError || !existing) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Modifier group not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const { businesses, ...group } = existing
+    const business = businesses as unknown as { user_id: string }
+    const canEdit = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to edit modifier groups for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate the group as it will be after the update.
+    // Changing only is_required or only min_selections lets the other follow.
+    const body = await request.json()
+    const merged: Record<string, unknown> = { ...group, ...body }
+    if (body.is_required !== undefined && body.min_selections === undefined) delete merged.min_selections
+    if (body.min_selections !== undefined && body.is_required === undefined) delete merged.is_required
+
+    const { values, errors } = validateModifierGroup(merged)
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid modifier group',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Update group
+    const { data: updated, error: updateError } = await supabase
+      .from('modifier_groups')
+      .update({
+        ...values,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', groupId)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Update modifier group error:', updateError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UPDATE_FAILED',
+          message: 'Failed to update modifier group',
+          details: updateError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<ModifierGroup>>({
+      data: updated as ModifierGroup
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Update modifier group error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/v1/businesses/:id/modifier-groups/:groupId
+// Soft delete a group and detach it from every item using it
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; groupId: string }> }
+) {
+  try {
+    const { id: businessId, groupId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the group
+    const { data: group, error: groupError } = await supabase
+      .from('modifier_groups')
+      .select('id, businesses!inner(user_id)')
+      .eq('id', groupId)
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (groupError || !group) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Modifier group not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = group.businesses as unknown as { user_id: string }
+    const canDelete = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_DELETE)
+
+    if (!canDelete) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to delete modifier groups for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Soft delete
+    const { error: deleteError } = await supabase
+      .from('modifier_groups')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', groupId)
+
+    if (deleteError) {
+      console.error('Delete modifier group error:', deleteError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'DELETE_FAILED',
+          message: 'Failed to delete modifier group',
+          details: deleteError.message
+        }
+      }, { status: 500 })
+    }
+
+    // 5. Detach from items
+    const { data: items } = await supabase
+      .from('menu_items')
+      .select('id, modifier_group_ids')
+      .contains('modifier_group_ids', [groupId])
+
+    for (const item of items || []) {
+      await supabase
+        .from('menu_items')
+        .update({
+          modifier_group_ids: (item.modifier_group_ids as string[]).filter(id => id !== groupId),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', item.id)
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        id: groupId,
+        deleted: true,
+        detached_items: (items || []).length
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Delete modifier group error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
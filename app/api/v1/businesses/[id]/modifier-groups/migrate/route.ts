@@ -0,0 +1,228 @@
+// app/api/v1/businesses/[id]/modifier-groups/migrate/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { convertCustomizationOptions, validateModifierGroup } from '@/lib/modifier-groups'
+import type { ApiResponse, ModifierGroup } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/businesses/:id/modifier-groups/migrate
+// Convert items' legacy customization_options into modifier groups. Identical
+// groups are shared between items; converted items get the groups appended to
+// modifier_group_ids and their customization_options cleared. Until then public
+// menus read the legacy options directly. Menus must be republished afterwards.
+// Body: { dry_run?: boolean }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canEdit = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to edit items of this business'
+        }
+      }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const dryRun = body.dry_run === true
+
+    // 4. Items still carrying legacy options
+    const { data: items, error: itemsError } = await supabase
+      .from('menu_items')
+      .select('id, name, menu_id, modifier_group_ids, customization_options, menus!inner(business_id)')
+      .eq('menus.business_id', businessId)
+      .not('customization_options', 'is', null)
+      .is('deleted_at', null)
+
+    if (itemsError) {
+      console.error('Fetch legacy items error:', itemsError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FETCH_FAILED',
+          message: 'Failed to load items',
+          details: itemsError.message
+        }
+      }, { status: 500 })
+    }
+
+    // 5. Convert; groups with the same content are created once
+    const groups = new Map<string, { values: Partial<ModifierGroup>; id: string | null }>()
+    const converted: Array<{ id: string; name: string; menu_id: string; modifier_group_ids: string[]; keys: string[] }> = []
+    const skipped: Array<{ id: string; name: string; errors: string[] }> = []
+
+    for (const item of items || []) {
+      const keys: string[] = []
+      const errors: string[] = []
+
+      for (const groupBody of convertCustomizationOptions(item.customization_options)) {
+        const { values, errors: groupErrors } = validateModifierGroup(groupBody)
+
+        if (groupErrors.length > 0) {
+          errors.push(...groupErrors.map(error => `${values.name || 'group'}: ${error}`))
+          continue
+        }
+
+        const key = JSON.stringify([
+          values.name,
+          values.min_selections,
+          values.max_selections,
+          values.options!.map(option => [option.name, option.price_delta, option.is_available, option.is_default])
+        ])
+        if (!groups.has(key)) groups.set(key, { values, id: null })
+        keys.push(key)
+      }
+
+      if (errors.length > 0 || keys.length === 0) {
+        skipped.push({
+          id: item.id,
+          name: item.name,
+          errors: errors.length > 0 ? errors : ['customization_options has no recognizable groups']
+        })
+        continue
+      }
+
+      converted.push({ id: item.id, name: item.name, menu_id: item.menu_id, modifier_group_ids: item.modifier_group_ids || [], keys })
+    }
+
+    // 6. Write groups, then point items at them
+    if (!dryRun) {
+      const used = new Set(converted.flatMap(item => item.keys))
+
+      for (const [key, group] of groups) {
+        if (!used.has(key)) continue
+
+        const { data: created, error: insertError } = await supabase
+          .from('modifier_groups')
+          .insert({
+            business_id: businessId,
+            name: group.values.name,
+            description: group.values.description ?? null,
+            min_selections: group.values.min_selections,
+            max_selections: group.values.max_selections,
+            is_required: group.values.is_required,
+            options: group.values.options
+          })
+          .select('id')
+          .single()
+
+        if (insertError || !created) {
+          console.error('Create migrated modifier group error:', insertError)
+          return NextResponse.json<ApiResponse>({
+            error: {
+              code: 'MIGRATION_FAILED',
+              message: 'Failed to create modifier groups',
+              details: insertError?.message
+            }
+          }, { status: 500 })
+        }
+
+        group.id = created.id
+      }
+
+      for (const item of converted) {
+        const ids = item.keys.map(key => groups.get(key)!.id!)
+
+        const { error: updateError } = await supabase
+          .from('menu_items')
+          .update({
+            modifier_group_ids: [...new Set([...item.modifier_group_ids, ...ids])],
+            customization_options: null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', item.id)
+
+        if (updateError) {
+          console.error('Migrate item modifier groups error:', updateError)
+          skipped.push({ id: item.id, name: item.name, errors: [updateError.message] })
+        }
+      }
+    }
+
+    const skippedIds = new Set(skipped.map(item => item.id))
+    const migrated = converted.filter(item => !skippedIds.has(item.id))
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        dry_run: dryRun,
+        items_converted: migrated.length,
+        groups_created: new Set(migrated.flatMap(item => item.keys)).size,
+        items: migrated.map(item => ({
+          id: item.id,
+          name: item.name,
+          groups: item.keys.map(key => groups.get(key)!.values.name)
+        })),
+        skipped,
+        menus_to_publish: [...new Set(migrated.map(item => item.menu_id))]
+      }
+    }, { status: dryRun ? 200 : 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Migrate modifier groups error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,253 @@
+// app/api/v1/businesses/[id]/modifier-groups/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { validateModifierGroup } from '@/lib/modifier-groups'
+import type { ApiResponse, ModifierGroup } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/businesses/:id/modifier-groups
+// List the business's modifier groups with how many items use each
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view modifier groups for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Get groups and the items using them
+    const [{ data: groups, error: groupsError }, { data: items }] = await Promise.all([
+      supabase
+        .from('modifier_groups')
+        .select('*')
+        .eq('business_id', businessId)
+        .is('deleted_at', null)
+        .order('name', { ascending: true }),
+      supabase
+        .from('menu_items')
+        .select('modifier_group_ids, menus!inner(business_id)')
+        .eq('menus.business_id', businessId)
+        .is('deleted_at', null)
+    ])
+
+    if (groupsError) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'QUERY_FAILED',
+          message: 'Failed to fetch modifier groups',
+          details: groupsError.message
+        }
+      }, { status: 500 })
+    }
+
+    const usage = new Map<string, number>()
+    for (const item of items || []) {
+      for (const id of (item.modifier_group_ids as string[] | null) || []) {
+        usage.set(id, (usage.get(id) || 0) + 1)
+      }
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: ((groups || []) as ModifierGroup[]).map(group => ({
+        ...group,
+        item_count: usage.get(group.id) || 0
+      }))
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('List modifier groups error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/v1/businesses/:id/modifier-groups
+// Body: { name, description?, min_selections?, max_selections?, is_required?,
+//         options: [{ name, price_delta?, is_available?, is_default? }] }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canCreate = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_CREATE)
+
+    if (!canCreate) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to create modifier groups for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate request
+    const body = await request.json()
+    const { values, errors } = validateModifierGroup(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid modifier group',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Create group
+    const { data: group, error: insertError } = await supabase
+      .from('modifier_groups')
+      .insert({
+        business_id: businessId,
+        name: values.name,
+        description: values.description ?? null,
+        min_selections: values.min_selections,
+        max_selections: values.max_selections,
+        is_required: values.is_required,
+        options: values.options
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Create modifier group error:', insertError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'CREATE_FAILED',
+          message: 'Failed to create modifier group',
+          details: insertError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<ModifierGroup>>({
+      data: group as ModifierGroup
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Create modifier group error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
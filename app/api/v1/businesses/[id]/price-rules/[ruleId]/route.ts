@@ -0,0 +1,246 @@
+// app/api/v1/businesses/[id]/price-rules/[ruleId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { getPriceRuleState, priceRuleTargetExists, validatePriceRule } from '@/lib/price-rules'
+import type { ApiResponse, PriceRule } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// PATCH /api/v1/businesses/:id/price-rules/:ruleId
+// Update any rule field; { is_active: false } pauses it, { schedule: null } makes it always apply
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const { id: businessId, ruleId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the rule
+    const { data: existing, error: ruleError } = await supabase
+      .from('price_rules')
+      .select('*, businesses!inner(user_id, timezone)')
+      .eq('id', ruleId)
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (ruleError || !existing) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Price rule not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const { businesses, ...rule } = existing
+    const business = businesses as unknown as { user_id: string; timezone: string | null }
+    const canEdit = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage price rules for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate the rule as it will be after the update
+    const body = await request.json()
+    const { values, errors } = validatePriceRule({ ...rule, ...body })
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid price rule',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    const targetChanged = values.target_type !== rule.target_type || values.target_id !== rule.target_id
+    if (targetChanged && !await priceRuleTargetExists(supabase, businessId, values.target_type!, values.target_id!)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${values.target_type} ${values.target_id} not found in this business`
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Update rule
+    const { data: updated, error: updateError } = await supabase
+      .from('price_rules')
+      .update({
+        ...values,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', ruleId)
+      .select()
+      .single()
+
+    if (updateError || !updated) {
+      console.error('Update price rule error:', updateError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UPDATE_FAILED',
+          message: 'Failed to update price rule',
+          details: updateError?.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        ...updated,
+        ...getPriceRuleState(updated as PriceRule, business.timezone)
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Update price rule error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/v1/businesses/:id/price-rules/:ruleId
+// Soft delete a price rule
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const { id: businessId, ruleId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the rule
+    const { data: rule, error: ruleError } = await supabase
+      .from('price_rules')
+      .select('id, businesses!inner(user_id)')
+      .eq('id', ruleId)
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (ruleError || !rule) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Price rule not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = rule.businesses as unknown as { user_id: string }
+    const canEdit = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage price rules for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Soft delete
+    const { error: deleteError } = await supabase
+      .from('price_rules')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', ruleId)
+
+    if (deleteError) {
+      console.error('Delete price rule error:', deleteError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'DELETE_FAILED',
+          message: 'Failed to delete price rule',
+          details: deleteError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: { id: ruleId, deleted: true }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Delete price rule error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,283 @@
+// app/api/v1/businesses/[id]/price-rules/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { getPriceRuleState, priceRuleTargetExists, validatePriceRule, PRICE_RULE_STATUSES } from '@/lib/price-rules'
+import type { ApiResponse, PriceRule, PriceRuleStatus } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/businesses/:id/price-rules?status=active,upcoming
+// List price rules with where each stands now (active and upcoming unless ?status= is given)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id, timezone')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view price rules for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Parse status filter
+    const { searchParams } = new URL(request.url)
+    const statuses = (searchParams.get('status') || 'active,upcoming')
+      .split(',')
+      .map(s => s.trim())
+      .filter(Boolean) as PriceRuleStatus[]
+
+    const invalid = statuses.filter(s => !PRICE_RULE_STATUSES.includes(s))
+    if (invalid.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `status must be one or more of: ${PRICE_RULE_STATUSES.join(', ')}`
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Get rules
+    const { data: rules, error: rulesError } = await supabase
+      .from('price_rules')
+      .select('*')
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+
+    if (rulesError) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'QUERY_FAILED',
+          message: 'Failed to fetch price rules',
+          details: rulesError.message
+        }
+      }, { status: 500 })
+    }
+
+    const timezone = business.timezone || 'UTC'
+    const now = new Date()
+
+    const listed = ((rules || []) as PriceRule[])
+      .map(rule => ({ ...rule, ...getPriceRuleState(rule, timezone, now) }))
+      .filter(rule => statuses.includes(rule.status))
+      // Running rules first (ending soonest), then upcoming by start
+      .sort((a, b) =>
+        PRICE_RULE_STATUSES.indexOf(a.status) - PRICE_RULE_STATUSES.indexOf(b.status) ||
+        (a.active_until || a.next_start || '').localeCompare(b.active_until || b.next_start || '')
+      )
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        timezone,
+        rules: listed
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('List price rules error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/v1/businesses/:id/price-rules
+// Body: { name, target_type: 'item'|'category'|'menu', target_id, type: 'percentage'|'fixed_price', value,
+//         schedule?: { time_windows: [{ from: '17:00', to: '19:00', days_of_week: [1,2,3,4,5] }] }, priority?, is_active? }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id, timezone')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canEdit = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage price rules for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate request
+    const body = await request.json()
+    const { values, errors } = validatePriceRule(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid price rule',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    if (!await priceRuleTargetExists(supabase, businessId, values.target_type!, values.target_id!)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `${values.target_type} ${values.target_id} not found in this business`
+        }
+      }, { status: 400 })
+    }
+
+    // 5. Create rule
+    const { data: rule, error: insertError } = await supabase
+      .from('price_rules')
+      .insert({
+        business_id: businessId,
+        name: values.name,
+        target_type: values.target_type,
+        target_id: values.target_id,
+        type: values.type,
+        value: values.value,
+        schedule: values.schedule ?? null,
+        priority: values.priority ?? 0,
+        is_active: values.is_active ?? true,
+        created_by: user.id
+      })
+      .select()
+      .single()
+
+    if (insertError || !rule) {
+      console.error('Create price rule error:', insertError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'CREATE_FAILED',
+          message: 'Failed to create price rule',
+          details: insertError?.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        ...rule,
+        ...getPriceRuleState(rule as PriceRule, business.timezone)
+      }
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Create price rule error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
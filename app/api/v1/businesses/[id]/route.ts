@@ -1,7 +1,8 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { getAuthUser } from '@/lib/auth'
-import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse } from '@/lib/api-helpers'
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { validateBusinessHours } from '@/lib/business-hours'
 import type { Business } from '@/types/api'
 
 // GET /api/v1/businesses/:id
@@ -61,6 +62,13 @@ export async function PUT(
     }
 
     const body = await request.json()
+
+    if (body.business_hours !== undefined) {
+      const hoursErrors = validateBusinessHours(body.business_hours)
+      if (hoursErrors.length > 0) {
+        return validationErrorResponse('Invalid business hours', hoursErrors)
+      }
+    }
     
     const authHeader = request.headers.get('authorization')!
     const token = authHeader.replace('Bearer ', '')
@@ -0,0 +1,137 @@
+// app/api/v1/businesses/[id]/scheduled-changes/[changeId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// DELETE /api/v1/businesses/:id/scheduled-changes/:changeId?scope=batch
+// Cancel a pending change (or every pending change in its batch with scope=batch)
+// Applied changes are kept as history and cannot be cancelled
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; changeId: string }> }
+) {
+  try {
+    const { id: businessId, changeId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the change
+    const { data: change, error: changeError } = await supabase
+      .from('scheduled_changes')
+      .select('id, business_id, batch_id, target_type, status, businesses!inner(user_id)')
+      .eq('id', changeId)
+      .eq('business_id', businessId)
+      .single()
+
+    if (changeError || !change) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Scheduled change not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = change.businesses as unknown as { user_id: string }
+    const permission = change.target_type === 'item' ? PERMISSIONS.ITEM_EDIT : PERMISSIONS.MENU_EDIT
+    const canCancel = business.user_id === user.id || await hasPermission(businessId, user.id, permission)
+
+    if (!canCancel) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to cancel this change'
+        }
+      }, { status: 403 })
+    }
+
+    if (change.status !== 'pending') {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'INVALID_STATE',
+          message: `Only pending changes can be cancelled (this one is ${change.status})`
+        }
+      }, { status: 409 })
+    }
+
+    // 4. Cancel (only rows still pending, in case the cron job just picked them up)
+    const { searchParams } = new URL(request.url)
+    const wholeBatch = searchParams.get('scope') === 'batch'
+
+    let query = supabase
+      .from('scheduled_changes')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: user.id
+      })
+      .eq('status', 'pending')
+
+    query = wholeBatch
+      ? query.eq('batch_id', change.batch_id).eq('business_id', businessId)
+      : query.eq('id', change.id)
+
+    const { data: cancelled, error: cancelError } = await query.select('id')
+
+    if (cancelError) {
+      console.error('Cancel scheduled change error:', cancelError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UPDATE_FAILED',
+          message: 'Failed to cancel scheduled change',
+          details: cancelError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        cancelled: (cancelled || []).map(c => c.id)
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Cancel scheduled change error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
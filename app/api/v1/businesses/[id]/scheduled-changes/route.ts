@@ -0,0 +1,388 @@
+// app/api/v1/businesses/[id]/scheduled-changes/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { validateScheduledChange } from '@/lib/scheduled-changes'
+import { validateItemSchedule, validateMenuSchedule } from '@/lib/schedule-validation'
+import { validateItemTaxonomy } from '@/lib/dietary-taxonomy'
+import { zonedTimeToUtc } from '@/lib/time-utils'
+import type { ApiResponse, ScheduledChange, ScheduledChangeInput, ScheduleChangesRequest } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+const STATUSES = ['pending', 'applying', 'applied', 'cancelled', 'failed']
+
+// GET /api/v1/businesses/:id/scheduled-changes?status=pending
+// List scheduled changes, soonest first (all statuses unless ?status= is given)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id, timezone')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(businessId, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view scheduled changes for this business'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Get changes
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `status must be one of: ${STATUSES.join(', ')}`
+        }
+      }, { status: 400 })
+    }
+
+    let query = supabase
+      .from('scheduled_changes')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('effective_at', { ascending: true })
+
+    if (status) {
+      query = query.eq('status', status)
+    }
+
+    const { data: changes, error: changesError } = await query
+
+    if (changesError) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'QUERY_FAILED',
+          message: 'Failed to fetch scheduled changes',
+          details: changesError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<{ timezone: string; changes: ScheduledChange[] }>>({
+      data: {
+        timezone: business.timezone || 'UTC',
+        changes: (changes || []) as ScheduledChange[]
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('List scheduled changes error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/v1/businesses/:id/scheduled-changes
+// Queue item, category or menu changes to apply at effective_at
+// Body: { effective_at: '2026-11-01T00:00', note?, changes: [{ target_type, target_id, changes: { price: 45 } }] }
+// effective_at without an offset is read as business-local time
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const businessId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Verify business exists
+    const { data: business, error: bizError } = await supabase
+      .from('businesses')
+      .select('id, user_id, timezone')
+      .eq('id', businessId)
+      .is('deleted_at', null)
+      .single()
+
+    if (bizError || !business) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Business not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Validate request
+    const body = await request.json() as Partial<ScheduleChangesRequest>
+    const timezone = business.timezone || 'UTC'
+
+    if (!body.effective_at || typeof body.effective_at !== 'string') {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'effective_at is required'
+        }
+      }, { status: 400 })
+    }
+
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(body.effective_at)
+    const effectiveAt = hasOffset ? new Date(body.effective_at) : zonedTimeToUtc(body.effective_at, timezone)
+
+    if (!effectiveAt || isNaN(effectiveAt.getTime())) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'effective_at must be an ISO 8601 timestamp (e.g., 2026-11-01T00:00 or 2026-11-01T00:00:00Z)'
+        }
+      }, { status: 400 })
+    }
+
+    if (effectiveAt <= new Date()) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'effective_at must be in the future'
+        }
+      }, { status: 400 })
+    }
+
+    if (!Array.isArray(body.changes) || body.changes.length === 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'changes must be a non-empty array'
+        }
+      }, { status: 400 })
+    }
+
+    const validationErrors = body.changes.flatMap((change, i) => validateScheduledChange(change, i))
+
+    if (validationErrors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid scheduled changes',
+          details: validationErrors
+        }
+      }, { status: 400 })
+    }
+
+    const changes = body.changes as ScheduledChangeInput[]
+
+    // 4. Check permissions (item changes need item:edit, the rest menu:edit)
+    if (business.user_id !== user.id) {
+      const needsItemEdit = changes.some(c => c.target_type === 'item')
+      const needsMenuEdit = changes.some(c => c.target_type !== 'item')
+
+      const allowed =
+        (!needsItemEdit || await hasPermission(businessId, user.id, PERMISSIONS.ITEM_EDIT)) &&
+        (!needsMenuEdit || await hasPermission(businessId, user.id, PERMISSIONS.MENU_EDIT))
+
+      if (!allowed) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to schedule these changes'
+          }
+        }, { status: 403 })
+      }
+    }
+
+    // 5. Verify every target (and every category items move into) belongs to this business
+    const idsOf = (type: ScheduledChangeInput['target_type']) =>
+      [...new Set(changes.filter(c => c.target_type === type).map(c => c.target_id))]
+
+    const movedTo = (change: ScheduledChangeInput) =>
+      change.target_type === 'item' && typeof change.changes.category_id === 'string' ? change.changes.category_id : null
+
+    const found = new Set<string>()
+    const itemIds = idsOf('item')
+    const categoryIds = [...new Set([...idsOf('category'), ...changes.map(movedTo).filter((id): id is string => !!id)])]
+    const menuIds = idsOf('menu')
+
+    if (itemIds.length > 0) {
+      const { data: items } = await supabase
+        .from('menu_items')
+        .select('id, menus!inner(business_id)')
+        .in('id', itemIds)
+        .eq('menus.business_id', businessId)
+        .is('deleted_at', null)
+      for (const item of items || []) found.add(`item:${item.id}`)
+    }
+
+    if (categoryIds.length > 0) {
+      const { data: categories } = await supabase
+        .from('categories')
+        .select('id')
+        .in('id', categoryIds)
+        .eq('business_id', businessId)
+        .is('deleted_at', null)
+      for (const category of categories || []) found.add(`category:${category.id}`)
+    }
+
+    if (menuIds.length > 0) {
+      const { data: menus } = await supabase
+        .from('menus')
+        .select('id')
+        .in('id', menuIds)
+        .eq('business_id', businessId)
+        .is('deleted_at', null)
+      for (const menu of menus || []) found.add(`menu:${menu.id}`)
+    }
+
+    const missing = changes
+      .map((change, i) => ({ change, i }))
+      .filter(({ change }) => !found.has(`${change.target_type}:${change.target_id}`))
+      .map(({ change, i }) => `changes[${i}]: ${change.target_type} ${change.target_id} not found in this business`)
+
+    changes.forEach((change, i) => {
+      const categoryId = movedTo(change)
+      if (categoryId && !found.has(`category:${categoryId}`)) {
+        missing.push(`changes[${i}]: category_id ${categoryId} not found in this business`)
+      }
+    })
+
+    if (missing.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Some change targets were not found',
+          details: missing
+        }
+      }, { status: 400 })
+    }
+
+    // 6. Queue the changes as one batch
+    const batchId = crypto.randomUUID()
+    const { data: queued, error: insertError } = await supabase
+      .from('scheduled_changes')
+      .insert(changes.map(change => ({
+        business_id: businessId,
+        batch_id: batchId,
+        target_type: change.target_type,
+        target_id: change.target_id,
+        // Menu schedule fields and item allergens, dietary flags and schedules are stored normalized
+        changes: change.target_type === 'menu'
+          ? { ...change.changes, ...validateMenuSchedule(change.changes).values }
+          : change.target_type === 'item'
+            ? { ...change.changes, ...validateItemTaxonomy(change.changes).values, ...validateItemSchedule(change.changes).values }
+            : change.changes,
+        effective_at: effectiveAt.toISOString(),
+        status: 'pending',
+        note: body.note || null,
+        created_by: user.id
+      })))
+      .select()
+
+    if (insertError) {
+      console.error('Queue scheduled changes error:', insertError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'CREATE_FAILED',
+          message: 'Failed to schedule changes',
+          details: insertError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        batch_id: batchId,
+        effective_at: effectiveAt.toISOString(),
+        timezone,
+        changes: queued
+      }
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Queue scheduled changes error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
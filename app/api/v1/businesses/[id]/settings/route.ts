@@ -1,6 +1,7 @@
 // app/api/v1/businesses/[id]/settings/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { validateBusinessHours, validateClosures } from '@/lib/business-hours'
 import type { ApiResponse, Business } from '@/types/api'
 
 const createServerClient = () => {
@@ -75,6 +76,8 @@ export async function PATCH(
       'auto_translate',
       'translation_provider',
       'business_hours',
+      'holiday_closures',
+      'allow_browsing_when_closed',
       'primary_color',
       'features_enabled',
       'social_media'
@@ -114,6 +117,30 @@ export async function PATCH(
       }, { status: 400 })
     }
 
+    const hoursErrors = [
+      ...(updates.business_hours !== undefined ? validateBusinessHours(updates.business_hours) : []),
+      ...(updates.holiday_closures !== undefined ? validateClosures(updates.holiday_closures) : [])
+    ]
+
+    if (hoursErrors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid business hours',
+          details: hoursErrors
+        }
+      }, { status: 400 })
+    }
+
+    if (updates.allow_browsing_when_closed !== undefined && typeof updates.allow_browsing_when_closed !== 'boolean') {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'allow_browsing_when_closed must be a boolean'
+        }
+      }, { status: 400 })
+    }
+
     updates.updated_at = new Date().toISOString() as never
 
     // Update business settings
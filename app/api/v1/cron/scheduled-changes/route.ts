@@ -0,0 +1,52 @@
+// app/api/v1/cron/scheduled-changes/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { applyDueChanges } from '@/lib/scheduled-changes'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/cron/scheduled-changes
+// Apply scheduled changes that are due. Called by Vercel Cron (see vercel.json)
+// with `Authorization: Bearer ${CRON_SECRET}`.
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authHeader = request.headers.get('authorization')
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid cron secret'
+        }
+      }, { status: 401 })
+    }
+
+    const supabase = createServerClient()
+    const result = await applyDueChanges(supabase)
+
+    if (result.applied > 0 || result.failed > 0) {
+      console.log(`Scheduled changes: ${result.applied} applied, ${result.failed} failed`)
+    }
+
+    return NextResponse.json<ApiResponse>({ data: result }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Apply scheduled changes error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { validateItemTaxonomy } from '@/lib/dietary-taxonomy'
+import { validateItemSchedule } from '@/lib/schedule-validation'
+import { validateModifierGroupIds } from '@/lib/modifier-groups'
+import { validatePriceVariants } from '@/lib/price-variants'
 
 const createServerClient = () => {
   return createClient(
@@ -94,7 +98,8 @@ export async function PATCH(
       'name', 'description', 'price', 'category_id', 'subcategory',
       'image_url', 'is_available', 'is_featured', 'prep_time_minutes',
       'portion_size', 'spice_level', 'allergens', 'dietary_flags', 'tags',
-      'sort_order', 'ingredients', 'preparation_notes'
+      'sort_order', 'ingredients', 'preparation_notes', 'schedule', 'schedule_display',
+      'modifier_group_ids', 'price_variants'
     ]
 
     allowedFields.forEach(field => {
@@ -112,6 +117,49 @@ export async function PATCH(
       return NextResponse.json({ error: 'Price cannot be negative' }, { status: 400 })
     }
 
+    // Canonicalize allergens and dietary flags
+    const taxonomy = validateItemTaxonomy(updates)
+    if (taxonomy.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid allergens or dietary flags', details: taxonomy.errors },
+        { status: 400 }
+      )
+    }
+    Object.assign(updates, taxonomy.values)
+
+    // Sizes/portions (null or [] goes back to a single price)
+    if (updates.price_variants !== undefined) {
+      const variants = validatePriceVariants(updates.price_variants)
+      if (variants.errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid price variants', details: variants.errors },
+          { status: 400 }
+        )
+      }
+      updates.price_variants = variants.values
+    }
+
+    // Item availability schedule (null clears it)
+    const itemSchedule = validateItemSchedule(updates)
+    if (itemSchedule.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid schedule', details: itemSchedule.errors },
+        { status: 400 }
+      )
+    }
+    Object.assign(updates, itemSchedule.values)
+
+    // Modifier groups must belong to the same business
+    if (updates.modifier_group_ids !== undefined) {
+      const modifierErrors = await validateModifierGroupIds(supabase, menu.business_id, updates.modifier_group_ids)
+      if (modifierErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid modifier groups', details: modifierErrors },
+          { status: 400 }
+        )
+      }
+    }
+
     // 5. Update item
     updates.updated_at = new Date().toISOString()
 
@@ -2,6 +2,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { checkSubscriptionLimit } from '@/lib/subscription-enforcement' 
+import { validateItemTaxonomy } from '@/lib/dietary-taxonomy'
+import { validateItemSchedule } from '@/lib/schedule-validation'
+import { validateModifierGroupIds } from '@/lib/modifier-groups'
+import { validatePriceVariants } from '@/lib/price-variants'
 import type { 
   ApiResponse,
   MenuItem,
@@ -137,6 +141,50 @@ export async function POST(request: NextRequest) {
         continue
       }
 
+      const taxonomy = validateItemTaxonomy(item)
+      if (taxonomy.errors.length > 0) {
+        errors.push({
+          index: i,
+          message: taxonomy.errors.join('; '),
+          item: item
+        })
+        continue
+      }
+
+      const variants = validatePriceVariants(item.price_variants)
+      if (variants.errors.length > 0) {
+        errors.push({
+          index: i,
+          message: variants.errors.join('; '),
+          item: item
+        })
+        continue
+      }
+
+      const itemSchedule = validateItemSchedule(item)
+      if (itemSchedule.errors.length > 0) {
+        errors.push({
+          index: i,
+          message: itemSchedule.errors.join('; '),
+          item: item
+        })
+        continue
+      }
+
+      const modifierErrors = 'customization_options' in item
+        ? ['customization_options is no longer supported; use modifier_group_ids (existing options convert via POST /api/v1/businesses/:id/modifier-groups/migrate)']
+        : item.modifier_group_ids !== undefined
+          ? await validateModifierGroupIds(supabase, menu.business_id, item.modifier_group_ids)
+          : []
+      if (modifierErrors.length > 0) {
+        errors.push({
+          index: i,
+          message: modifierErrors.join('; '),
+          item: item
+        })
+        continue
+      }
+
       validatedItems.push({
         menu_id: body.menu_id,
         name: item.name,
@@ -152,11 +200,11 @@ export async function POST(request: NextRequest) {
         available_quantity: item.available_quantity ?? null,
         prep_time_minutes: item.prep_time_minutes ?? null,
         compare_at_price: item.compare_at_price ?? null,
-        price_variants: item.price_variants ?? null,
+        price_variants: variants.values,
         portion_size: item.portion_size ?? null,
         spice_level: item.spice_level ?? null,
-        allergens: item.allergens ?? [],
-        dietary_flags: item.dietary_flags ?? [],
+        allergens: taxonomy.values.allergens ?? [],
+        dietary_flags: taxonomy.values.dietary_flags ?? [],
         tags: item.tags ?? [],
         sort_order: item.sort_order ?? (i + 1),
         ingredients: item.ingredients ?? null,
@@ -164,7 +212,9 @@ export async function POST(request: NextRequest) {
         preparation_notes: item.preparation_notes ?? null,
         nutritional_info: item.nutritional_info ?? null,
         sku: item.sku ?? null,
-        customization_options: item.customization_options ?? null,
+        modifier_group_ids: item.modifier_group_ids ?? [],
+        schedule: itemSchedule.values.schedule ?? null,
+        schedule_display: itemSchedule.values.schedule_display ?? 'hide',
         source: item.source ?? null
       })
     }
@@ -318,6 +368,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Verify all items belong to user
+    const itemBusinesses = new Map<string, string>()
     for (const item of existingItems) {
       // Get the first element since Supabase returns arrays for joins
       const itemData = item as {
@@ -328,6 +379,7 @@ export async function PATCH(request: NextRequest) {
       
       const menu = itemData.menus[0]  // Get first menu from array
       const business = menu.businesses[0]  // Get first business from array
+      itemBusinesses.set(itemData.id, menu.business_id)
       
       if (business.user_id !== user.id) {
         return NextResponse.json<ApiResponse>({
@@ -352,7 +404,7 @@ export async function PATCH(request: NextRequest) {
         'compare_at_price', 'price_variants', 'portion_size', 'spice_level', 
         'allergens', 'dietary_flags', 'tags', 'sort_order', 'ingredients',
         'ingredient_list', 'preparation_notes', 'nutritional_info', 'sku',
-        'customization_options'
+        'modifier_group_ids', 'schedule', 'schedule_display'
       ]
 
       for (const field of allowedFields) {
@@ -369,6 +421,51 @@ export async function PATCH(request: NextRequest) {
         continue
       }
 
+      const taxonomy = validateItemTaxonomy(updates)
+      if (taxonomy.errors.length > 0) {
+        errors.push({
+          id: item.id,
+          message: taxonomy.errors.join('; ')
+        })
+        continue
+      }
+      Object.assign(updates, taxonomy.values)
+
+      if (updates.price_variants !== undefined) {
+        const variants = validatePriceVariants(updates.price_variants)
+        if (variants.errors.length > 0) {
+          errors.push({
+            id: item.id,
+            message: variants.errors.join('; ')
+          })
+          continue
+        }
+        updates.price_variants = variants.values
+      }
+
+      const itemSchedule = validateItemSchedule(updates)
+      if (itemSchedule.errors.length > 0) {
+        errors.push({
+          id: item.id,
+          message: itemSchedule.errors.join('; ')
+        })
+        continue
+      }
+      Object.assign(updates, itemSchedule.values)
+
+      const modifierErrors = 'customization_options' in item
+        ? ['customization_options is no longer supported; use modifier_group_ids (existing options convert via POST /api/v1/businesses/:id/modifier-groups/migrate)']
+        : updates.modifier_group_ids !== undefined
+          ? await validateModifierGroupIds(supabase, itemBusinesses.get(item.id) || '', updates.modifier_group_ids)
+          : []
+      if (modifierErrors.length > 0) {
+        errors.push({
+          id: item.id,
+          message: modifierErrors.join('; ')
+        })
+        continue
+      }
+
       updates.updated_at = new Date().toISOString() as never
 
       const { data: updatedItem, error: updateError } = await supabase
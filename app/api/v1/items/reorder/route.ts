@@ -4,6 +4,7 @@ import { createClient } from '@supabase/supabase-js'
 import type { 
   ApiResponse,
   MenuItem,
+  MenuItemPlacement,
   ItemReorderRequest,
   MenuItemWithMenuAndBusiness
 } from '@/types/api'
@@ -17,6 +18,7 @@ const createServerClient = () => {
 
 // PATCH /api/v1/items/reorder
 // Reorder menu items (change sort_order)
+// Add menu_id to an entry to reorder a placed library item on that menu
 export async function PATCH(request: NextRequest) {
   try {
     const authHeader = request.headers.get('authorization')
@@ -76,6 +78,15 @@ export async function PATCH(request: NextRequest) {
         }, { status: 400 })
       }
 
+      if (item.menu_id !== undefined && typeof item.menu_id !== 'string') {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'menu_id must be a string'
+          }
+        }, { status: 400 })
+      }
+
       if (item.sort_order < 0) {
         return NextResponse.json<ApiResponse>({
           error: {
@@ -86,7 +97,8 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    const itemIds = body.items.map(item => item.id)
+    // An item can appear once per menu it is placed on
+    const itemIds = [...new Set(body.items.map(item => item.id))]
 
     // Get all items and verify ownership
     const { data: existingItems, error: fetchError } = await supabase
@@ -146,11 +158,37 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    // Update sort_order for each item
+    // Update sort_order for each item (or its placement on another menu)
+    const homeMenus = new Map(existingItems.map(item => [item.id, item.menu_id]))
     const updatedItems: MenuItem[] = []
+    const updatedPlacements: MenuItemPlacement[] = []
     const errors: Array<{ id: string; message: string }> = []
 
     for (const item of body.items) {
+      if (item.menu_id && item.menu_id !== homeMenus.get(item.id)) {
+        const { data: placement, error: placementError } = await supabase
+          .from('menu_item_placements')
+          .update({
+            sort_order: item.sort_order,
+            updated_at: new Date().toISOString()
+          })
+          .eq('item_id', item.id)
+          .eq('menu_id', item.menu_id)
+          .is('deleted_at', null)
+          .select()
+          .maybeSingle()
+
+        if (placementError || !placement) {
+          errors.push({
+            id: item.id,
+            message: placementError?.message || 'Item is not placed on this menu'
+          })
+        } else {
+          updatedPlacements.push(placement as MenuItemPlacement)
+        }
+        continue
+      }
+
       const { data: updatedItem, error: updateError } = await supabase
         .from('menu_items')
         .update({ 
@@ -173,8 +211,9 @@ export async function PATCH(request: NextRequest) {
 
     return NextResponse.json<ApiResponse>({
       data: {
-        updated: updatedItems.length,
+        updated: updatedItems.length + updatedPlacements.length,
         items: updatedItems,
+        placements: updatedPlacements.length > 0 ? updatedPlacements : undefined,
         errors: errors.length > 0 ? errors : undefined,
         message: 'Items reordered successfully'
       }
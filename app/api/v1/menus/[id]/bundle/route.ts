@@ -0,0 +1,221 @@
+// app/api/v1/menus/[id]/bundle/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { getBusinessLanguages } from '@/lib/menu-translations'
+import { buildMenuBundle, getMenuBundle, isBundleFresh } from '@/lib/menu-bundle'
+import type { ApiResponse, MenuBundle } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/menus/:id/bundle
+// Current offline bundle of the menu and whether the public page serves it
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get menu
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select('id, business_id, slug, published_version_id, businesses!inner(user_id, default_language)')
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = menu.businesses as unknown as { user_id: string; default_language: string | null }
+    const allowed = business.user_id === user.id || await hasPermission(menu.business_id, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!allowed) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Get bundle
+    const bundle = await getMenuBundle(supabase, menu.id)
+
+    if (!bundle) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'This menu has no offline bundle yet'
+        }
+      }, { status: 404 })
+    }
+
+    const languages = await getBusinessLanguages(supabase, menu.business_id, business.default_language || 'en')
+
+    return NextResponse.json<ApiResponse<MenuBundle & { fresh: boolean }>>({
+      data: {
+        ...bundle,
+        fresh: isBundleFresh(bundle, menu, languages.map(language => language.code))
+      }
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Get menu bundle error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/v1/menus/:id/bundle
+// Rebuild the offline bundle now. Bundles are also rebuilt after publishing and
+// when a guest scans a menu whose bundle went stale.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get menu
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select('id, business_id, slug, published_version_id, businesses!inner(user_id, default_language)')
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = menu.businesses as unknown as { user_id: string; default_language: string | null }
+    const allowed = business.user_id === user.id || await hasPermission(menu.business_id, user.id, PERMISSIONS.MENU_EDIT)
+
+    if (!allowed) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to build this menu\'s offline bundle'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Only published menus have a version to compare the bundle with
+    if (!menu.published_version_id) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'CONFLICT',
+          message: 'Publish the menu before building its offline bundle'
+        }
+      }, { status: 409 })
+    }
+
+    // 5. Build
+    const { bundle, error: buildError } = await buildMenuBundle(supabase, menu)
+
+    if (buildError || !bundle) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'BUILD_FAILED',
+          message: 'Failed to build the offline bundle',
+          details: buildError
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<MenuBundle & { fresh: boolean }>>({
+      data: { ...bundle, fresh: true }
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Build menu bundle error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,191 @@
+// app/api/v1/menus/[id]/clone/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { checkSubscriptionLimit } from '@/lib/subscription-enforcement'
+import { cloneMenu, countClonedItems, getAvailableMenuSlug, getCloneSource } from '@/lib/menu-clone'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/menus/:id/clone
+// Deep-copy a menu (schedule, items, images, translations) into the same
+// business or another business the user manages. Categories are matched by
+// name in the target business (created when missing).
+// Body: { target_business_id?, name?, slug?, is_active? (default false), include_translations? (default true) }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Validate request
+    const body = await request.json().catch(() => ({}))
+    const errors: string[] = []
+
+    for (const field of ['target_business_id', 'name', 'slug'] as const) {
+      if (body[field] !== undefined && (typeof body[field] !== 'string' || !body[field].trim())) {
+        errors.push(`${field} must be a non-empty string`)
+      }
+    }
+
+    if (body.slug !== undefined && !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(body.slug)) {
+      errors.push('slug must contain only lowercase letters, numbers and single hyphens')
+    }
+
+    for (const flag of ['is_active', 'include_translations'] as const) {
+      if (body[flag] !== undefined && typeof body[flag] !== 'boolean') {
+        errors.push(`${flag} must be a boolean`)
+      }
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid clone request',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    // 3. Get the source menu
+    const source = await getCloneSource(supabase, menuId)
+
+    if (!source) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    const targetBusinessId: string = body.target_business_id || source.menu.business_id
+
+    // 4. Check permissions: view the source, create menus in the target
+    const { data: businesses } = await supabase
+      .from('businesses')
+      .select('id, user_id')
+      .in('id', [source.menu.business_id, targetBusinessId])
+      .is('deleted_at', null)
+
+    const owners = new Map((businesses || []).map(business => [business.id, business.user_id]))
+
+    if (!owners.has(targetBusinessId)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Target business not found'
+        }
+      }, { status: 404 })
+    }
+
+    const canView = owners.get(source.menu.business_id) === user.id ||
+      await hasPermission(source.menu.business_id, user.id, PERMISSIONS.MENU_VIEW)
+    const canCreate = owners.get(targetBusinessId) === user.id ||
+      await hasPermission(targetBusinessId, user.id, PERMISSIONS.MENU_CREATE)
+
+    if (!canView || !canCreate) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: canView
+            ? 'You do not have permission to create menus in the target business'
+            : 'You do not have permission to view this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 5. Check subscription limits of the target business (the menu and all its items)
+    const menuLimit = await checkSubscriptionLimit(targetBusinessId, 'menus')
+    if (!menuLimit.allowed) {
+      return NextResponse.json<ApiResponse>({
+        error: menuLimit.error
+      }, { status: 403 })
+    }
+
+    const itemCount = countClonedItems(source, targetBusinessId)
+    if (itemCount > 0) {
+      const itemLimit = await checkSubscriptionLimit(targetBusinessId, 'items', itemCount)
+      if (!itemLimit.allowed) {
+        return NextResponse.json<ApiResponse>({
+          error: itemLimit.error
+        }, { status: 403 })
+      }
+    }
+
+    // 6. Clone
+    const slug = await getAvailableMenuSlug(supabase, body.slug || `${source.menu.slug}-copy`)
+
+    const { result, error: cloneError } = await cloneMenu(supabase, source, {
+      targetBusinessId,
+      name: body.name?.trim() || `${source.menu.name} (Copy)`,
+      slug,
+      isActive: body.is_active ?? false,
+      includeTranslations: body.include_translations ?? true
+    })
+
+    if (cloneError || !result) {
+      console.error('Clone menu error:', cloneError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'CREATE_FAILED',
+          message: 'Failed to clone menu',
+          details: cloneError
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        ...result,
+        source_menu_id: source.menu.id
+      }
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Clone menu error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,122 @@
+// app/api/v1/menus/[id]/export/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { buildMenuExport, renderMenuExport, EXPORT_CONTENT_TYPES, EXPORT_FORMATS } from '@/lib/menu-export'
+import type { ApiResponse, ExportFormat } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/menus/:id/export?format=csv|xlsx|json
+// Download every item of the menu with category names, variants, allergens,
+// dietary flags and translations. The file imports back through POST /menus/:id/import.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Validate format
+    const format = (new URL(request.url).searchParams.get('format') || 'csv') as ExportFormat
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+        }
+      }, { status: 400 })
+    }
+
+    // 3. Get menu
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select('id, name, slug, description, business_id, businesses!inner(id, name, slug, user_id)')
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    const business = menu.businesses as unknown as { id: string; name: string; slug: string; user_id: string }
+
+    // 4. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(menu.business_id, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to export this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 5. Export
+    const document = await buildMenuExport(
+      supabase,
+      { id: business.id, name: business.name, slug: business.slug },
+      [{ id: menu.id, name: menu.name, slug: menu.slug, description: menu.description }]
+    )
+
+    return new NextResponse(renderMenuExport(document, format), {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${business.slug}-${menu.slug}.${format}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Menu export error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,251 @@
+// app/api/v1/menus/[id]/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { checkSubscriptionLimit } from '@/lib/subscription-enforcement'
+import {
+  applyImport,
+  getImportMapping,
+  planImport,
+  readImportFile,
+  resolveColumnMapping,
+  saveImportMapping,
+  splitSheetByMenu,
+  validateColumnMapping,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS
+} from '@/lib/menu-import'
+import type { ApiResponse, ImportColumnMapping, ImportReport } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/menus/:id/import
+// Import items from a CSV or XLSX sheet, or a single-menu JSON export
+// (multipart/form-data). Files holding several menus (business exports) go
+// through POST /api/v1/businesses/:id/import. Columns are matched with the business's saved mapping,
+// then by header name; name:<language> and description:<language> columns hold
+// translations. Rows whose id column (as exports write it) or sku matches an item
+// on the menu update it, other rows create items; rows matching a library item
+// placed on the menu are skipped. Missing categories are created. Every row is
+// reported as create, update, skip or reject.
+// Form: file, dry_run? ('true' reports without writing), mapping? (JSON, overrides
+// the saved mapping), save_mapping? ('true' saves the applied mapping)
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Validate request
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+
+    if (!formData || !(file instanceof File)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A CSV, XLSX or JSON export file is required in the file field'
+        }
+      }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'File too large. Maximum size is 5MB'
+        }
+      }, { status: 400 })
+    }
+
+    const dryRun = formData.get('dry_run') === 'true'
+    const saveMapping = formData.get('save_mapping') === 'true'
+
+    let requestMapping: ImportColumnMapping = {}
+    const mappingField = formData.get('mapping')
+
+    if (typeof mappingField === 'string' && mappingField.trim()) {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(mappingField)
+      } catch {
+        parsed = null
+      }
+
+      const { values, errors } = validateColumnMapping(parsed)
+      if (errors.length > 0) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid column mapping',
+            details: errors
+          }
+        }, { status: 400 })
+      }
+      requestMapping = values
+    }
+
+    // 3. Get menu
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select('id, business_id, businesses!inner(user_id)')
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 4. Check permissions
+    const isOwner = (menu.businesses as unknown as { user_id: string }).user_id === user.id
+    const canCreate = isOwner || await hasPermission(menu.business_id, user.id, PERMISSIONS.ITEM_CREATE)
+
+    if (!canCreate) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to import items into this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 5. Read the sheet and match its columns
+    const { sheet, error: fileError } = readImportFile(new Uint8Array(await file.arrayBuffer()), file.name)
+
+    if (fileError || !sheet) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: fileError || 'The file could not be read'
+        }
+      }, { status: 400 })
+    }
+
+    const { groups } = splitSheetByMenu(sheet)
+
+    if (groups.length > 1) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `The file holds items of ${groups.length} menus; import it through POST /api/v1/businesses/${menu.business_id}/import`,
+          details: groups.map(group => group.menu)
+        }
+      }, { status: 400 })
+    }
+
+    if (sheet.rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Cannot import more than ${MAX_IMPORT_ROWS} rows at once`
+        }
+      }, { status: 400 })
+    }
+
+    const savedMapping = await getImportMapping(supabase, menu.business_id)
+    const columns = resolveColumnMapping(sheet.headers, { ...savedMapping, ...requestMapping })
+
+    if (columns.errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The file\'s columns do not match the mapping',
+          details: {
+            errors: columns.errors,
+            headers: sheet.headers
+          }
+        }
+      }, { status: 400 })
+    }
+
+    if (saveMapping) {
+      await saveImportMapping(supabase, menu.business_id, columns.mapping, user.id)
+    }
+
+    // 6. Plan the import
+    const plan = await planImport(supabase, menu, sheet, columns)
+
+    if (dryRun) {
+      return NextResponse.json<ApiResponse<ImportReport>>({
+        data: plan.report
+      })
+    }
+
+    // 7. Check edit permission and subscription limits for what will be written
+    if (plan.report.summary.updated > 0 && !isOwner &&
+        !await hasPermission(menu.business_id, user.id, PERMISSIONS.ITEM_EDIT)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to update existing items; remove rows that match existing items'
+        }
+      }, { status: 403 })
+    }
+
+    if (plan.report.summary.created > 0) {
+      const limitCheck = await checkSubscriptionLimit(menu.business_id, 'items', plan.report.summary.created)
+      if (!limitCheck.allowed) {
+        return NextResponse.json<ApiResponse>({
+          error: limitCheck.error
+        }, { status: 403 })
+      }
+    }
+
+    // 8. Import
+    const report = await applyImport(supabase, plan)
+
+    return NextResponse.json<ApiResponse<ImportReport>>({
+      data: report
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Menu import error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,258 @@
+// app/api/v1/menus/[id]/items/[itemId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { validatePlacement } from '@/lib/item-placements'
+import type { ApiResponse, MenuItemPlacement } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// PATCH /api/v1/menus/:id/items/:itemId
+// Change a placed library item's overrides on this menu
+// Body: { price?, category_id?, is_available?, sort_order? } (null price/category_id = use the item's)
+// The item itself (name, photos, ...) is edited via /api/v1/items/:id and changes on every menu
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id: menuId, itemId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the placement
+    const { data: placement, error: placementError } = await supabase
+      .from('menu_item_placements')
+      .select('id, business_id, businesses!inner(user_id)')
+      .eq('menu_id', menuId)
+      .eq('item_id', itemId)
+      .is('deleted_at', null)
+      .single()
+
+    if (placementError || !placement) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Item is not placed on this menu'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = placement.businesses as unknown as { user_id: string }
+    const canEdit = business.user_id === user.id || await hasPermission(placement.business_id, user.id, PERMISSIONS.ITEM_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to edit items on this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate request
+    const body = await request.json()
+    const { values, errors } = validatePlacement(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid placement',
+          details: errors
+        }
+      }, { status: 400 })
+    }
+
+    if (values.category_id) {
+      const { data: category } = await supabase
+        .from('categories')
+        .select('id')
+        .eq('id', values.category_id)
+        .eq('business_id', placement.business_id)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      if (!category) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Category not found'
+          }
+        }, { status: 404 })
+      }
+    }
+
+    // 5. Update placement
+    const { data: updated, error: updateError } = await supabase
+      .from('menu_item_placements')
+      .update({
+        ...values,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', placement.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Update placement error:', updateError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UPDATE_FAILED',
+          message: 'Failed to update placement',
+          details: updateError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse<MenuItemPlacement>>({
+      data: updated as MenuItemPlacement
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Update placement error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/v1/menus/:id/items/:itemId
+// Remove a placed library item from this menu (the item stays in the library)
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { id: menuId, itemId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get the placement
+    const { data: placement, error: placementError } = await supabase
+      .from('menu_item_placements')
+      .select('id, business_id, businesses!inner(user_id)')
+      .eq('menu_id', menuId)
+      .eq('item_id', itemId)
+      .is('deleted_at', null)
+      .single()
+
+    if (placementError || !placement) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Item is not placed on this menu'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = placement.businesses as unknown as { user_id: string }
+    const canEdit = business.user_id === user.id || await hasPermission(placement.business_id, user.id, PERMISSIONS.ITEM_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to edit items on this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Soft delete (updated_at marks the menu as having unpublished changes)
+    const now = new Date().toISOString()
+    const { error: deleteError } = await supabase
+      .from('menu_item_placements')
+      .update({ deleted_at: now, updated_at: now })
+      .eq('id', placement.id)
+
+    if (deleteError) {
+      console.error('Delete placement error:', deleteError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'DELETE_FAILED',
+          message: 'Failed to remove item from menu',
+          details: deleteError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        item_id: itemId,
+        menu_id: menuId,
+        removed: true
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Delete placement error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
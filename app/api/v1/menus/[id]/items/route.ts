@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { checkSubscriptionLimit } from '@/lib/subscription-enforcement'
+import { validateItemTaxonomy } from '@/lib/dietary-taxonomy'
+import { validateItemSchedule } from '@/lib/schedule-validation'
+import { validateModifierGroupIds } from '@/lib/modifier-groups'
+import { validatePriceVariants } from '@/lib/price-variants'
+import { getMenuItems, getNextSortOrder, validatePlacement } from '@/lib/item-placements'
 
 const createServerClient = () => {
   return createClient(
@@ -10,6 +15,8 @@ const createServerClient = () => {
 }
 
 // POST - Create menu item
+// Send { item_id, price?, category_id?, is_available?, sort_order? } instead to
+// place an existing item from the business library on this menu
 export async function POST(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
@@ -34,6 +41,11 @@ export async function POST(
 
     // 2. Get request body
     const body = await request.json()
+
+    if (body.item_id !== undefined) {
+      return placeLibraryItem(supabase, menuId, user.id, body)
+    }
+
     const { 
       name, 
       description, 
@@ -48,7 +60,11 @@ export async function POST(
       spice_level,
       allergens,
       dietary_flags,
-      tags
+      tags,
+      schedule,
+      schedule_display,
+      modifier_group_ids,
+      price_variants
     } = body
 
     // 3. Validate required fields
@@ -66,6 +82,30 @@ export async function POST(
       )
     }
 
+    const taxonomy = validateItemTaxonomy({ allergens, dietary_flags })
+    if (taxonomy.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid allergens or dietary flags', details: taxonomy.errors },
+        { status: 400 }
+      )
+    }
+
+    const variants = validatePriceVariants(price_variants)
+    if (variants.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid price variants', details: variants.errors },
+        { status: 400 }
+      )
+    }
+
+    const itemSchedule = validateItemSchedule({ schedule, schedule_display })
+    if (itemSchedule.errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid schedule', details: itemSchedule.errors },
+        { status: 400 }
+      )
+    }
+
     // 4. Verify menu exists and user owns it
     const { data: menu, error: menuError } = await supabase
       .from('menus')
@@ -88,6 +128,17 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    // Modifier groups must belong to the same business
+    if (modifier_group_ids !== undefined) {
+      const modifierErrors = await validateModifierGroupIds(supabase, menu.business_id, modifier_group_ids)
+      if (modifierErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid modifier groups', details: modifierErrors },
+          { status: 400 }
+        )
+      }
+    }
+
     // Check subscription limits
     const limitCheck = await checkSubscriptionLimit(menu.business_id, 'items')
     if (!limitCheck.allowed) {
@@ -98,16 +149,8 @@ export async function POST(
       }, { status: 403 })
     }
 
-    // 5. Get current max sort_order
-    const { data: maxItem } = await supabase
-      .from('menu_items')
-      .select('sort_order')
-      .eq('menu_id', menuId)
-      .order('sort_order', { ascending: false })
-      .limit(1)
-      .single()
-
-    const nextSortOrder = maxItem ? maxItem.sort_order + 1 : 0
+    // 5. Get next sort_order (shared with placed items)
+    const nextSortOrder = await getNextSortOrder(supabase, menuId)
 
     // 6. Create menu item
     const { data: item, error: createError } = await supabase
@@ -125,9 +168,13 @@ export async function POST(
         prep_time_minutes: prep_time_minutes || null,
         portion_size: portion_size || null,
         spice_level: spice_level || null,
-        allergens: allergens || null,
-        dietary_flags: dietary_flags || null,
+        allergens: taxonomy.values.allergens || null,
+        dietary_flags: taxonomy.values.dietary_flags || null,
         tags: tags || null,
+        schedule: itemSchedule.values.schedule || null,
+        schedule_display: itemSchedule.values.schedule_display || 'hide',
+        modifier_group_ids: modifier_group_ids || [],
+        price_variants: variants.values,
         sort_order: nextSortOrder
       })
       .select()
@@ -152,7 +199,7 @@ export async function POST(
   }
 }
 
-// GET - List menu items
+// GET - List menu items (own items and placed library items, with placement overrides)
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
@@ -168,46 +215,123 @@ export async function GET(
     const available = searchParams.get('available')
     const featured = searchParams.get('featured')
 
-    // Build query
-    let query = supabase
-      .from('menu_items')
-      .select('*')
-      .eq('menu_id', menuId)
-      .is('deleted_at', null)
-      .order('sort_order', { ascending: true })
+    // Filters apply after placement overrides (a placement can change category and availability)
+    const items = (await getMenuItems(supabase, menuId)).filter(item =>
+      (!categoryId || item.category_id === categoryId) &&
+      (available !== 'true' || item.is_available) &&
+      (available !== 'false' || !item.is_available) &&
+      (featured !== 'true' || item.is_featured)
+    )
 
-    // Apply filters
-    if (categoryId) {
-      query = query.eq('category_id', categoryId)
-    }
+    return NextResponse.json({ data: items })
 
-    if (available === 'true') {
-      query = query.eq('is_available', true)
-    } else if (available === 'false') {
-      query = query.eq('is_available', false)
-    }
+  } catch (error) {
+    console.error('Menu items list error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
 
-    if (featured === 'true') {
-      query = query.eq('is_featured', true)
-    }
+// Place an existing library item on the menu (POST with item_id)
+async function placeLibraryItem(
+  supabase: ReturnType<typeof createServerClient>,
+  menuId: string,
+  userId: string,
+  body: Record<string, unknown>
+) {
+  if (typeof body.item_id !== 'string' || !body.item_id) {
+    return NextResponse.json({ error: 'item_id must be a string' }, { status: 400 })
+  }
 
-    const { data: items, error } = await query
+  const { values, errors } = validatePlacement(body)
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid placement', details: errors },
+      { status: 400 }
+    )
+  }
 
-    if (error) {
-      console.error('List items error:', error)
-      return NextResponse.json(
-        { error: 'Failed to fetch menu items' },
-        { status: 500 }
-      )
+  // Menu and item must belong to the same business, which the user owns
+  const { data: menu } = await supabase
+    .from('menus')
+    .select('id, business_id, businesses!inner(user_id)')
+    .eq('id', menuId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!menu) {
+    return NextResponse.json({ error: 'Menu not found' }, { status: 404 })
+  }
+
+  if ((menu.businesses as unknown as { user_id: string }).user_id !== userId) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { data: item } = await supabase
+    .from('menu_items')
+    .select('id, menu_id, menus!inner(business_id)')
+    .eq('id', body.item_id)
+    .eq('menus.business_id', menu.business_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!item) {
+    return NextResponse.json({ error: 'Item not found in this business' }, { status: 404 })
+  }
+
+  if (item.menu_id === menuId) {
+    return NextResponse.json({ error: 'Item already belongs to this menu' }, { status: 409 })
+  }
+
+  const { data: existing } = await supabase
+    .from('menu_item_placements')
+    .select('id')
+    .eq('item_id', item.id)
+    .eq('menu_id', menuId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (existing) {
+    return NextResponse.json({ error: 'Item is already placed on this menu' }, { status: 409 })
+  }
+
+  if (values.category_id) {
+    const { data: category } = await supabase
+      .from('categories')
+      .select('id')
+      .eq('id', values.category_id)
+      .eq('business_id', menu.business_id)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (!category) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
     }
+  }
 
-    return NextResponse.json({ data: items })
+  const { data: placement, error: createError } = await supabase
+    .from('menu_item_placements')
+    .insert({
+      business_id: menu.business_id,
+      item_id: item.id,
+      menu_id: menuId,
+      category_id: values.category_id ?? null,
+      price: values.price ?? null,
+      is_available: values.is_available ?? true,
+      sort_order: values.sort_order ?? await getNextSortOrder(supabase, menuId)
+    })
+    .select()
+    .single()
 
-  } catch (error) {
-    console.error('Menu items list error:', error)
+  if (createError) {
+    console.error('Create placement error:', createError)
     return NextResponse.json(
-      { error: 'Internal server error' },
+      { error: 'Failed to place item', details: createError.message },
       { status: 500 }
     )
   }
+
+  return NextResponse.json({ data: placement }, { status: 201 })
 }
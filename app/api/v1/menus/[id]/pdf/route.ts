@@ -0,0 +1,243 @@
+// app/api/v1/menus/[id]/pdf/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import QRCode from 'qrcode'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { getPublicMenuContent } from '@/lib/menu-versions'
+import { getBusinessLanguages, translateMenuContent } from '@/lib/menu-translations'
+import { withTaxonomyLabels } from '@/lib/dietary-taxonomy'
+import { findUnprintableCharacters, loadPdfImage, renderMenuPdf, PDF_PAGE_SIZES, type PdfMenuOptions, type PdfPageSize } from '@/lib/menu-pdf'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/menus/:id/pdf?size=a4|a5&lang=fr
+// Printable menu with the same content guests see (published version, available
+// items), styled after the menu's template, prices in the business currency and
+// the menu's QR code on the back page. ?lang= uses the stored translations.
+// Text beyond Latin-1 prints in an embedded Unicode font; letters it cannot show
+// (scripts other than Latin, Greek and Cyrillic) are rejected.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Validate page size
+    const { searchParams } = new URL(request.url)
+    const pageSize = (searchParams.get('size') || 'a4').toLowerCase() as PdfPageSize
+
+    if (!PDF_PAGE_SIZES.includes(pageSize)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `size must be one of: ${PDF_PAGE_SIZES.join(', ')}`
+        }
+      }, { status: 400 })
+    }
+
+    // 3. Get menu and business
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select(`
+        id, business_id, name, slug, description, published_version_id,
+        businesses!inner(user_id, name, display_name, slug, currency, logo_url, address, city, phone, default_language)
+      `)
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    const business = menu.businesses as unknown as {
+      user_id: string
+      name: string
+      display_name: string | null
+      slug: string
+      currency: string | null
+      logo_url: string | null
+      address: string | null
+      city: string | null
+      phone: string | null
+      default_language: string | null
+    }
+
+    // 4. Check permissions
+    const canView = business.user_id === user.id || await hasPermission(menu.business_id, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to print this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 5. Resolve language
+    const defaultLanguage = business.default_language || 'en'
+    const languages = await getBusinessLanguages(supabase, menu.business_id, defaultLanguage)
+    const language = searchParams.get('lang')?.toLowerCase() || defaultLanguage
+
+    if (!languages.some(lang => lang.code === language)) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `lang must be one of: ${languages.map(lang => lang.code).join(', ')}`
+        }
+      }, { status: 400 })
+    }
+
+    // 6. Get content (published version) in the requested language
+    const content = await getPublicMenuContent(supabase, menu)
+
+    const translated = await translateMenuContent(supabase, {
+      menus: [content.menu],
+      categories: content.categories,
+      items: content.items
+    }, language, defaultLanguage, content.translations && { menu_id: content.menu.id, translations: content.translations })
+
+    // 7. Template (menu-specific or business default)
+    const { data: menuTemplate } = await supabase
+      .from('business_templates')
+      .select('template_name, primary_color')
+      .eq('business_id', menu.business_id)
+      .eq('menu_id', menuId)
+      .maybeSingle()
+
+    let template = menuTemplate
+
+    if (!template) {
+      const { data: businessTemplate } = await supabase
+        .from('business_templates')
+        .select('template_name, primary_color')
+        .eq('business_id', menu.business_id)
+        .is('menu_id', null)
+        .maybeSingle()
+
+      template = businessTemplate
+    }
+
+    // 8. QR code of the menu (its tracked QR code when there is one) and the logo
+    const { data: qrCode } = await supabase
+      .from('qr_codes')
+      .select('target_url')
+      .eq('menu_id', menuId)
+      .eq('is_active', true)
+      .is('deleted_at', null)
+      .limit(1)
+      .maybeSingle()
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://menuqr-backend.vercel.app'
+    const qrBuffer = await QRCode.toBuffer(qrCode?.target_url || `${baseUrl}/m/${menu.slug}`, {
+      width: 512,
+      margin: 2,
+      errorCorrectionLevel: 'M'
+    })
+
+    const logo = await loadPdfImage(business.logo_url)
+
+    // 9. Render (when the fonts can show every letter)
+    const translatedMenu = translated.menus[0]
+    const pdfOptions: PdfMenuOptions = {
+      business: {
+        name: business.display_name || business.name,
+        currency: business.currency || 'GHS',
+        address: [business.address, business.city].filter(Boolean).join(', ') || null,
+        phone: business.phone,
+        logo
+      },
+      menu: {
+        name: translatedMenu.name,
+        description: translatedMenu.description
+      },
+      categories: translated.categories,
+      items: withTaxonomyLabels(translated.items, language),
+      template: {
+        template_name: template?.template_name || 'modern-minimal',
+        primary_color: template?.primary_color || null
+      },
+      pageSize,
+      language,
+      qr: { data: new Uint8Array(qrBuffer), format: 'PNG' }
+    }
+
+    const unprintable = findUnprintableCharacters(pdfOptions)
+
+    if (unprintable.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'The menu contains characters that cannot be printed; PDFs support Latin, Greek and Cyrillic scripts only',
+          details: { language, characters: unprintable.slice(0, 20).join('') }
+        }
+      }, { status: 400 })
+    }
+
+    const pdf = renderMenuPdf(pdfOptions)
+
+    const pdfBuffer = Buffer.from(pdf)
+    const filename = `${business.slug}-${menu.slug}-${language}-${pageSize}.pdf`
+
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': pdfBuffer.length.toString(),
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Menu PDF error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,152 @@
+// app/api/v1/menus/[id]/publish/route.ts
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { buildMenuSnapshot, publishMenuVersion } from '@/lib/menu-versions'
+import { buildMenuBundle } from '@/lib/menu-bundle'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/menus/:id/publish
+// Publish the current draft: snapshot menu, categories and items as a new
+// immutable version that the public routes serve from now on. The menu's
+// offline bundle is rebuilt after the response.
+// Body: { notes?: string }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get menu and its business
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select('id, business_id, businesses!inner(user_id)')
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = menu.businesses as unknown as { user_id: string }
+    const canPublish = business.user_id === user.id || await hasPermission(menu.business_id, user.id, PERMISSIONS.MENU_EDIT)
+
+    if (!canPublish) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to publish this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Snapshot the draft
+    const body = await request.json().catch(() => ({}))
+    const snapshot = await buildMenuSnapshot(supabase, menuId)
+
+    if (!snapshot) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 5. Store it as the published version
+    const { version, error: publishError } = await publishMenuVersion(supabase, menuId, menu.business_id, snapshot, {
+      userId: user.id,
+      notes: typeof body.notes === 'string' ? body.notes : null
+    })
+
+    if (publishError || !version) {
+      console.error('Publish menu error:', publishError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'PUBLISH_FAILED',
+          message: 'Failed to publish menu',
+          details: publishError
+        }
+      }, { status: 500 })
+    }
+
+    // 6. Rebuild the offline bundle from the new version
+    after(async () => {
+      const { error: bundleError } = await buildMenuBundle(supabase, {
+        id: menuId,
+        business_id: menu.business_id,
+        slug: snapshot.menu.slug,
+        published_version_id: version.id
+      })
+      if (bundleError) console.error('Menu bundle rebuild error:', bundleError)
+    })
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        id: version.id,
+        menu_id: version.menu_id,
+        business_id: version.business_id,
+        version_number: version.version_number,
+        notes: version.notes,
+        restored_from_version_id: version.restored_from_version_id,
+        published_by: version.published_by,
+        published_at: version.published_at,
+        item_count: snapshot.items.length,
+        category_count: snapshot.categories.length
+      }
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Publish menu error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
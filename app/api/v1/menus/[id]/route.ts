@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { validateMenuSchedule } from '@/lib/schedule-validation'
+import type { ApiResponse } from '@/types/api'
 
 const createServerClient = () => {
   return createClient(
@@ -89,4 +92,174 @@ export async function GET(
       }
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+// PATCH /api/v1/menus/[id]
+// Update menu details and schedule (time windows, recurrence rules, ...)
+// A new slug is normalized like on menu creation and must not be taken
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get menu and its business
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select('id, business_id, businesses!inner(user_id)')
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = menu.businesses as unknown as { user_id: string }
+    const canEdit = business.user_id === user.id || await hasPermission(menu.business_id, user.id, PERMISSIONS.MENU_EDIT)
+
+    if (!canEdit) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to edit this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Validate update data
+    const body = await request.json()
+    const schedule = validateMenuSchedule(body)
+
+    if (schedule.errors.length > 0) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid menu schedule',
+          details: schedule.errors
+        }
+      }, { status: 400 })
+    }
+
+    const updateData: Record<string, unknown> = {
+      ...schedule.values,
+      updated_at: new Date().toISOString()
+    }
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Menu name cannot be empty'
+          }
+        }, { status: 400 })
+      }
+      updateData.name = body.name.trim()
+    }
+    if (body.slug !== undefined) {
+      const slug = typeof body.slug === 'string'
+        ? body.slug.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+        : ''
+
+      if (!slug) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'slug must contain letters or numbers'
+          }
+        }, { status: 400 })
+      }
+
+      const { data: taken } = await supabase
+        .from('menus')
+        .select('id')
+        .eq('slug', slug)
+        .neq('id', menuId)
+        .limit(1)
+        .maybeSingle()
+
+      if (taken) {
+        return NextResponse.json<ApiResponse>({
+          error: {
+            code: 'CONFLICT',
+            message: `Slug "${slug}" is already used by another menu`
+          }
+        }, { status: 409 })
+      }
+
+      updateData.slug = slug
+    }
+    if (body.description !== undefined) updateData.description = body.description
+    if (body.display_order !== undefined) updateData.display_order = body.display_order
+    if (body.availability_schedule !== undefined) updateData.availability_schedule = body.availability_schedule
+
+    // 5. Update menu
+    const { data: updatedMenu, error: updateError } = await supabase
+      .from('menus')
+      .update(updateData)
+      .eq('id', menuId)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Update menu error:', updateError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UPDATE_FAILED',
+          message: 'Failed to update menu',
+          details: updateError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: updatedMenu
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Update menu error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,144 @@
+// app/api/v1/menus/[id]/versions/[versionId]/rollback/route.ts
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { publishMenuVersion } from '@/lib/menu-versions'
+import { buildMenuBundle } from '@/lib/menu-bundle'
+import type { ApiResponse, MenuSnapshot } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/menus/:id/versions/:versionId/rollback
+// Republish an earlier version. History stays immutable: the old snapshot is
+// copied into a new version. The draft (live tables) is left untouched.
+// Body: { notes?: string }
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { id: menuId, versionId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get version to restore
+    const { data: target, error: versionError } = await supabase
+      .from('menu_versions')
+      .select('id, menu_id, business_id, version_number, snapshot, businesses!inner(user_id), menus!inner(slug)')
+      .eq('id', versionId)
+      .eq('menu_id', menuId)
+      .single()
+
+    if (versionError || !target) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu version not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = target.businesses as unknown as { user_id: string }
+    const canPublish = business.user_id === user.id || await hasPermission(target.business_id, user.id, PERMISSIONS.MENU_EDIT)
+
+    if (!canPublish) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to publish this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Republish the old snapshot as a new version
+    const body = await request.json().catch(() => ({}))
+    const { version, error: publishError } = await publishMenuVersion(
+      supabase,
+      menuId,
+      target.business_id,
+      target.snapshot as MenuSnapshot,
+      {
+        userId: user.id,
+        notes: typeof body.notes === 'string' ? body.notes : `Rolled back to version ${target.version_number}`,
+        restoredFromVersionId: target.id
+      }
+    )
+
+    if (publishError || !version) {
+      console.error('Rollback menu error:', publishError)
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'ROLLBACK_FAILED',
+          message: 'Failed to roll back menu',
+          details: publishError
+        }
+      }, { status: 500 })
+    }
+
+    // 5. Rebuild the offline bundle from the new version
+    const menu = target.menus as unknown as { slug: string }
+
+    after(async () => {
+      const { error: bundleError } = await buildMenuBundle(supabase, {
+        id: menuId,
+        business_id: target.business_id,
+        slug: menu.slug,
+        published_version_id: version.id
+      })
+      if (bundleError) console.error('Menu bundle rebuild error:', bundleError)
+    })
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        id: version.id,
+        menu_id: version.menu_id,
+        version_number: version.version_number,
+        notes: version.notes,
+        restored_from_version_id: version.restored_from_version_id,
+        published_by: version.published_by,
+        published_at: version.published_at
+      }
+    }, { status: 201 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Rollback menu error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
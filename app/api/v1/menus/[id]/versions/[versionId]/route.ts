@@ -0,0 +1,95 @@
+// app/api/v1/menus/[id]/versions/[versionId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import type { ApiResponse, MenuVersion } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/menus/:id/versions/:versionId
+// Get one published version including its full snapshot
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { id: menuId, versionId } = await context.params
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get version
+    const { data: version, error: versionError } = await supabase
+      .from('menu_versions')
+      .select('*, businesses!inner(user_id)')
+      .eq('id', versionId)
+      .eq('menu_id', menuId)
+      .single()
+
+    if (versionError || !version) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu version not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const { businesses, ...menuVersion } = version
+    const business = businesses as unknown as { user_id: string }
+    const canView = business.user_id === user.id || await hasPermission(version.business_id, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view this menu'
+        }
+      }, { status: 403 })
+    }
+
+    return NextResponse.json<ApiResponse<MenuVersion>>({
+      data: menuVersion as MenuVersion
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Get menu version error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,122 @@
+// app/api/v1/menus/[id]/versions/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { hasUnpublishedChanges, MENU_VERSION_SUMMARY_COLUMNS } from '@/lib/menu-versions'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/menus/:id/versions
+// List published versions (newest first) and whether the draft has unpublished changes
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    const menuId = params.id
+
+    // 1. Authentication
+    const authHeader = request.headers.get('authorization')
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 })
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const supabase = createServerClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token'
+        }
+      }, { status: 401 })
+    }
+
+    // 2. Get menu and its business
+    const { data: menu, error: menuError } = await supabase
+      .from('menus')
+      .select('id, business_id, updated_at, published_version_id, published_at, businesses!inner(user_id)')
+      .eq('id', menuId)
+      .is('deleted_at', null)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Menu not found'
+        }
+      }, { status: 404 })
+    }
+
+    // 3. Check permissions
+    const business = menu.businesses as unknown as { user_id: string }
+    const canView = business.user_id === user.id || await hasPermission(menu.business_id, user.id, PERMISSIONS.MENU_VIEW)
+
+    if (!canView) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view this menu'
+        }
+      }, { status: 403 })
+    }
+
+    // 4. Get versions
+    const { data: versions, error: versionsError } = await supabase
+      .from('menu_versions')
+      .select(MENU_VERSION_SUMMARY_COLUMNS)
+      .eq('menu_id', menuId)
+      .order('version_number', { ascending: false })
+
+    if (versionsError) {
+      return NextResponse.json<ApiResponse>({
+        error: {
+          code: 'QUERY_FAILED',
+          message: 'Failed to fetch menu versions',
+          details: versionsError.message
+        }
+      }, { status: 500 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        menu_id: menu.id,
+        published_version_id: menu.published_version_id,
+        published_at: menu.published_at,
+        has_unpublished_changes: await hasUnpublishedChanges(supabase, menu),
+        versions: (versions || []).map(version => ({
+          ...version,
+          is_current: version.id === menu.published_version_id
+        }))
+      }
+    }, { status: 200 })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('List menu versions error:', errorMessage)
+
+    return NextResponse.json<ApiResponse>({
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: errorMessage
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,243 @@
+// app/api/v1/organizations/[id]/branches/[businessId]/overrides/route.ts
+import { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getAuthUser } from '@/lib/auth'
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { hasPermission, PERMISSIONS } from '@/lib/team-helpers'
+import { applyBranchOverride, getOrganization, validateBranchOverride } from '@/lib/organizations'
+import type { BranchItemOverride, Organization } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/organizations/:id/branches/:businessId/overrides - The branch's overrides of master items
+// Branch owners and team members with item view permission can read them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; businessId: string }> }
+) {
+  try {
+    const { id: organizationId, businessId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const supabase = createServerClient()
+    const access = await getBranchAccess(supabase, organizationId, businessId, user.id, PERMISSIONS.ITEM_VIEW)
+
+    if ('error' in access) {
+      return access.error
+    }
+
+    const { data: overrides, error } = await supabase
+      .from('branch_item_overrides')
+      .select('*, menu_items!master_item_id(name, price, is_available)')
+      .eq('organization_id', organizationId)
+      .eq('business_id', businessId)
+
+    if (error) {
+      return errorResponse('QUERY_FAILED', error.message, 500)
+    }
+
+    return successResponse(overrides || [])
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
+
+// PUT /api/v1/organizations/:id/branches/:businessId/overrides - Set the branch's override of a master item
+// Body: { master_item_id, price?: number | null, is_available?: boolean | null, is_hidden?: boolean }
+// Applied to the branch copy right away and kept on every push
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; businessId: string }> }
+) {
+  try {
+    const { id: organizationId, businessId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const { values, errors } = validateBranchOverride(body)
+
+    if (errors.length > 0) {
+      return validationErrorResponse('Invalid override', errors)
+    }
+
+    const supabase = createServerClient()
+    const access = await getBranchAccess(supabase, organizationId, businessId, user.id, PERMISSIONS.ITEM_EDIT)
+
+    if ('error' in access) {
+      return access.error
+    }
+
+    const { data: master } = await supabase
+      .from('menu_items')
+      .select('id, menu_id, price, is_available')
+      .eq('id', values.master_item_id!)
+      .eq('menu_id', access.organization.master_menu_id ?? '')
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (!master) {
+      return notFoundResponse('Master menu item')
+    }
+
+    const { data: existing } = await supabase
+      .from('branch_item_overrides')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('business_id', businessId)
+      .eq('master_item_id', master.id)
+      .maybeSingle()
+
+    // Unsent fields keep their current override
+    const override = {
+      price: values.price !== undefined ? values.price : existing?.price ?? null,
+      is_available: values.is_available !== undefined ? values.is_available : existing?.is_available ?? null,
+      is_hidden: values.is_hidden ?? existing?.is_hidden ?? false
+    }
+
+    const { data: saved, error } = await supabase
+      .from('branch_item_overrides')
+      .upsert({
+        organization_id: organizationId,
+        business_id: businessId,
+        master_item_id: master.id,
+        ...override,
+        master_price: master.price,
+        master_is_available: master.is_available,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'organization_id,business_id,master_item_id' })
+      .select()
+      .single()
+
+    if (error) {
+      return errorResponse('UPSERT_FAILED', error.message, 500)
+    }
+
+    const applied = await applyBranchOverride(supabase, businessId, master, override)
+
+    return successResponse({
+      ...(saved as BranchItemOverride),
+      applied  // false until the branch has received the master menu
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
+
+// DELETE /api/v1/organizations/:id/branches/:businessId/overrides?master_item_id=
+// Drop an override; the branch copy follows the master again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; businessId: string }> }
+) {
+  try {
+    const { id: organizationId, businessId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const masterItemId = new URL(request.url).searchParams.get('master_item_id')
+    if (!masterItemId) {
+      return validationErrorResponse('master_item_id is required')
+    }
+
+    const supabase = createServerClient()
+    const access = await getBranchAccess(supabase, organizationId, businessId, user.id, PERMISSIONS.ITEM_EDIT)
+
+    if ('error' in access) {
+      return access.error
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('branch_item_overrides')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('business_id', businessId)
+      .eq('master_item_id', masterItemId)
+      .select('id')
+
+    if (error) {
+      return errorResponse('DELETE_FAILED', error.message, 500)
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return notFoundResponse('Override')
+    }
+
+    const { data: master } = await supabase
+      .from('menu_items')
+      .select('id, menu_id, price, is_available')
+      .eq('id', masterItemId)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (master) {
+      await applyBranchOverride(supabase, businessId, master, { price: null, is_available: null, is_hidden: false })
+    }
+
+    return successResponse({
+      master_item_id: masterItemId,
+      business_id: businessId,
+      deleted: true
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
+
+// Organization owners manage every branch; branch owners and their team their own
+async function getBranchAccess(
+  supabase: ReturnType<typeof createServerClient>,
+  organizationId: string,
+  businessId: string,
+  userId: string,
+  permission: string
+): Promise<{ organization: Organization } | { error: ReturnType<typeof errorResponse> }> {
+  const organization = await getOrganization(supabase, organizationId)
+
+  if (!organization) {
+    return { error: notFoundResponse('Organization') }
+  }
+
+  const { data: business } = await supabase
+    .from('businesses')
+    .select('id, user_id')
+    .eq('id', businessId)
+    .eq('organization_id', organizationId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (!business) {
+    return { error: notFoundResponse('Branch') }
+  }
+
+  const allowed = organization.owner_id === userId ||
+    business.user_id === userId ||
+    await hasPermission(businessId, userId, permission)
+
+  if (!allowed) {
+    return { error: forbiddenResponse('You do not have permission to manage this branch') }
+  }
+
+  return { organization }
+}
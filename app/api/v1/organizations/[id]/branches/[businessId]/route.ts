@@ -0,0 +1,98 @@
+// app/api/v1/organizations/[id]/branches/[businessId]/route.ts
+import { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getAuthUser } from '@/lib/auth'
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { getOrganization } from '@/lib/organizations'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// DELETE /api/v1/organizations/:id/branches/:businessId - Remove a branch
+// Its copy of the master menu stays as a regular menu that no longer receives pushes
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; businessId: string }> }
+) {
+  try {
+    const { id: organizationId, businessId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const supabase = createServerClient()
+    const organization = await getOrganization(supabase, organizationId)
+
+    if (!organization) {
+      return notFoundResponse('Organization')
+    }
+
+    if (organization.owner_id !== user.id) {
+      return forbiddenResponse('You do not have permission to edit this organization')
+    }
+
+    const { data: business } = await supabase
+      .from('businesses')
+      .select('id')
+      .eq('id', businessId)
+      .eq('organization_id', organizationId)
+      .maybeSingle()
+
+    if (!business) {
+      return notFoundResponse('Branch')
+    }
+
+    if (organization.master_menu_id) {
+      const { data: masterMenu } = await supabase
+        .from('menus')
+        .select('business_id')
+        .eq('id', organization.master_menu_id)
+        .maybeSingle()
+
+      if (masterMenu?.business_id === businessId) {
+        return validationErrorResponse('This branch holds the master menu; choose another master menu first')
+      }
+    }
+
+    const now = new Date().toISOString()
+
+    const { error } = await supabase
+      .from('businesses')
+      .update({ organization_id: null, updated_at: now })
+      .eq('id', businessId)
+
+    if (error) {
+      return errorResponse('UPDATE_FAILED', error.message, 500)
+    }
+
+    // Detach the branch copy and drop the branch's overrides
+    await Promise.all([
+      supabase
+        .from('menus')
+        .update({ master_menu_id: null, updated_at: now })
+        .eq('business_id', businessId)
+        .not('master_menu_id', 'is', null),
+      supabase
+        .from('branch_item_overrides')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('business_id', businessId)
+    ])
+
+    return successResponse({
+      organization_id: organizationId,
+      business_id: businessId,
+      removed: true
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
@@ -0,0 +1,87 @@
+// app/api/v1/organizations/[id]/branches/route.ts
+import { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getAuthUser } from '@/lib/auth'
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { getOrganization } from '@/lib/organizations'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/organizations/:id/branches - Add one of the user's businesses as a branch
+// Body: { business_id }. The branch gets the master menu on the next push.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: organizationId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    if (typeof body.business_id !== 'string' || !body.business_id) {
+      return validationErrorResponse('business_id is required')
+    }
+
+    const supabase = createServerClient()
+    const organization = await getOrganization(supabase, organizationId)
+
+    if (!organization) {
+      return notFoundResponse('Organization')
+    }
+
+    if (organization.owner_id !== user.id) {
+      return forbiddenResponse('You do not have permission to edit this organization')
+    }
+
+    const { data: business } = await supabase
+      .from('businesses')
+      .select('id, user_id, organization_id')
+      .eq('id', body.business_id)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (!business) {
+      return notFoundResponse('Business')
+    }
+
+    if (business.user_id !== user.id) {
+      return forbiddenResponse('You can only add your own businesses as branches')
+    }
+
+    if (business.organization_id) {
+      return errorResponse(
+        'CONFLICT',
+        business.organization_id === organizationId
+          ? 'Business is already a branch of this organization'
+          : 'Business already belongs to another organization',
+        409
+      )
+    }
+
+    const { data: updated, error } = await supabase
+      .from('businesses')
+      .update({ organization_id: organizationId, updated_at: new Date().toISOString() })
+      .eq('id', business.id)
+      .select('id, name, display_name, location, slug, organization_id')
+      .single()
+
+    if (error) {
+      return errorResponse('UPDATE_FAILED', error.message, 500)
+    }
+
+    return successResponse(updated, 201)
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
@@ -0,0 +1,106 @@
+// app/api/v1/organizations/[id]/push/route.ts
+import { NextRequest, after } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getAuthUser } from '@/lib/auth'
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { getOrganization, pushMasterMenu, PUSH_CONFLICT_STRATEGIES } from '@/lib/organizations'
+import { buildMenuBundle } from '@/lib/menu-bundle'
+import type { PushConflictStrategy } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// POST /api/v1/organizations/:id/push - Push master menu changes to branches
+// Body: { conflict_strategy?: 'keep_branch' | 'use_master', dry_run?: boolean, business_ids?: [] }
+// Reports per branch what was added/updated/removed and the overrides that conflict
+// with master changes (dry_run reports without writing). Republished branch menus
+// get their offline bundle rebuilt after the response.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: organizationId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const strategy = (body.conflict_strategy ?? 'keep_branch') as PushConflictStrategy
+
+    if (!PUSH_CONFLICT_STRATEGIES.includes(strategy)) {
+      return validationErrorResponse(`conflict_strategy must be one of: ${PUSH_CONFLICT_STRATEGIES.join(', ')}`)
+    }
+
+    if (body.dry_run !== undefined && typeof body.dry_run !== 'boolean') {
+      return validationErrorResponse('dry_run must be a boolean')
+    }
+
+    if (body.business_ids !== undefined &&
+        (!Array.isArray(body.business_ids) || body.business_ids.some((id: unknown) => typeof id !== 'string'))) {
+      return validationErrorResponse('business_ids must be an array of business ids')
+    }
+
+    const supabase = createServerClient()
+    const organization = await getOrganization(supabase, organizationId)
+
+    if (!organization) {
+      return notFoundResponse('Organization')
+    }
+
+    if (organization.owner_id !== user.id) {
+      return forbiddenResponse('You do not have permission to push this organization\'s master menu')
+    }
+
+    const { results, error } = await pushMasterMenu(supabase, organization, {
+      strategy,
+      dryRun: body.dry_run === true,
+      businessIds: body.business_ids,
+      userId: user.id
+    })
+
+    if (error) {
+      return validationErrorResponse(error)
+    }
+
+    const republished = results.filter(branch => branch.republished).map(branch => branch.menu_id!)
+    if (republished.length > 0) {
+      after(async () => {
+        const { data: menus } = await supabase
+          .from('menus')
+          .select('id, business_id, slug, published_version_id')
+          .in('id', republished)
+
+        for (const menu of menus || []) {
+          const { error: bundleError } = await buildMenuBundle(supabase, menu)
+          if (bundleError) console.error('Menu bundle rebuild error:', bundleError)
+        }
+      })
+    }
+
+    return successResponse({
+      dry_run: body.dry_run === true,
+      conflict_strategy: strategy,
+      branches: results,
+      summary: {
+        branches: results.length,
+        added: results.reduce((sum, branch) => sum + branch.added, 0),
+        updated: results.reduce((sum, branch) => sum + branch.updated, 0),
+        removed: results.reduce((sum, branch) => sum + branch.removed, 0),
+        conflicts: results.reduce((sum, branch) => sum + branch.conflicts.length, 0),
+        republished: republished.length,
+        failed: results.filter(branch => branch.error).length
+      }
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
@@ -0,0 +1,156 @@
+// app/api/v1/organizations/[id]/route.ts
+import { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getAuthUser } from '@/lib/auth'
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, forbiddenResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { getOrganization, validateOrganization } from '@/lib/organizations'
+import type { Organization } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/organizations/:id - Organization with its branches and their copy of the master menu
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: organizationId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const supabase = createServerClient()
+    const organization = await getOrganization(supabase, organizationId)
+
+    if (!organization) {
+      return notFoundResponse('Organization')
+    }
+
+    if (organization.owner_id !== user.id) {
+      return forbiddenResponse('You do not have permission to view this organization')
+    }
+
+    const { data: branches } = await supabase
+      .from('businesses')
+      .select('id, name, display_name, location, slug, city')
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .order('name', { ascending: true })
+
+    const { data: branchMenus } = organization.master_menu_id
+      ? await supabase
+          .from('menus')
+          .select('id, business_id, slug, updated_at')
+          .eq('master_menu_id', organization.master_menu_id)
+          .is('deleted_at', null)
+      : { data: [] }
+
+    const menusByBusiness = new Map((branchMenus || []).map(menu => [menu.business_id, menu]))
+
+    return successResponse({
+      ...organization,
+      branches: (branches || []).map(branch => ({
+        ...branch,
+        branch_menu: menusByBusiness.get(branch.id) || null
+      }))
+    })
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
+
+// PATCH /api/v1/organizations/:id - Update name, slug or master_menu_id
+// The master menu must be a menu of one of the branches
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: organizationId } = await params
+
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const supabase = createServerClient()
+    const organization = await getOrganization(supabase, organizationId)
+
+    if (!organization) {
+      return notFoundResponse('Organization')
+    }
+
+    if (organization.owner_id !== user.id) {
+      return forbiddenResponse('You do not have permission to edit this organization')
+    }
+
+    const body = await request.json()
+    const { values, errors } = validateOrganization({ ...organization, ...body })
+
+    if (errors.length > 0) {
+      return validationErrorResponse('Invalid organization', errors)
+    }
+
+    if (values.slug !== organization.slug) {
+      const { data: existing } = await supabase
+        .from('organizations')
+        .select('id')
+        .eq('slug', values.slug!)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      if (existing) {
+        return errorResponse('CONFLICT', 'An organization with this slug already exists', 409)
+      }
+    }
+
+    if (values.master_menu_id && values.master_menu_id !== organization.master_menu_id) {
+      const { data: menu } = await supabase
+        .from('menus')
+        .select('id, master_menu_id, businesses!inner(organization_id)')
+        .eq('id', values.master_menu_id)
+        .eq('businesses.organization_id', organizationId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+      if (!menu) {
+        return validationErrorResponse('master_menu_id must be a menu of one of the branches')
+      }
+
+      if (menu.master_menu_id) {
+        return validationErrorResponse('A branch copy of a master menu cannot be the master menu')
+      }
+    }
+
+    const { data: updated, error } = await supabase
+      .from('organizations')
+      .update({
+        name: values.name,
+        slug: values.slug,
+        master_menu_id: values.master_menu_id ?? null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', organizationId)
+      .select()
+      .single()
+
+    if (error) {
+      return errorResponse('UPDATE_FAILED', error.message, 500)
+    }
+
+    return successResponse<Organization>(updated as Organization)
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
@@ -0,0 +1,127 @@
+// app/api/v1/organizations/route.ts
+import { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getAuthUser } from '@/lib/auth'
+import { successResponse, errorResponse, unauthorizedResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { validateOrganization } from '@/lib/organizations'
+import type { Organization } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/organizations - List the user's organizations with their branches
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const supabase = createServerClient()
+
+    const { data: organizations, error } = await supabase
+      .from('organizations')
+      .select('*, businesses(id, name, display_name, location, slug)')
+      .eq('owner_id', user.id)
+      .is('deleted_at', null)
+      .order('name', { ascending: true })
+
+    if (error) {
+      return errorResponse('QUERY_FAILED', error.message, 500)
+    }
+
+    return successResponse(organizations || [])
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
+
+// POST /api/v1/organizations - Create an organization
+// Body: { name, slug?, business_ids?: [] } - the listed businesses (owned by the user) become branches
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getAuthUser(request)
+    if (authError || !user) {
+      return unauthorizedResponse()
+    }
+
+    const body = await request.json()
+    const { values, errors } = validateOrganization({ ...body, master_menu_id: undefined })
+
+    const businessIds: unknown = body.business_ids ?? []
+    if (!Array.isArray(businessIds) || businessIds.some(id => typeof id !== 'string')) {
+      errors.push('business_ids must be an array of business ids')
+    }
+
+    if (errors.length > 0) {
+      return validationErrorResponse('Invalid organization', errors)
+    }
+
+    const supabase = createServerClient()
+
+    // Branches must be the user's own businesses, not already in a chain
+    const ids = businessIds as string[]
+    if (ids.length > 0) {
+      const { data: businesses } = await supabase
+        .from('businesses')
+        .select('id, organization_id')
+        .in('id', ids)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+
+      const found = new Map((businesses || []).map(business => [business.id, business.organization_id]))
+      const invalid = ids.filter(id => !found.has(id) || found.get(id))
+
+      if (invalid.length > 0) {
+        return validationErrorResponse('Some businesses cannot be added', {
+          business_ids: invalid,
+          reason: 'Not found, not owned by you, or already in an organization'
+        })
+      }
+    }
+
+    const { data: existing } = await supabase
+      .from('organizations')
+      .select('id')
+      .eq('slug', values.slug!)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (existing) {
+      return errorResponse('CONFLICT', 'An organization with this slug already exists', 409)
+    }
+
+    const { data: organization, error } = await supabase
+      .from('organizations')
+      .insert({
+        owner_id: user.id,
+        name: values.name,
+        slug: values.slug
+      })
+      .select()
+      .single()
+
+    if (error || !organization) {
+      return errorResponse('CREATE_FAILED', error?.message || 'Failed to create organization', 500)
+    }
+
+    if (ids.length > 0) {
+      await supabase
+        .from('businesses')
+        .update({ organization_id: organization.id })
+        .in('id', ids)
+    }
+
+    return successResponse<Organization>(organization as Organization, 201)
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
+  }
+}
@@ -1,15 +1,36 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { successResponse, errorResponse, notFoundResponse } from '@/lib/api-helpers'
+import { errorResponse, notFoundResponse, validationErrorResponse } from '@/lib/api-helpers'
+import { SCHEDULED_MENU_COLUMNS, type ScheduledMenu } from '@/lib/menu-resolver'
+import { parseMenuFilters } from '@/lib/menu-filters'
+import { parsePayloadOptions } from '@/lib/public-payload'
+import { buildPublicMenu, PUBLIC_MENU_BUSINESS_COLUMNS, type PublicMenuBusiness } from '@/lib/public-menu'
+import { versionedJson } from '@/lib/menu-cache'
 
 // GET /api/v1/public/{businessSlug}/{menuSlug}
-// Example: /api/v1/public/accra-bites/dinner-menu
+// Example: /api/v1/public/accra-bites/dinner-menu?lang=fr
+// Answers exactly like /api/v1/public/menu/{slug} (same lib/public-menu builder):
+// scheduling/fallback, item filters (?q=&dietary=&exclude_allergens=&max_spice=&min_price=&max_price=&tags=),
+// compact payload options (?fields=&image_size=&category_limit=&category_offset=)
+// and content-version caching with 304 on a matching If-None-Match
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ businessSlug: string; menuSlug: string }> }
 ) {
   try {
     const { businessSlug, menuSlug } = await params
+
+    const { searchParams } = new URL(request.url)
+
+    const { filters, errors: filterErrors } = parseMenuFilters(searchParams)
+    if (filterErrors.length > 0) {
+      return validationErrorResponse('Invalid filters', filterErrors)
+    }
+
+    const { options: payloadOptions, errors: payloadErrors } = parsePayloadOptions(searchParams)
+    if (payloadErrors.length > 0) {
+      return validationErrorResponse('Invalid payload options', payloadErrors)
+    }
     
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -19,7 +40,7 @@ export async function GET(
     // STEP 1: Find business by slug
     const { data: business, error: businessError } = await supabase
       .from('businesses')
-      .select('id, name, slug, address, city, country, phone, email, website, logo_url, primary_color, business_hours, currency, timezone')
+      .select(PUBLIC_MENU_BUSINESS_COLUMNS)
       .eq('slug', businessSlug)
       .eq('is_active', true)
       .is('deleted_at', null)
@@ -30,48 +51,58 @@ export async function GET(
     }
 
     // STEP 2: Find menu for this specific business
-    const { data: menu, error: menuError } = await supabase
+    const { data: requestedMenu, error: menuError } = await supabase
       .from('menus')
-      .select('*')
+      .select(SCHEDULED_MENU_COLUMNS)
       .eq('slug', menuSlug)
       .eq('business_id', business.id)  // Scoped to this business!
       .eq('is_active', true)
       .is('deleted_at', null)
       .single()
 
-    if (menuError || !menu) {
+    if (menuError || !requestedMenu) {
       return notFoundResponse('Menu')
     }
 
-    // STEP 3: Get categories for this business
-    const { data: categories } = await supabase
-      .from('categories')
-      .select('*')
-      .eq('business_id', business.id)
-      .is('deleted_at', null)
-      .order('display_order', { ascending: true })
+    // STEP 3: Build the public menu (hours, schedule/fallback, content, prices, payload)
+    const result = await buildPublicMenu(
+      request,
+      supabase,
+      business as PublicMenuBusiness,
+      requestedMenu as ScheduledMenu,
+      { filters, payload: payloadOptions }
+    )
 
-    // STEP 4: Get items for this menu
-    const { data: items } = await supabase
-      .from('menu_items')
-      .select('*')
-      .eq('menu_id', menu.id)
-      .eq('is_available', true)
-      .is('deleted_at', null)
-      .order('sort_order', { ascending: true })
+    if (result.status === 'business_closed') {
+      return errorResponse('BUSINESS_CLOSED', result.business_status.message!, 403, {
+        status: 'business_closed',
+        reason: result.business_status.reason,
+        closure: result.business_status.closure,
+        next_opening: result.business_status.next_opening
+      })
+    }
 
-    // Return structured response
-    const response = {
-      business,
-      menu,
-      categories: categories || [],
-      items: items || []
+    if (result.status === 'closed') {
+      return result.reason === 'location_closed'
+        ? errorResponse('LOCATION_CLOSED', `${requestedMenu.name} is not currently available.`, 403, {
+            status: 'closed',
+            location: result.location,
+            availability: result.availability,
+            next_opening: result.next_opening
+          })
+        : errorResponse('NO_MENUS_AVAILABLE', 'All menus are currently closed. Please check back during operating hours.', 403, {
+            status: 'closed',
+            next_opening: result.next_opening
+          })
     }
 
-    return successResponse(response)
+    return versionedJson(request, { data: result.data }, result.version, {
+      'Content-Language': result.language,
+      'Vary': 'Accept-Language'
+    })
 
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     return errorResponse('INTERNAL_ERROR', 'An unexpected error occurred', 500, errorMessage)
   }
-}
\ No newline at end of file
+}
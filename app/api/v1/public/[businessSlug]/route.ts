@@ -1,10 +1,13 @@
 import { NextRequest } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { successResponse, errorResponse, notFoundResponse } from '@/lib/api-helpers'
+import { getAvailableMenus, resolveMenu, type ScheduledMenu } from '@/lib/menu-resolver'
+import { getBusinessStatus } from '@/lib/business-hours'
 import type { Business, Menu } from '@/types/api'
 
 // GET /api/v1/public/{businessSlug}
-// Returns business info + all active menus
+// Returns business info + all active menus, flagged with current availability
+// and whether the business itself is open (business hours / holiday closures)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ businessSlug: string }> }
@@ -39,9 +42,23 @@ export async function GET(
       .is('deleted_at', null)
       .order('display_order', { ascending: true })
 
+    // Same resolution a business-slug QR scan would get right now
+    const scheduledMenus = (menus || []) as ScheduledMenu[]
+    const availableIds = new Set(getAvailableMenus(scheduledMenus, business.timezone).map(m => m.id))
+    const resolution = resolveMenu(scheduledMenus, null, business.timezone)
+
+    const businessStatus = getBusinessStatus(business, business.timezone, business.default_language || 'en')
+
     const response = {
       business: business as Business,
-      menus: menus as Menu[] || []
+      business_status: businessStatus,
+      menus: (menus as Menu[] || []).map(menu => ({
+        ...menu,
+        is_available_now: availableIds.has(menu.id)
+      })),
+      current_menu_slug: resolution.status === 'served' && (businessStatus.is_open || businessStatus.allow_browsing)
+        ? resolution.menu.slug
+        : null
     }
 
     return successResponse(response)
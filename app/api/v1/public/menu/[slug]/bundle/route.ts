@@ -0,0 +1,97 @@
+// app/api/v1/public/menu/[slug]/bundle/route.ts
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getBusinessLanguages, resolveLanguage } from '@/lib/menu-translations'
+import { getBusinessStatus, type BusinessHoursFields } from '@/lib/business-hours'
+import { buildMenuBundle, claimBundleRebuild, getMenuBundle, isBundleFresh } from '@/lib/menu-bundle'
+import type { ApiResponse } from '@/types/api'
+
+const createServerClient = () => {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+// GET /api/v1/public/menu/:slug/bundle?lang=fr
+// Where the menu's static offline bundle lives (no auth - used by the public page
+// and its service worker). `fresh` tells whether it may be served instead of the
+// live menu, unless `business_status` says the business is closed to guests;
+// a stale or missing bundle is rebuilt after the response
+// (at most one attempt a minute per menu).
+// Only menu slugs have bundles (business slugs resolve to a menu by schedule).
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const params = await context.params
+    const supabase = createServerClient()
+
+    // 1. Get menu and its business
+    const { data: menu } = await supabase
+      .from('menus')
+      .select('id, business_id, slug, published_version_id, businesses!inner(default_language, timezone, business_hours, holiday_closures, allow_browsing_when_closed, is_active, deleted_at)')
+      .eq('slug', params.slug)
+      .eq('is_active', true)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    const business = menu?.businesses as unknown as (BusinessHoursFields & { default_language: string | null; timezone: string | null; is_active: boolean; deleted_at: string | null }) | undefined
+
+    if (!menu || !business?.is_active || business.deleted_at) {
+      return NextResponse.json<ApiResponse>({
+        error: { code: 'NOT_FOUND', message: 'Menu not found' }
+      }, { status: 404 })
+    }
+
+    // 2. Resolve the guest's language
+    const defaultLanguage = business.default_language || 'en'
+    const languages = await getBusinessLanguages(supabase, menu.business_id, defaultLanguage)
+    const language = resolveLanguage(request, languages, defaultLanguage)
+
+    // 3. Check the bundle, rebuilding it in the background when stale.
+    // Attempts are claimed before building, so failing builds (business closed,
+    // menu out of schedule) are not retried on every scan.
+    const bundle = await getMenuBundle(supabase, menu.id)
+    const fresh = !!bundle && isBundleFresh(bundle, menu, languages.map(lang => lang.code))
+
+    if (!fresh && menu.published_version_id && await claimBundleRebuild(supabase, menu)) {
+      after(async () => {
+        const { error } = await buildMenuBundle(supabase, menu)
+        if (error) console.error('Menu bundle rebuild error:', error)
+      })
+    }
+
+    if (!bundle) {
+      return NextResponse.json<ApiResponse>({
+        error: { code: 'NOT_FOUND', message: 'This menu has no offline bundle yet' }
+      }, { status: 404 })
+    }
+
+    return NextResponse.json<ApiResponse>({
+      data: {
+        fresh,
+        business_status: getBusinessStatus(business, business.timezone, language),
+        content_hash: bundle.content_hash,
+        html_url: bundle.html_url,
+        json_url: bundle.json_url,
+        image_urls: bundle.image_urls,
+        language: bundle.languages.includes(language) ? language : null,
+        built_at: bundle.built_at,
+        expires_at: bundle.expires_at
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Vary': 'Accept-Language'
+      }
+    })
+
+  } catch (error) {
+    console.error('Public menu bundle error:', error)
+    return NextResponse.json<ApiResponse>({
+      error: { code: 'INTERNAL_ERROR', message: 'Internal error' }
+    }, { status: 500 })
+  }
+}
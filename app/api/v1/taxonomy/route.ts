@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTaxonomy, TAXONOMY_LANGUAGES } from '@/lib/dietary-taxonomy'
+
+// GET - Allergen and dietary flag vocabulary (public endpoint)
+// ?lang=fr returns labels in that language (English when not supported)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const requested = (searchParams.get('lang') || 'en').toLowerCase().split('-')[0]
+  const language = TAXONOMY_LANGUAGES.includes(requested) ? requested : 'en'
+
+  return NextResponse.json({
+    data: getTaxonomy(language),
+    language,
+    languages: TAXONOMY_LANGUAGES
+  })
+}
@@ -0,0 +1,36 @@
+import styles from './language-switcher.module.css'
+
+interface Language {
+  code: string
+  name: string
+  is_default: boolean
+}
+
+interface Props {
+  languages: Language[]
+  currentLanguage: string
+}
+
+export default function LanguageSwitcher({ languages, currentLanguage }: Props) {
+  // Nothing to switch between
+  if (languages.length < 2) {
+    return null
+  }
+
+  return (
+    <nav className={styles.switcher} aria-label="Language">
+      {languages.map(language => (
+        <a
+          key={language.code}
+          href={`?lang=${language.code}`}
+          hrefLang={language.code}
+          lang={language.code}
+          className={language.code === currentLanguage ? `${styles.option} ${styles.active}` : styles.option}
+          aria-current={language.code === currentLanguage ? 'true' : undefined}
+        >
+          {language.name}
+        </a>
+      ))}
+    </nav>
+  )
+}
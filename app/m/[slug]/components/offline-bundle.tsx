@@ -0,0 +1,34 @@
+'use client'
+
+import { useEffect } from 'react'
+
+interface Props {
+  path: string
+  htmlUrl: string
+  imageUrls: string[]
+}
+
+// Hands the menu's static bundle to the service worker so repeat guests can
+// open the menu without a connection. Renders nothing.
+export default function OfflineBundle({ path, htmlUrl, imageUrls }: Props) {
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) {
+      return
+    }
+
+    navigator.serviceWorker
+      .register('/menu-sw.js', { scope: '/m/' })
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        registration.active?.postMessage({
+          type: 'cache-bundle',
+          path,
+          html_url: htmlUrl,
+          image_urls: imageUrls
+        })
+      })
+      .catch(error => console.error('Menu service worker error:', error))
+  }, [path, htmlUrl, imageUrls])
+
+  return null
+}
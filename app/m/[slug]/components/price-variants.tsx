@@ -0,0 +1,53 @@
+import styles from './price-variants.module.css'
+
+interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  effective_price?: number
+  is_available: boolean
+}
+
+interface PricedItem {
+  price: number
+  from_price?: number
+  price_variants?: PriceVariant[] | null
+}
+
+interface Props {
+  variants: PriceVariant[] | null | undefined
+  currency?: string
+}
+
+export default function PriceVariants({ variants, currency = 'GHS ' }: Props) {
+  // Single-price item
+  if (!variants || variants.length === 0) {
+    return null
+  }
+
+  return (
+    <ul className={styles.variants}>
+      {variants.map(variant => (
+        <li
+          key={variant.id}
+          className={variant.is_available ? styles.variant : `${styles.variant} ${styles.soldOut}`}
+        >
+          <span className={styles.name}>{variant.name}</span>
+          <span className={styles.price}>
+            {variant.is_available
+              ? `${currency}${(variant.effective_price ?? variant.price).toFixed(2)}`
+              : 'Sold out'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Item price label: "From GHS 8.00" for items with variants, "GHS 8.00" otherwise
+ */
+export function formatItemPrice(item: PricedItem, currency: string = 'GHS '): string {
+  const amount = `${currency}${(item.from_price ?? item.price).toFixed(2)}`
+  return item.price_variants && item.price_variants.length > 0 ? `From ${amount}` : amount
+}
@@ -1,15 +1,27 @@
 import { notFound } from 'next/navigation'
+import { headers } from 'next/headers'
 import ModernMinimal from '@/app/m/[slug]/templates/modern-minimal'
 import ClassicElegant from '@/app/m/[slug]/templates/classic-elegant'
 import MinimalistDark from '@/app/m/[slug]/templates/minimalist-dark'
 import RusticOrganic from '@/app/m/[slug]/templates/rustic-organic'
 import VibrantPlayful from '@/app/m/[slug]/templates/vibrant-playful'
+import OfflineBundle from '@/app/m/[slug]/components/offline-bundle'
+
+interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  effective_price?: number
+  is_available: boolean
+}
 
 interface MenuItem {
   id: string
   name: string
   description: string
   price: number
+  from_price?: number
+  price_variants?: PriceVariant[] | null
   is_featured: boolean
   image_url: string | null
   category_id: string
@@ -49,19 +61,88 @@ interface Template {
   accent_color: string
 }
 
+interface Language {
+  code: string
+  name: string
+  is_default: boolean
+}
+
 interface MenuData {
   business: Business
   template?: Template | null
   menus: Menu[]
   categories: Category[]
   items: MenuItem[]
+  language: string
+  languages: Language[]
 }
 
-async function getMenuData(slug: string): Promise<MenuData | null> {
+// Static copy of the menu in storage (see lib/menu-bundle.ts)
+interface MenuBundle {
+  fresh: boolean
+  business_status: { is_open: boolean; allow_browsing: boolean }
+  html_url: string
+  json_url: string
+  image_urls: string[]
+  language: string | null
+}
+
+async function getMenuBundle(slug: string, lang?: string): Promise<MenuBundle | null> {
   try {
     const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'https://menuqr-backend.vercel.app'
-    const response = await fetch(`${apiUrl}/api/v1/public/menu/${slug}`, {
-      cache: 'no-store' // No cache - templates switch instantly
+    const query = lang ? `?lang=${encodeURIComponent(lang)}` : ''
+    const acceptLanguage = (await headers()).get('accept-language')
+
+    const response = await fetch(`${apiUrl}/api/v1/public/menu/${slug}/bundle${query}`, {
+      cache: 'no-store',
+      headers: acceptLanguage ? { 'Accept-Language': acceptLanguage } : undefined
+    })
+
+    if (!response.ok) {
+      return null
+    }
+
+    const data = await response.json()
+    return data.data
+  } catch (error) {
+    console.error('Error fetching menu bundle:', error)
+    return null
+  }
+}
+
+// Bundle files never change once uploaded, so they can be cached for good.
+// A closed business is left to the live menu, which refuses it.
+async function getBundleMenuData(bundle: MenuBundle): Promise<MenuData | null> {
+  const { is_open, allow_browsing } = bundle.business_status
+  if (!bundle.fresh || !bundle.language || !(is_open || allow_browsing)) {
+    return null
+  }
+
+  try {
+    const response = await fetch(bundle.json_url, { cache: 'force-cache' })
+
+    if (!response.ok) {
+      return null
+    }
+
+    const document = await response.json()
+    return document.content?.[bundle.language] || null
+  } catch (error) {
+    console.error('Error fetching menu bundle content:', error)
+    return null
+  }
+}
+
+async function getMenuData(slug: string, lang?: string): Promise<MenuData | null> {
+  try {
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'https://menuqr-backend.vercel.app'
+    // Original images: next/image sizes them itself
+    const query = `?image_size=full${lang ? `&lang=${encodeURIComponent(lang)}` : ''}`
+    const acceptLanguage = (await headers()).get('accept-language')
+
+    const response = await fetch(`${apiUrl}/api/v1/public/menu/${slug}${query}`, {
+      cache: 'no-store', // No cache - templates switch instantly
+      headers: acceptLanguage ? { 'Accept-Language': acceptLanguage } : undefined
     })
 
     if (!response.ok) {
@@ -77,18 +158,24 @@ async function getMenuData(slug: string): Promise<MenuData | null> {
 }
 
 export default async function MenuPage({ 
-  params 
+  params,
+  searchParams
 }: { 
-  params: Promise<{ slug: string }> 
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ lang?: string }>
 }) {
   const { slug } = await params
-  const menuData = await getMenuData(slug)
+  const { lang } = await searchParams
+
+  // Serve the static bundle while it is fresh, the live menu otherwise
+  const bundle = await getMenuBundle(slug, lang)
+  const menuData = (bundle && await getBundleMenuData(bundle)) || await getMenuData(slug, lang)
 
   if (!menuData) {
     notFound()
   }
 
-  const { business, template, categories, items } = menuData
+  const { business, template, categories, items, language, languages } = menuData
 
   // Default template settings if none exist
   const templateSettings: Template = template || {
@@ -98,57 +185,87 @@ export default async function MenuPage({
     accent_color: '#28a745'
   }
 
+  // Kept by the service worker for offline visits
+  const offlineBundle = bundle && (
+    <OfflineBundle path={`/m/${slug}`} htmlUrl={bundle.html_url} imageUrls={bundle.image_urls} />
+  )
+
   // Conditional rendering based on template name
   switch (templateSettings.template_name) {
     case 'classic-elegant':
       return (
-        <ClassicElegant
-          business={business}
-          categories={categories}
-          items={items}
-          primaryColor={templateSettings.primary_color}
-        />
+        <>
+          <ClassicElegant
+            business={business}
+            categories={categories}
+            items={items}
+            primaryColor={templateSettings.primary_color}
+            languages={languages}
+            currentLanguage={language}
+          />
+          {offlineBundle}
+        </>
       )
     
     case 'minimalist-dark':
       return (
-        <MinimalistDark
-          business={business}
-          categories={categories}
-          items={items}
-          primaryColor={templateSettings.primary_color}
-        />
+        <>
+          <MinimalistDark
+            business={business}
+            categories={categories}
+            items={items}
+            primaryColor={templateSettings.primary_color}
+            languages={languages}
+            currentLanguage={language}
+          />
+          {offlineBundle}
+        </>
       )
     
     case 'rustic-organic':
       return (
-        <RusticOrganic
-          business={business}
-          categories={categories}
-          items={items}
-          primaryColor={templateSettings.primary_color}
-        />
+        <>
+          <RusticOrganic
+            business={business}
+            categories={categories}
+            items={items}
+            primaryColor={templateSettings.primary_color}
+            languages={languages}
+            currentLanguage={language}
+          />
+          {offlineBundle}
+        </>
       )
     
     case 'vibrant-playful':
       return (
-        <VibrantPlayful
-          business={business}
-          categories={categories}
-          items={items}
-          primaryColor={templateSettings.primary_color}
-        />
+        <>
+          <VibrantPlayful
+            business={business}
+            categories={categories}
+            items={items}
+            primaryColor={templateSettings.primary_color}
+            languages={languages}
+            currentLanguage={language}
+          />
+          {offlineBundle}
+        </>
       )
     
     case 'modern-minimal':
     default:
       return (
-        <ModernMinimal
-          business={business}
-          categories={categories}
-          items={items}
-          primaryColor={templateSettings.primary_color}
-        />
+        <>
+          <ModernMinimal
+            business={business}
+            categories={categories}
+            items={items}
+            primaryColor={templateSettings.primary_color}
+            languages={languages}
+            currentLanguage={language}
+          />
+          {offlineBundle}
+        </>
       )
   }
 }
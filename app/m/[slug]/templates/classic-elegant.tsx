@@ -1,11 +1,23 @@
 import Image from 'next/image'
 import styles from './classic-elegant.module.css'
+import LanguageSwitcher from '../components/language-switcher'
+import PriceVariants, { formatItemPrice } from '../components/price-variants'
+
+interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  effective_price?: number
+  is_available: boolean
+}
 
 interface MenuItem {
   id: string
   name: string
   description: string
   price: number
+  from_price?: number
+  price_variants?: PriceVariant[] | null
   is_featured: boolean
   image_url: string | null
   category_id: string
@@ -28,14 +40,22 @@ interface Business {
   address: string
 }
 
+interface Language {
+  code: string
+  name: string
+  is_default: boolean
+}
+
 interface Props {
   business: Business
   categories: Category[]
   items: MenuItem[]
   primaryColor?: string
+  languages?: Language[]
+  currentLanguage?: string
 }
 
-export default function ClassicElegant({ business, categories, items, primaryColor = '#8B4513' }: Props) {
+export default function ClassicElegant({ business, categories, items, primaryColor = '#8B4513', languages = [], currentLanguage = '' }: Props) {
   const featuredItems = items.filter(item => item.is_featured)
   const itemsByCategory = categories.map(category => ({
     category,
@@ -46,6 +66,7 @@ export default function ClassicElegant({ business, categories, items, primaryCol
     <div className={styles.container} style={{ '--primary-color': primaryColor } as React.CSSProperties}>
       {/* Classic Header */}
       <header className={styles.header}>
+        <LanguageSwitcher languages={languages} currentLanguage={currentLanguage} />
         <div className={styles.headerContent}>
           {business.logo_url && (
             <div className={styles.logoContainer}>
@@ -108,11 +129,12 @@ export default function ClassicElegant({ business, categories, items, primaryCol
                   <div className={styles.featuredDetails}>
                     <div className={styles.featuredHeader}>
                       <h3 className={styles.featuredName}>{item.name}</h3>
-                      <span className={styles.featuredPrice}>GHS {item.price.toFixed(2)}</span>
+                      <span className={styles.featuredPrice}>{formatItemPrice(item)}</span>
                     </div>
                     {item.description && (
                       <p className={styles.featuredDescription}>{item.description}</p>
                     )}
+                    <PriceVariants variants={item.price_variants} />
                   </div>
                 </div>
               ))}
@@ -151,11 +173,12 @@ export default function ClassicElegant({ business, categories, items, primaryCol
                         {item.description && (
                           <p className={styles.itemDescription}>{item.description}</p>
                         )}
+                        <PriceVariants variants={item.price_variants} />
                       </div>
                     </div>
                     <div className={styles.itemRight}>
                       <span className={styles.priceDots}></span>
-                      <span className={styles.itemPrice}>GHS {item.price.toFixed(2)}</span>
+                      <span className={styles.itemPrice}>{formatItemPrice(item)}</span>
                     </div>
                   </div>
                 </div>
@@ -1,11 +1,23 @@
 import Image from 'next/image'
 import styles from './minimalist-dark.module.css'
+import LanguageSwitcher from '../components/language-switcher'
+import PriceVariants, { formatItemPrice } from '../components/price-variants'
+
+interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  effective_price?: number
+  is_available: boolean
+}
 
 interface MenuItem {
   id: string
   name: string
   description: string
   price: number
+  from_price?: number
+  price_variants?: PriceVariant[] | null
   is_featured: boolean
   image_url: string | null
   category_id: string
@@ -28,14 +40,22 @@ interface Business {
   address: string
 }
 
+interface Language {
+  code: string
+  name: string
+  is_default: boolean
+}
+
 interface Props {
   business: Business
   categories: Category[]
   items: MenuItem[]
   primaryColor?: string
+  languages?: Language[]
+  currentLanguage?: string
 }
 
-export default function MinimalistDark({ business, categories, items, primaryColor = '#D4AF37' }: Props) {
+export default function MinimalistDark({ business, categories, items, primaryColor = '#D4AF37', languages = [], currentLanguage = '' }: Props) {
   const featuredItems = items.filter(item => item.is_featured)
   const itemsByCategory = categories.map(category => ({
     category,
@@ -46,6 +66,7 @@ export default function MinimalistDark({ business, categories, items, primaryCol
     <div className={styles.container} style={{ '--accent-color': primaryColor } as React.CSSProperties}>
       {/* Minimalist Header */}
       <header className={styles.header}>
+        <LanguageSwitcher languages={languages} currentLanguage={currentLanguage} />
         <div className={styles.headerContent}>
           {business.logo_url && (
             <div className={styles.logoWrapper}>
@@ -98,11 +119,12 @@ export default function MinimalistDark({ business, categories, items, primaryCol
                   <div className={styles.featuredInfo}>
                     <div className={styles.featuredHeader}>
                       <h3 className={styles.featuredName}>{item.name}</h3>
-                      <span className={styles.featuredPrice}>{item.price.toFixed(2)}</span>
+                      <span className={styles.featuredPrice}>{formatItemPrice(item, '')}</span>
                     </div>
                     {item.description && (
                       <p className={styles.featuredDesc}>{item.description}</p>
                     )}
+                    <PriceVariants variants={item.price_variants} currency="" />
                   </div>
                 </div>
               ))}
@@ -125,11 +147,12 @@ export default function MinimalistDark({ business, categories, items, primaryCol
                   <div className={styles.itemHeader}>
                     <h3 className={styles.itemName}>{item.name}</h3>
                     <div className={styles.spacer}></div>
-                    <span className={styles.itemPrice}>{item.price.toFixed(2)}</span>
+                    <span className={styles.itemPrice}>{formatItemPrice(item, '')}</span>
                   </div>
                   {item.description && (
                     <p className={styles.itemDesc}>{item.description}</p>
                   )}
+                  <PriceVariants variants={item.price_variants} currency="" />
                 </div>
               ))}
             </div>
@@ -1,11 +1,23 @@
 import Image from 'next/image'
 import styles from './modern-minimal.module.css'
+import LanguageSwitcher from '../components/language-switcher'
+import PriceVariants, { formatItemPrice } from '../components/price-variants'
+
+interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  effective_price?: number
+  is_available: boolean
+}
 
 interface MenuItem {
   id: string
   name: string
   description: string
   price: number
+  from_price?: number
+  price_variants?: PriceVariant[] | null
   is_featured: boolean
   image_url: string | null
   category_id: string
@@ -28,14 +40,22 @@ interface Business {
   address: string
 }
 
+interface Language {
+  code: string
+  name: string
+  is_default: boolean
+}
+
 interface Props {
   business: Business
   categories: Category[]
   items: MenuItem[]
   primaryColor?: string
+  languages?: Language[]
+  currentLanguage?: string
 }
 
-export default function ModernMinimal({ business, categories, items, primaryColor = '#ffc107' }: Props) {
+export default function ModernMinimal({ business, categories, items, primaryColor = '#ffc107', languages = [], currentLanguage = '' }: Props) {
   const featuredItems = items.filter(item => item.is_featured)
   const itemsByCategory = categories.map(category => ({
     category,
@@ -45,6 +65,7 @@ export default function ModernMinimal({ business, categories, items, primaryColo
   return (
     <div className={styles.container} style={{ '--primary-color': primaryColor } as React.CSSProperties}>
       <header className={styles.hero}>
+        <LanguageSwitcher languages={languages} currentLanguage={currentLanguage} />
         <div className={styles.heroContent}>
           {business.logo_url && (
             <div className={styles.logoWrapper}>
@@ -94,7 +115,8 @@ export default function ModernMinimal({ business, categories, items, primaryColo
                   <div className={styles.featuredContent}>
                     <h3 className={styles.featuredName}>{item.name}</h3>
                     <p className={styles.featuredDesc}>{item.description}</p>
-                    <span className={styles.featuredPrice}>GHS {item.price.toFixed(2)}</span>
+                    <PriceVariants variants={item.price_variants} />
+                    <span className={styles.featuredPrice}>{formatItemPrice(item)}</span>
                   </div>
                 </div>
               ))}
@@ -127,11 +149,12 @@ export default function ModernMinimal({ business, categories, items, primaryColo
                   <div className={styles.itemContent}>
                     <div className={styles.itemHeader}>
                       <h3 className={styles.itemName}>{item.name}</h3>
-                      <span className={styles.itemPrice}>GHS {item.price.toFixed(2)}</span>
+                      <span className={styles.itemPrice}>{formatItemPrice(item)}</span>
                     </div>
                     {item.description && (
                       <p className={styles.itemDesc}>{item.description}</p>
                     )}
+                    <PriceVariants variants={item.price_variants} />
                   </div>
                 </div>
               ))}
@@ -1,11 +1,23 @@
 import Image from 'next/image'
 import styles from './rustic-organic.module.css'
+import LanguageSwitcher from '../components/language-switcher'
+import PriceVariants, { formatItemPrice } from '../components/price-variants'
+
+interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  effective_price?: number
+  is_available: boolean
+}
 
 interface MenuItem {
   id: string
   name: string
   description: string
   price: number
+  from_price?: number
+  price_variants?: PriceVariant[] | null
   is_featured: boolean
   image_url: string | null
   category_id: string
@@ -28,14 +40,22 @@ interface Business {
   address: string
 }
 
+interface Language {
+  code: string
+  name: string
+  is_default: boolean
+}
+
 interface Props {
   business: Business
   categories: Category[]
   items: MenuItem[]
   primaryColor?: string
+  languages?: Language[]
+  currentLanguage?: string
 }
 
-export default function RusticOrganic({ business, categories, items, primaryColor = '#6B8E23' }: Props) {
+export default function RusticOrganic({ business, categories, items, primaryColor = '#6B8E23', languages = [], currentLanguage = '' }: Props) {
   const featuredItems = items.filter(item => item.is_featured)
   const itemsByCategory = categories.map(category => ({
     category,
@@ -46,6 +66,7 @@ export default function RusticOrganic({ business, categories, items, primaryColo
     <div className={styles.container} style={{ '--primary-color': primaryColor } as React.CSSProperties}>
       {/* Rustic Header */}
       <header className={styles.header}>
+        <LanguageSwitcher languages={languages} currentLanguage={currentLanguage} />
         <div className={styles.headerPattern}></div>
         <div className={styles.headerContent}>
           {business.logo_url && (
@@ -103,9 +124,10 @@ export default function RusticOrganic({ business, categories, items, primaryColo
                     {item.description && (
                       <p className={styles.cardDesc}>{item.description}</p>
                     )}
+                    <PriceVariants variants={item.price_variants} />
                     <div className={styles.cardPrice}>
-                      <span className={styles.currency}>GHS</span>
-                      <span className={styles.amount}>{item.price.toFixed(2)}</span>
+                      <span className={styles.currency}>{item.price_variants?.length ? 'From GHS' : 'GHS'}</span>
+                      <span className={styles.amount}>{(item.from_price ?? item.price).toFixed(2)}</span>
                     </div>
                   </div>
                 </div>
@@ -142,11 +164,12 @@ export default function RusticOrganic({ business, categories, items, primaryColo
                   <div className={styles.itemContent}>
                     <div className={styles.itemTop}>
                       <h3 className={styles.itemName}>{item.name}</h3>
-                      <span className={styles.itemPrice}>GHS {item.price.toFixed(2)}</span>
+                      <span className={styles.itemPrice}>{formatItemPrice(item)}</span>
                     </div>
                     {item.description && (
                       <p className={styles.itemDesc}>{item.description}</p>
                     )}
+                    <PriceVariants variants={item.price_variants} />
                   </div>
                 </div>
               ))}
@@ -1,11 +1,23 @@
 import Image from 'next/image'
 import styles from './vibrant-playful.module.css'
+import LanguageSwitcher from '../components/language-switcher'
+import PriceVariants, { formatItemPrice } from '../components/price-variants'
+
+interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  effective_price?: number
+  is_available: boolean
+}
 
 interface MenuItem {
   id: string
   name: string
   description: string
   price: number
+  from_price?: number
+  price_variants?: PriceVariant[] | null
   is_featured: boolean
   image_url: string | null
   category_id: string
@@ -28,14 +40,22 @@ interface Business {
   address: string
 }
 
+interface Language {
+  code: string
+  name: string
+  is_default: boolean
+}
+
 interface Props {
   business: Business
   categories: Category[]
   items: MenuItem[]
   primaryColor?: string
+  languages?: Language[]
+  currentLanguage?: string
 }
 
-export default function VibrantPlayful({ business, categories, items, primaryColor = '#FF6B6B' }: Props) {
+export default function VibrantPlayful({ business, categories, items, primaryColor = '#FF6B6B', languages = [], currentLanguage = '' }: Props) {
   const featuredItems = items.filter(item => item.is_featured)
   const itemsByCategory = categories.map(category => ({
     category,
@@ -46,6 +66,7 @@ export default function VibrantPlayful({ business, categories, items, primaryCol
     <div className={styles.container} style={{ '--primary-color': primaryColor } as React.CSSProperties}>
       {/* Vibrant Header */}
       <header className={styles.header}>
+        <LanguageSwitcher languages={languages} currentLanguage={currentLanguage} />
         <div className={styles.headerShapes}>
           <div className={styles.circle}></div>
           <div className={styles.triangle}></div>
@@ -105,8 +126,9 @@ export default function VibrantPlayful({ business, categories, items, primaryCol
                     {item.description && (
                       <p className={styles.cardDesc}>{item.description}</p>
                     )}
+                    <PriceVariants variants={item.price_variants} />
                     <div className={styles.cardPriceTag}>
-                      <span className={styles.price}>GHS {item.price.toFixed(2)}</span>
+                      <span className={styles.price}>{formatItemPrice(item)}</span>
                     </div>
                   </div>
                 </div>
@@ -143,8 +165,9 @@ export default function VibrantPlayful({ business, categories, items, primaryCol
                     {item.description && (
                       <p className={styles.itemDesc}>{item.description}</p>
                     )}
+                    <PriceVariants variants={item.price_variants} />
                     <div className={styles.itemFooter}>
-                      <span className={styles.itemPrice}>GHS {item.price.toFixed(2)}</span>
+                      <span className={styles.itemPrice}>{formatItemPrice(item)}</span>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,284 @@
+// lib/bundles.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Bundle, BundleSlot, PublicBundle, PublicBundleChoice } from '@/types/api'
+import { getMenuItems } from './item-placements'
+
+// Component item fields bundles look at: the menu's items as guests see them
+// (published, translated, with schedules and price rules applied)
+export interface BundleComponent {
+  id: string
+  category_id: string | null
+  name: string
+  effective_price: number
+  schedule_status: { available: boolean } | null
+}
+
+/**
+ * Validate a bundle body (for updates, the existing bundle merged with the changes).
+ * Slots without an id get one; references are checked by validateBundleReferences.
+ */
+export function validateBundle(body: Record<string, unknown>): { values: Partial<Bundle>; errors: string[] } {
+  const values: Partial<Bundle> = {}
+  const errors: string[] = []
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    errors.push('name is required')
+  } else {
+    values.name = body.name.trim()
+  }
+
+  if (typeof body.menu_id !== 'string' || !body.menu_id) {
+    errors.push('menu_id is required')
+  } else {
+    values.menu_id = body.menu_id
+  }
+
+  if (typeof body.price !== 'number' || !isFinite(body.price) || body.price < 0) {
+    errors.push('price must be a non-negative number')
+  } else {
+    values.price = Math.round(body.price * 100) / 100
+  }
+
+  for (const field of ['category_id', 'description', 'image_url'] as const) {
+    if (body[field] === undefined) continue
+
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      errors.push(`${field} must be a string`)
+    } else {
+      values[field] = (body[field] as string | null) || null
+    }
+  }
+
+  for (const flag of ['is_available', 'is_featured'] as const) {
+    if (body[flag] === undefined) continue
+
+    if (typeof body[flag] !== 'boolean') {
+      errors.push(`${flag} must be a boolean`)
+    } else {
+      values[flag] = body[flag] as boolean
+    }
+  }
+
+  if (body.sort_order !== undefined) {
+    if (typeof body.sort_order !== 'number' || !Number.isInteger(body.sort_order)) {
+      errors.push('sort_order must be an integer')
+    } else {
+      values.sort_order = body.sort_order
+    }
+  }
+
+  const slots = validateSlots(body.slots)
+  errors.push(...slots.errors)
+  values.slots = slots.values
+
+  return { values, errors }
+}
+
+/**
+ * Check that a bundle's menu and categories belong to the business and that its
+ * slot items are on the bundle's menu (own or placed items)
+ */
+export async function validateBundleReferences(
+  supabase: SupabaseClient,
+  businessId: string,
+  bundle: Partial<Bundle>
+): Promise<string[]> {
+  const errors: string[] = []
+  const slots = bundle.slots || []
+
+  const itemIds = [...new Set(slots.flatMap(slot => slot.item_ids))]
+  const categoryIds = [...new Set([
+    ...(bundle.category_id ? [bundle.category_id] : []),
+    ...slots.map(slot => slot.category_id).filter((id): id is string => !!id)
+  ])]
+
+  const [{ data: menu }, { data: categories }, items] = await Promise.all([
+    supabase
+      .from('menus')
+      .select('id')
+      .eq('id', bundle.menu_id!)
+      .eq('business_id', businessId)
+      .is('deleted_at', null)
+      .maybeSingle(),
+    categoryIds.length > 0
+      ? supabase
+          .from('categories')
+          .select('id')
+          .in('id', categoryIds)
+          .eq('business_id', businessId)
+          .is('deleted_at', null)
+      : Promise.resolve({ data: [] as Array<{ id: string }> }),
+    itemIds.length > 0
+      ? getMenuItems(supabase, bundle.menu_id!)
+      : Promise.resolve([])
+  ])
+
+  if (!menu) {
+    errors.push('menu_id: menu not found in this business')
+  }
+
+  const foundCategories = new Set((categories || []).map(category => category.id))
+  const missingCategories = categoryIds.filter(id => !foundCategories.has(id))
+  if (missingCategories.length > 0) {
+    errors.push(`categories not found in this business: ${missingCategories.join(', ')}`)
+  }
+
+  const foundItems = new Set(menu ? items.map(item => item.id) : [])
+  const missingItems = itemIds.filter(id => !foundItems.has(id))
+  if (menu && missingItems.length > 0) {
+    errors.push(`items not found on this menu: ${missingItems.join(', ')}`)
+  }
+
+  return errors
+}
+
+/**
+ * Load a menu's available bundles
+ */
+export async function loadBundles(
+  supabase: SupabaseClient,
+  businessId: string,
+  menuId: string
+): Promise<Bundle[]> {
+  const { data } = await supabase
+    .from('bundles')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('menu_id', menuId)
+    .eq('is_available', true)
+    .is('deleted_at', null)
+    .order('sort_order', { ascending: true })
+
+  return (data || []) as Bundle[]
+}
+
+/**
+ * Component breakdown and savings of a menu's bundles, with choices taken from
+ * the menu's items as served. Items a guest cannot see (sold out, hidden by
+ * their schedule, not published) are no choice; a bundle is unavailable when a
+ * required slot has no available choice.
+ */
+export function priceBundles(bundles: Bundle[], items: BundleComponent[]): PublicBundle[] {
+  const byId = new Map(items.map(item => [item.id, item]))
+
+  return bundles.map(bundle => {
+    let partsPrice = 0
+    let unavailableReason: string | null = null
+
+    const publicSlots = (bundle.slots || []).map(slot => {
+      const choices = getSlotChoices(slot, items, byId)
+      const available = choices.filter(choice => choice.is_available)
+
+      if (slot.is_required) {
+        if (available.length === 0) {
+          unavailableReason ??= `${choices.length === 1 ? choices[0].name : slot.name} is unavailable`
+        } else {
+          partsPrice += Math.min(...available.map(choice => choice.price)) * slot.quantity
+        }
+      }
+
+      return {
+        id: slot.id,
+        name: slot.name,
+        quantity: slot.quantity,
+        is_required: slot.is_required,
+        is_available: available.length > 0,
+        choices
+      }
+    })
+
+    partsPrice = Math.round(partsPrice * 100) / 100
+
+    return {
+      id: bundle.id,
+      category_id: bundle.category_id,
+      name: bundle.name,
+      description: bundle.description,
+      image_url: bundle.image_url,
+      price: bundle.price,
+      is_featured: bundle.is_featured,
+      is_available: unavailableReason === null,
+      unavailable_reason: unavailableReason,
+      slots: publicSlots,
+      parts_price: partsPrice,
+      savings: Math.max(Math.round((partsPrice - bundle.price) * 100) / 100, 0)
+    }
+  })
+}
+
+function validateSlots(input: unknown): { values: BundleSlot[]; errors: string[] } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { values: [], errors: ['slots must be a non-empty array'] }
+  }
+
+  const values: BundleSlot[] = []
+  const errors: string[] = []
+
+  input.forEach((slot: Partial<BundleSlot>, i) => {
+    if (!slot || typeof slot !== 'object') {
+      errors.push(`slots[${i}] must be an object`)
+      return
+    }
+
+    if (typeof slot.name !== 'string' || !slot.name.trim()) {
+      errors.push(`slots[${i}].name is required`)
+      return
+    }
+
+    const itemIds = slot.item_ids ?? []
+    if (!Array.isArray(itemIds) || itemIds.some(id => typeof id !== 'string')) {
+      errors.push(`slots[${i}].item_ids must be an array of item ids`)
+    }
+
+    const categoryId = slot.category_id ?? null
+    if (categoryId !== null && typeof categoryId !== 'string') {
+      errors.push(`slots[${i}].category_id must be a string`)
+    }
+
+    if (Array.isArray(itemIds) && itemIds.length === 0 && !categoryId) {
+      errors.push(`slots[${i}] needs item_ids or a category_id`)
+    }
+
+    const quantity = slot.quantity ?? 1
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1) {
+      errors.push(`slots[${i}].quantity must be a positive integer`)
+    }
+
+    if (slot.is_required !== undefined && typeof slot.is_required !== 'boolean') {
+      errors.push(`slots[${i}].is_required must be a boolean`)
+    }
+
+    values.push({
+      id: typeof slot.id === 'string' && slot.id ? slot.id : crypto.randomUUID(),
+      name: slot.name.trim(),
+      item_ids: Array.isArray(itemIds) ? [...new Set(itemIds)] : [],
+      category_id: typeof categoryId === 'string' ? categoryId : null,
+      quantity: typeof quantity === 'number' ? quantity : 1,
+      is_required: slot.is_required !== false
+    })
+  })
+
+  return { values, errors }
+}
+
+function getSlotChoices(
+  slot: BundleSlot,
+  components: BundleComponent[],
+  byId: Map<string, BundleComponent>
+): PublicBundleChoice[] {
+  const items = [
+    ...slot.item_ids.map(id => byId.get(id)).filter((item): item is BundleComponent => !!item),
+    ...(slot.category_id ? components.filter(item => item.category_id === slot.category_id) : [])
+  ]
+
+  // An item can be both named and in the slot's category
+  const unique = new Map(items.map(item => [item.id, item]))
+
+  return [...unique.values()]
+    .map(item => ({
+      id: item.id,
+      name: item.name,
+      price: item.effective_price,
+      is_available: item.schedule_status?.available !== false
+    }))
+}
@@ -0,0 +1,226 @@
+// lib/business-hours.ts
+import type { Business, BusinessClosure, TimeWindow } from '@/types/api'
+import { getNextAvailabilityChange, getNextOpening, getScheduleBreakpoints, getZonedDateTime, isMenuAvailable, zonedTimeToUtc, type TimeSchedule } from './time-utils'
+import { describeTransition, type ScheduleTransition } from './schedule-messages'
+
+// business_hours keys, indexed by day of week (0 = Sunday)
+const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export type BusinessHoursFields = Pick<Business, 'business_hours' | 'holiday_closures' | 'allow_browsing_when_closed'>
+
+export interface BusinessStatus {
+  is_open: boolean
+  reason: 'outside_hours' | 'holiday' | null
+  message: string | null
+  closure: BusinessClosure | null
+  next_opening: ScheduleTransition | null
+  allow_browsing: boolean
+}
+
+/**
+ * Check whether a business is open at `at` (defaults to now).
+ * No business_hours = always open; a day missing from business_hours = closed that day.
+ * Holiday closures take precedence over regular hours.
+ */
+export function getBusinessStatus(
+  business: BusinessHoursFields,
+  timezone: string | null,
+  language: string = 'en',
+  at: Date = new Date()
+): BusinessStatus {
+  const tz = timezone || 'UTC'
+  const schedule = getHoursSchedule(business.business_hours, tz)
+  const allowBrowsing = !!business.allow_browsing_when_closed
+  const closures = business.holiday_closures || []
+
+  const today = getZonedDateTime(at, tz).date
+  const closure = findClosure(closures, today)
+
+  if (!closure && (!schedule || isMenuAvailable(schedule, at))) {
+    return { is_open: true, reason: null, message: null, closure: null, next_opening: null, allow_browsing: allowBrowsing }
+  }
+
+  const nextOpening = findNextOpening(schedule, closures, tz, at)
+
+  return {
+    is_open: false,
+    reason: closure ? 'holiday' : 'outside_hours',
+    message: closure?.message || (closure ? `Closed for ${closure.name || 'a holiday'}` : 'We are currently closed'),
+    closure: closure || null,
+    next_opening: nextOpening ? describeTransition('opens', nextOpening, tz, language, at) : null,
+    allow_browsing: allowBrowsing
+  }
+}
+
+/**
+ * Next instant after `at` where the business opens or closes (regular hours or
+ * a closure starting), or null when its status never changes
+ */
+export function getNextBusinessChange(
+  business: BusinessHoursFields,
+  timezone: string | null,
+  at: Date = new Date()
+): Date | null {
+  const tz = timezone || 'UTC'
+  const schedule = getHoursSchedule(business.business_hours, tz)
+  const closures = business.holiday_closures || []
+
+  if (!getBusinessStatus(business, tz, 'en', at).is_open) {
+    return findNextOpening(schedule, closures, tz, at)
+  }
+
+  const today = getZonedDateTime(at, tz).date
+  const changes = closures
+    .filter(closure => closure.date > today)
+    .map(closure => zonedTimeToUtc(closure.date, tz))
+
+  if (schedule) changes.push(getNextAvailabilityChange(schedule, at))
+
+  const times = changes.filter((change): change is Date => !!change).map(change => change.getTime())
+  return times.length > 0 ? new Date(Math.min(...times)) : null
+}
+
+/**
+ * Minutes of the day where opening hours start or end (for timelines)
+ */
+export function getBusinessHoursBreakpoints(business: BusinessHoursFields, timezone: string | null): number[] {
+  const schedule = getHoursSchedule(business.business_hours, timezone || 'UTC')
+  return schedule ? getScheduleBreakpoints(schedule) : [0, 1440]
+}
+
+/**
+ * Validate a business_hours object ({ monday: { open: '08:00', close: '22:00' }, ... }).
+ * close may be earlier than open for hours past midnight.
+ */
+export function validateBusinessHours(input: unknown): string[] {
+  if (input === null) return []
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return ['business_hours must be an object keyed by day (e.g., monday)']
+  }
+
+  const errors: string[] = []
+
+  for (const [day, hours] of Object.entries(input as Record<string, { open?: unknown; close?: unknown }>)) {
+    if (!DAY_KEYS.includes(day.toLowerCase())) {
+      errors.push(`business_hours.${day} is not a day of the week`)
+      continue
+    }
+    if (!hours || !isTime(hours.open) || !isTime(hours.close)) {
+      errors.push(`business_hours.${day} needs open and close in HH:MM format`)
+    } else if (hours.open.slice(0, 5) === hours.close.slice(0, 5)) {
+      // A window of no length; "open 24h" is 00:00-23:59 (close is inclusive)
+      errors.push(`business_hours.${day} open and close must differ (use 00:00 to 23:59 for open all day)`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate a list of holiday/exception closures
+ */
+export function validateClosures(input: unknown): string[] {
+  if (input === null) return []
+  if (!Array.isArray(input)) {
+    return ['holiday_closures must be an array']
+  }
+
+  const errors: string[] = []
+
+  input.forEach((closure: Partial<BusinessClosure>, i) => {
+    if (!closure || typeof closure !== 'object' || !isDate(closure.date)) {
+      errors.push(`holiday_closures[${i}].date must be a date in YYYY-MM-DD format`)
+      return
+    }
+    if (closure.end_date !== undefined && closure.end_date !== null) {
+      if (!isDate(closure.end_date)) {
+        errors.push(`holiday_closures[${i}].end_date must be a date in YYYY-MM-DD format`)
+      } else if (closure.end_date < closure.date) {
+        errors.push(`holiday_closures[${i}].end_date must be on or after date`)
+      }
+    }
+    if (closure.message !== undefined && closure.message !== null && typeof closure.message !== 'string') {
+      errors.push(`holiday_closures[${i}].message must be a string`)
+    }
+  })
+
+  return errors
+}
+
+// Opening hours as a time-window schedule, so the menu schedule engine can evaluate them
+function getHoursSchedule(hours: Business['business_hours'], timezone: string): TimeSchedule | null {
+  if (!hours || Object.keys(hours).length === 0) {
+    return null
+  }
+
+  const windows: TimeWindow[] = []
+  for (const [day, dayHours] of Object.entries(hours)) {
+    const dayOfWeek = DAY_KEYS.indexOf(day.toLowerCase())
+    if (dayOfWeek === -1 || !dayHours?.open || !dayHours?.close) continue
+    windows.push({ from: dayHours.open, to: dayHours.close, days_of_week: [dayOfWeek] })
+  }
+
+  if (windows.length === 0) {
+    return null
+  }
+
+  return {
+    is_time_restricted: true,
+    available_from: null,
+    available_to: null,
+    days_of_week: [],
+    timezone,
+    start_date: null,
+    end_date: null,
+    active_dates: null,
+    priority: 0,
+    time_windows: windows
+  }
+}
+
+// Alternate between regular hours and closures until both allow opening
+function findNextOpening(
+  schedule: TimeSchedule | null,
+  closures: BusinessClosure[],
+  timezone: string,
+  at: Date
+): Date | null {
+  let candidate: Date | null = at
+
+  for (let attempt = 0; candidate && attempt < 20; attempt++) {
+    const closure = findClosure(closures, getZonedDateTime(candidate, timezone).date)
+    if (closure) {
+      candidate = zonedTimeToUtc(addDays(closure.end_date || closure.date, 1), timezone)
+      continue
+    }
+
+    if (!schedule || isMenuAvailable(schedule, candidate)) {
+      return candidate
+    }
+
+    candidate = getNextOpening(schedule, candidate)
+  }
+
+  return null
+}
+
+function findClosure(closures: BusinessClosure[], date: string): BusinessClosure | undefined {
+  return closures.find(c => date >= c.date && date <= (c.end_date || c.date))
+}
+
+function isTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value)
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value)
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
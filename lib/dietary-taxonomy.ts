@@ -0,0 +1,363 @@
+// lib/dietary-taxonomy.ts
+
+export type TaxonomyType = 'allergen' | 'dietary'
+
+export interface TaxonomyEntry {
+  key: string
+  icon: string                    // Icon key templates map to their own badge artwork
+  labels: Record<string, string>  // Per language (en, fr, es, pt, de, it)
+  aliases?: string[]              // Common spellings accepted and stored as `key`
+}
+
+export interface TaxonomyLabel {
+  key: string
+  label: string
+  icon: string | null  // null for legacy values outside the vocabulary
+}
+
+export const TAXONOMY_LANGUAGES = ['en', 'fr', 'es', 'pt', 'de', 'it']
+
+// The 14 allergens EU Regulation 1169/2011 requires restaurants to declare
+export const ALLERGENS: TaxonomyEntry[] = [
+  {
+    key: 'gluten', icon: 'wheat',
+    labels: { en: 'Gluten', fr: 'Gluten', es: 'Gluten', pt: 'Glúten', de: 'Gluten', it: 'Glutine' },
+    aliases: ['wheat', 'cereals', 'cereals_containing_gluten']
+  },
+  {
+    key: 'crustaceans', icon: 'shrimp',
+    labels: { en: 'Crustaceans', fr: 'Crustacés', es: 'Crustáceos', pt: 'Crustáceos', de: 'Krebstiere', it: 'Crostacei' },
+    aliases: ['crustacean', 'shrimp', 'prawns', 'crab', 'lobster']
+  },
+  {
+    key: 'eggs', icon: 'egg',
+    labels: { en: 'Eggs', fr: 'Œufs', es: 'Huevos', pt: 'Ovos', de: 'Eier', it: 'Uova' },
+    aliases: ['egg']
+  },
+  {
+    key: 'fish', icon: 'fish',
+    labels: { en: 'Fish', fr: 'Poisson', es: 'Pescado', pt: 'Peixe', de: 'Fisch', it: 'Pesce' }
+  },
+  {
+    key: 'peanuts', icon: 'peanut',
+    labels: { en: 'Peanuts', fr: 'Arachides', es: 'Cacahuetes', pt: 'Amendoim', de: 'Erdnüsse', it: 'Arachidi' },
+    aliases: ['peanut', 'groundnuts', 'groundnut']
+  },
+  {
+    key: 'soy', icon: 'soy',
+    labels: { en: 'Soy', fr: 'Soja', es: 'Soja', pt: 'Soja', de: 'Soja', it: 'Soia' },
+    aliases: ['soya', 'soybean', 'soybeans']
+  },
+  {
+    key: 'milk', icon: 'milk',
+    labels: { en: 'Milk', fr: 'Lait', es: 'Leche', pt: 'Leite', de: 'Milch', it: 'Latte' },
+    aliases: ['dairy', 'lactose']
+  },
+  {
+    key: 'tree_nuts', icon: 'nut',
+    labels: { en: 'Tree nuts', fr: 'Fruits à coque', es: 'Frutos de cáscara', pt: 'Frutos de casca rija', de: 'Schalenfrüchte', it: 'Frutta a guscio' },
+    aliases: ['tree_nut', 'almonds', 'hazelnuts', 'walnuts', 'cashews', 'pistachios']
+  },
+  {
+    key: 'celery', icon: 'celery',
+    labels: { en: 'Celery', fr: 'Céleri', es: 'Apio', pt: 'Aipo', de: 'Sellerie', it: 'Sedano' }
+  },
+  {
+    key: 'mustard', icon: 'mustard',
+    labels: { en: 'Mustard', fr: 'Moutarde', es: 'Mostaza', pt: 'Mostarda', de: 'Senf', it: 'Senape' }
+  },
+  {
+    key: 'sesame', icon: 'sesame',
+    labels: { en: 'Sesame', fr: 'Sésame', es: 'Sésamo', pt: 'Sésamo', de: 'Sesam', it: 'Sesamo' },
+    aliases: ['sesame_seeds']
+  },
+  {
+    key: 'sulphites', icon: 'wine',
+    labels: { en: 'Sulphites', fr: 'Sulfites', es: 'Sulfitos', pt: 'Sulfitos', de: 'Sulfite', it: 'Solfiti' },
+    aliases: ['sulfites', 'sulphur_dioxide', 'sulfur_dioxide']
+  },
+  {
+    key: 'lupin', icon: 'lupin',
+    labels: { en: 'Lupin', fr: 'Lupin', es: 'Altramuces', pt: 'Tremoço', de: 'Lupinen', it: 'Lupini' },
+    aliases: ['lupine']
+  },
+  {
+    key: 'molluscs', icon: 'shell',
+    labels: { en: 'Molluscs', fr: 'Mollusques', es: 'Moluscos', pt: 'Moluscos', de: 'Weichtiere', it: 'Molluschi' },
+    aliases: ['mollusks', 'mollusc', 'mollusk']
+  }
+]
+
+// Words that cover several allergens at once: "nuts" on an item is stored as
+// both allergens, and a guest avoiding "nuts" avoids both
+export const ALLERGEN_GROUPS: Record<string, string[]> = {
+  nuts: ['tree_nuts', 'peanuts'],
+  nut: ['tree_nuts', 'peanuts'],
+  shellfish: ['crustaceans', 'molluscs']
+}
+
+export const DIETARY_FLAGS: TaxonomyEntry[] = [
+  {
+    key: 'vegan', icon: 'leaf',
+    labels: { en: 'Vegan', fr: 'Végan', es: 'Vegano', pt: 'Vegano', de: 'Vegan', it: 'Vegano' },
+    aliases: ['plant_based']
+  },
+  {
+    key: 'vegetarian', icon: 'carrot',
+    labels: { en: 'Vegetarian', fr: 'Végétarien', es: 'Vegetariano', pt: 'Vegetariano', de: 'Vegetarisch', it: 'Vegetariano' },
+    aliases: ['veggie', 'veg']
+  },
+  {
+    key: 'pescatarian', icon: 'fish',
+    labels: { en: 'Pescatarian', fr: 'Pescétarien', es: 'Pescetariano', pt: 'Pescetariano', de: 'Pescetarisch', it: 'Pescetariano' },
+    aliases: ['pescetarian']
+  },
+  {
+    key: 'halal', icon: 'halal',
+    labels: { en: 'Halal', fr: 'Halal', es: 'Halal', pt: 'Halal', de: 'Halal', it: 'Halal' }
+  },
+  {
+    key: 'kosher', icon: 'kosher',
+    labels: { en: 'Kosher', fr: 'Casher', es: 'Kosher', pt: 'Kosher', de: 'Koscher', it: 'Kosher' },
+    aliases: ['kasher']
+  },
+  {
+    key: 'gluten_free', icon: 'wheat-off',
+    labels: { en: 'Gluten-free', fr: 'Sans gluten', es: 'Sin gluten', pt: 'Sem glúten', de: 'Glutenfrei', it: 'Senza glutine' },
+    aliases: ['gf', 'no_gluten']
+  },
+  {
+    key: 'dairy_free', icon: 'milk-off',
+    labels: { en: 'Dairy-free', fr: 'Sans produits laitiers', es: 'Sin lácteos', pt: 'Sem laticínios', de: 'Milchfrei', it: 'Senza latticini' },
+    aliases: ['no_dairy', 'lactose_free']
+  },
+  {
+    key: 'nut_free', icon: 'nut-off',
+    labels: { en: 'Nut-free', fr: 'Sans fruits à coque', es: 'Sin frutos secos', pt: 'Sem frutos secos', de: 'Nussfrei', it: 'Senza frutta a guscio' },
+    aliases: ['no_nuts']
+  },
+  {
+    key: 'keto', icon: 'keto',
+    labels: { en: 'Keto', fr: 'Céto', es: 'Keto', pt: 'Cetogénico', de: 'Keto', it: 'Cheto' },
+    aliases: ['ketogenic']
+  },
+  {
+    key: 'organic', icon: 'sprout',
+    labels: { en: 'Organic', fr: 'Bio', es: 'Ecológico', pt: 'Biológico', de: 'Bio', it: 'Biologico' },
+    aliases: ['bio']
+  }
+]
+
+const ENTRIES: Record<TaxonomyType, TaxonomyEntry[]> = {
+  allergen: ALLERGENS,
+  dietary: DIETARY_FLAGS
+}
+
+const FIELDS: Record<TaxonomyType, string> = {
+  allergen: 'allergens',
+  dietary: 'dietary_flags'
+}
+
+// Every accepted spelling (key, alias, label in any language) -> key
+const LOOKUP: Record<TaxonomyType, Map<string, string>> = {
+  allergen: buildLookup(ALLERGENS),
+  dietary: buildLookup(DIETARY_FLAGS)
+}
+
+/**
+ * Canonical key for a value ("Peanut", "fruits à coque", "tree-nuts"), or null if unknown
+ */
+export function resolveTaxonomyKey(value: string, type: TaxonomyType): string | null {
+  return LOOKUP[type].get(toLookupKey(value)) || null
+}
+
+/**
+ * Canonical keys for a value: one key, every allergen of a group word
+ * ("nuts" -> tree_nuts and peanuts), or none if unknown
+ */
+export function resolveTaxonomyKeys(value: string, type: TaxonomyType): string[] {
+  const group = type === 'allergen' ? ALLERGEN_GROUPS[toLookupKey(value)] : undefined
+  if (group) return group
+
+  const key = resolveTaxonomyKey(value, type)
+  return key ? [key] : []
+}
+
+/**
+ * Validate and canonicalize an allergens or dietary_flags array.
+ * Unknown values are errors, with the closest known key suggested when there is one.
+ */
+export function normalizeTaxonomyValues(
+  values: unknown,
+  type: TaxonomyType
+): { values: string[]; errors: string[] } {
+  const field = FIELDS[type]
+
+  if (values === null || values === undefined) {
+    return { values: [], errors: [] }
+  }
+
+  if (!Array.isArray(values) || values.some(v => typeof v !== 'string')) {
+    return { values: [], errors: [`${field} must be an array of strings`] }
+  }
+
+  const normalized: string[] = []
+  const errors: string[] = []
+
+  for (const value of values as string[]) {
+    if (!value.trim()) continue
+
+    const keys = resolveTaxonomyKeys(value, type)
+    if (keys.length > 0) {
+      for (const key of keys) {
+        if (!normalized.includes(key)) normalized.push(key)
+      }
+      continue
+    }
+
+    const suggestion = suggestTaxonomyKey(value, type)
+    errors.push(suggestion
+      ? `${field}: unknown value "${value}" (did you mean "${suggestion}"?)`
+      : `${field}: unknown value "${value}". Allowed: ${ENTRIES[type].map(e => e.key).join(', ')}`)
+  }
+
+  return { values: normalized, errors }
+}
+
+/**
+ * Validate the allergens and dietary_flags present in an item payload.
+ * Only fields that are set are returned in `values`.
+ */
+export function validateItemTaxonomy(body: {
+  allergens?: unknown
+  dietary_flags?: unknown
+}): { values: { allergens?: string[]; dietary_flags?: string[] }; errors: string[] } {
+  const values: { allergens?: string[]; dietary_flags?: string[] } = {}
+  const errors: string[] = []
+
+  if (body.allergens !== undefined) {
+    const result = normalizeTaxonomyValues(body.allergens, 'allergen')
+    values.allergens = result.values
+    errors.push(...result.errors)
+  }
+
+  if (body.dietary_flags !== undefined) {
+    const result = normalizeTaxonomyValues(body.dietary_flags, 'dietary')
+    values.dietary_flags = result.values
+    errors.push(...result.errors)
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Localized labels and icon keys for stored values.
+ * Values saved before the vocabulary existed are passed through as their own label.
+ */
+export function getTaxonomyLabels(
+  values: string[] | null | undefined,
+  type: TaxonomyType,
+  language: string = 'en'
+): TaxonomyLabel[] {
+  const labels: TaxonomyLabel[] = []
+
+  for (const value of values || []) {
+    const keys = resolveTaxonomyKeys(value, type)
+    const valueLabels: TaxonomyLabel[] = keys.length > 0
+      ? keys.map(key => {
+          const entry = ENTRIES[type].find(e => e.key === key)!
+          return { key: entry.key, label: localize(entry, language), icon: entry.icon }
+        })
+      : [{ key: value, label: value, icon: null }]
+
+    for (const label of valueLabels) {
+      if (!labels.some(l => l.key === label.key)) labels.push(label)
+    }
+  }
+
+  return labels
+}
+
+/**
+ * The full vocabulary in one language (for pickers and legends)
+ */
+export function getTaxonomy(language: string = 'en'): Record<'allergens' | 'dietary_flags', TaxonomyLabel[]> {
+  return {
+    allergens: ALLERGENS.map(entry => ({ key: entry.key, label: localize(entry, language), icon: entry.icon })),
+    dietary_flags: DIETARY_FLAGS.map(entry => ({ key: entry.key, label: localize(entry, language), icon: entry.icon }))
+  }
+}
+
+/**
+ * Add allergen_labels and dietary_labels to public menu items
+ */
+export function withTaxonomyLabels<T extends { allergens?: string[] | null; dietary_flags?: string[] | null }>(
+  items: T[],
+  language: string
+): Array<T & { allergen_labels: TaxonomyLabel[]; dietary_labels: TaxonomyLabel[] }> {
+  return items.map(item => ({
+    ...item,
+    allergen_labels: getTaxonomyLabels(item.allergens, 'allergen', language),
+    dietary_labels: getTaxonomyLabels(item.dietary_flags, 'dietary', language)
+  }))
+}
+
+// Closest key within a small edit distance, compared against every accepted spelling
+function suggestTaxonomyKey(value: string, type: TaxonomyType): string | null {
+  const target = toLookupKey(value)
+  let best: { key: string; distance: number } | null = null
+
+  for (const [spelling, key] of LOOKUP[type]) {
+    const distance = levenshtein(target, spelling)
+    if (!best || distance < best.distance) {
+      best = { key, distance }
+    }
+  }
+
+  const maxDistance = Math.max(2, Math.floor(target.length / 3))
+  return best && best.distance <= maxDistance ? best.key : null
+}
+
+function localize(entry: TaxonomyEntry, language: string): string {
+  const base = language.toLowerCase().split('-')[0]
+  return entry.labels[base] || entry.labels.en
+}
+
+function buildLookup(entries: TaxonomyEntry[]): Map<string, string> {
+  const lookup = new Map<string, string>()
+  for (const entry of entries) {
+    for (const spelling of [entry.key, ...(entry.aliases || []), ...Object.values(entry.labels)]) {
+      lookup.set(toLookupKey(spelling), entry.key)
+    }
+  }
+  return lookup
+}
+
+// "Fruits à coque" -> "fruits_a_coque", "Gluten-free" -> "gluten_free"
+function toLookupKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/œ/g, 'oe')
+    .replace(/[\s-]+/g, '_')
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
@@ -0,0 +1,92 @@
+// lib/item-availability.ts
+import type { ItemSchedule, ItemScheduleDisplay } from '@/types/api'
+import { getAvailabilityMessage, getItemSchedule, getNextAvailabilityChange, getNextClosing, getNextOpening, isMenuAvailable, toZonedISOString } from './time-utils'
+import { describeTransition, type ScheduleTransition } from './schedule-messages'
+
+export interface ItemScheduleStatus {
+  available: boolean
+  available_from: ScheduleTransition | null  // Next time it can be ordered, when not available now
+  available_until: string | null             // ISO 8601 in the business timezone, when available now
+  schedule: string                           // e.g. "Available 7:00AM - 11:00AM"
+}
+
+// Item fields the schedule check looks at
+export interface SchedulableItem {
+  category_id: string | null
+  schedule?: ItemSchedule | null
+  schedule_display?: ItemScheduleDisplay | null
+}
+
+/**
+ * Evaluate item schedules at `at` in the business timezone.
+ * Out-of-schedule items are dropped (schedule_display 'hide', the default) or
+ * kept with schedule_status.available = false ('show_unavailable').
+ * Items without a schedule get schedule_status null. Categories left empty
+ * only because their items were hidden are dropped too.
+ */
+export function applyItemSchedules<C extends { id: string }, I extends SchedulableItem>(
+  categories: C[],
+  items: I[],
+  timezone: string | null,
+  language: string = 'en',
+  at: Date = new Date()
+): { categories: C[]; items: Array<I & { schedule_status: ItemScheduleStatus | null }> } {
+  const tz = timezone || 'UTC'
+  const hiddenCategories = new Set<string | null>()
+  const visible: Array<I & { schedule_status: ItemScheduleStatus | null }> = []
+
+  for (const item of items) {
+    if (!item.schedule) {
+      visible.push({ ...item, schedule_status: null })
+      continue
+    }
+
+    const schedule = getItemSchedule(item.schedule, tz)
+    const available = isMenuAvailable(schedule, at)
+
+    if (!available && item.schedule_display !== 'show_unavailable') {
+      hiddenCategories.add(item.category_id)
+      continue
+    }
+
+    const opening = available ? null : getNextOpening(schedule, at)
+    const closing = available ? getNextClosing(schedule, at) : null
+
+    visible.push({
+      ...item,
+      schedule_status: {
+        available,
+        available_from: opening
+          ? describeTransition(hasTimeWindows(item.schedule) ? 'available' : 'available_day', opening, tz, language, at)
+          : null,
+        available_until: closing ? toZonedISOString(closing, tz) : null,
+        schedule: getAvailabilityMessage(schedule)
+      }
+    })
+  }
+
+  const usedCategories = new Set(visible.map(item => item.category_id))
+
+  return {
+    categories: categories.filter(category => usedCategories.has(category.id) || !hiddenCategories.has(category.id)),
+    items: visible
+  }
+}
+
+/**
+ * Next instant after `at` where any item comes into or out of its schedule,
+ * hidden items included
+ */
+export function getNextItemScheduleChange(items: SchedulableItem[], timezone: string | null, at: Date = new Date()): Date | null {
+  const times = items
+    .filter(item => item.schedule)
+    .map(item => getNextAvailabilityChange(getItemSchedule(item.schedule!, timezone || 'UTC'), at))
+    .filter((change): change is Date => !!change)
+    .map(change => change.getTime())
+
+  return times.length > 0 ? new Date(Math.min(...times)) : null
+}
+
+function hasTimeWindows(schedule: ItemSchedule): boolean {
+  return !!schedule.time_windows && schedule.time_windows.length > 0
+}
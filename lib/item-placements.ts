@@ -0,0 +1,115 @@
+// lib/item-placements.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { MenuItem, MenuItemPlacement, PlacedMenuItem } from '@/types/api'
+
+/**
+ * Validate placement overrides. Null price or category_id falls back to the item.
+ */
+export function validatePlacement(body: Record<string, unknown>): { values: Partial<MenuItemPlacement>; errors: string[] } {
+  const values: Partial<MenuItemPlacement> = {}
+  const errors: string[] = []
+
+  if (body.price !== undefined) {
+    if (body.price !== null && (typeof body.price !== 'number' || !isFinite(body.price) || body.price < 0)) {
+      errors.push('price must be a non-negative number or null')
+    } else {
+      values.price = body.price as number | null
+    }
+  }
+
+  if (body.category_id !== undefined) {
+    if (body.category_id !== null && typeof body.category_id !== 'string') {
+      errors.push('category_id must be a string or null')
+    } else {
+      values.category_id = (body.category_id as string | null) || null
+    }
+  }
+
+  if (body.is_available !== undefined) {
+    if (typeof body.is_available !== 'boolean') {
+      errors.push('is_available must be a boolean')
+    } else {
+      values.is_available = body.is_available
+    }
+  }
+
+  if (body.sort_order !== undefined) {
+    if (typeof body.sort_order !== 'number' || !Number.isInteger(body.sort_order) || body.sort_order < 0) {
+      errors.push('sort_order must be a non-negative integer')
+    } else {
+      values.sort_order = body.sort_order
+    }
+  }
+
+  return { values, errors }
+}
+
+/**
+ * The item as it appears on the placement's menu
+ */
+export function applyPlacement(item: MenuItem, placement: MenuItemPlacement): PlacedMenuItem {
+  return {
+    ...item,
+    menu_id: placement.menu_id,
+    category_id: placement.category_id ?? item.category_id,
+    sort_order: placement.sort_order,
+    price: placement.price ?? item.price,
+    is_available: item.is_available && placement.is_available,
+    placement_id: placement.id
+  }
+}
+
+/**
+ * Load every item on a menu: its own items plus library items placed on it,
+ * in sort order. Placements of deleted items are skipped.
+ */
+export async function getMenuItems(supabase: SupabaseClient, menuId: string): Promise<PlacedMenuItem[]> {
+  const [{ data: ownItems }, { data: placements }] = await Promise.all([
+    supabase
+      .from('menu_items')
+      .select('*')
+      .eq('menu_id', menuId)
+      .is('deleted_at', null),
+    supabase
+      .from('menu_item_placements')
+      .select('*, menu_items!inner(*)')
+      .eq('menu_id', menuId)
+      .is('deleted_at', null)
+      .is('menu_items.deleted_at', null)
+  ])
+
+  const items: PlacedMenuItem[] = [
+    ...((ownItems || []) as MenuItem[]).map(item => ({ ...item, placement_id: null })),
+    ...(placements || []).map(({ menu_items, ...placement }) =>
+      applyPlacement(menu_items as unknown as MenuItem, placement as MenuItemPlacement)
+    )
+  ]
+
+  return items.sort((a, b) => a.sort_order - b.sort_order)
+}
+
+/**
+ * Next free sort_order on a menu (own items and placements share one order)
+ */
+export async function getNextSortOrder(supabase: SupabaseClient, menuId: string): Promise<number> {
+  const [{ data: maxItem }, { data: maxPlacement }] = await Promise.all([
+    supabase
+      .from('menu_items')
+      .select('sort_order')
+      .eq('menu_id', menuId)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('menu_item_placements')
+      .select('sort_order')
+      .eq('menu_id', menuId)
+      .is('deleted_at', null)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ])
+
+  const max = Math.max(maxItem?.sort_order ?? -1, maxPlacement?.sort_order ?? -1)
+  return max + 1
+}
@@ -0,0 +1,514 @@
+// lib/menu-bundle.ts
+import crypto from 'crypto'
+import sharp from 'sharp'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { MenuBundle } from '@/types/api'
+import type { TaxonomyLabel } from './dietary-taxonomy'
+import type { ItemScheduleStatus } from './item-availability'
+import type { ScheduleTransition } from './schedule-messages'
+import { getBusinessLanguages } from './menu-translations'
+import { getNextBusinessChange } from './business-hours'
+import { getBusinessPriceRules, getNextPriceRuleChange } from './price-rules'
+import { getNextItemScheduleChange } from './item-availability'
+import { getPublicMenuContent } from './menu-versions'
+import { fetchStorageImage } from './storage-images'
+
+export const MENU_BUNDLE_BUCKET = 'menu-bundles'
+export const MENU_BUNDLE_FORMAT = 'menuqr-menu-bundle'
+export const MENU_BUNDLE_VERSION = 1
+
+const BUNDLE_MAX_AGE_MINUTES = 30      // Upper bound, in case a time-based change is missed
+const BUNDLE_REBUILD_INTERVAL_MS = 60 * 1000
+const BUNDLE_IMAGE_WIDTH = 640
+const BUNDLE_LOGO_WIDTH = 240
+const BUNDLE_IMAGE_QUALITY = 70
+const BUNDLE_CACHE_CONTROL = '31536000' // Content-addressed paths never change
+
+// The public menu payload (GET /api/v1/public/menu/:slug) as stored in a bundle
+export interface PublicMenuPayload {
+  business: {
+    id: string
+    name: string
+    display_name: string | null
+    slug: string
+    description: string | null
+    logo_url: string | null
+    city: string | null
+    country: string | null
+    phone: string | null
+    address: string | null
+    currency: string | null
+  }
+  menu: {
+    id: string
+    name: string
+    slug: string
+    description: string | null
+    version: number | null
+    closes_at: ScheduleTransition | null
+  }
+  fallback: unknown
+  template: {
+    template_name: string
+    primary_color: string
+    secondary_color: string
+    accent_color: string
+  }
+  categories: Array<{ id: string; name: string; description: string | null }>
+  items: BundleItem[]
+  language: string
+  languages: Array<{ code: string; name: string; is_default: boolean }>
+  [key: string]: unknown
+}
+
+export interface BundleItem {
+  id: string
+  category_id: string | null
+  name: string
+  description: string | null
+  price: number
+  from_price?: number
+  price_variants?: Array<{ id: string; name: string; price: number; effective_price?: number; is_available: boolean }> | null
+  is_featured: boolean
+  image_url: string | null
+  schedule_status?: ItemScheduleStatus | null
+  dietary_labels?: TaxonomyLabel[]
+  allergen_labels?: TaxonomyLabel[]
+  [key: string]: unknown
+}
+
+// menu.json of a bundle
+export interface MenuBundleDocument {
+  format: typeof MENU_BUNDLE_FORMAT
+  version: number
+  menu_id: string
+  version_id: string
+  default_language: string
+  languages: string[]
+  content: Record<string, PublicMenuPayload>  // Public menu payload per language
+}
+
+/**
+ * Build and upload the static bundle of a menu and record it as the menu's
+ * current bundle. Content comes from the public menu API in every language,
+ * so the bundle shows exactly what a scan would (price rules, schedules,
+ * modifiers). Fails for unpublished menus and while the menu isn't being
+ * served (business closed, menu out of schedule).
+ */
+export async function buildMenuBundle(
+  supabase: SupabaseClient,
+  menu: { id: string; business_id: string; slug: string; published_version_id: string | null }
+): Promise<{ bundle: MenuBundle | null; error: string | null }> {
+  // Drafts of never-published menus change without a new version to compare against
+  if (!menu.published_version_id) {
+    return { bundle: null, error: 'Publish the menu before building its offline bundle' }
+  }
+
+  const { data: business } = await supabase
+    .from('businesses')
+    .select('default_language, timezone, business_hours, holiday_closures, allow_browsing_when_closed')
+    .eq('id', menu.business_id)
+    .single()
+
+  const defaultLanguage = business?.default_language || 'en'
+  const languages = await getBusinessLanguages(supabase, menu.business_id, defaultLanguage)
+
+  // 1. Public payload in every language
+  const content: Record<string, PublicMenuPayload> = {}
+
+  for (const language of languages) {
+    const { payload, error } = await fetchPublicMenu(menu.slug, language.code)
+    if (error || !payload) {
+      return { bundle: null, error: error || 'Failed to load the public menu' }
+    }
+
+    if (payload.menu.id !== menu.id || payload.fallback) {
+      return { bundle: null, error: 'The menu is outside its schedule; another menu is being served' }
+    }
+
+    content[language.code] = payload
+  }
+
+  // 2. Compressed copies of the logo and item photos
+  const payloads = Object.values(content)
+  const images = await compressImages(supabase, menu.id, [
+    ...payloads.map(payload => ({ url: payload.business.logo_url, width: BUNDLE_LOGO_WIDTH })),
+    ...payloads.flatMap(payload => payload.items.map(item => ({ url: item.image_url, width: BUNDLE_IMAGE_WIDTH })))
+  ])
+  const compressed = (url: string | null) => (url && images.get(url)) || url
+
+  for (const payload of payloads) {
+    payload.business = { ...payload.business, logo_url: compressed(payload.business.logo_url) }
+    payload.items = payload.items.map(item => ({ ...item, image_url: compressed(item.image_url) }))
+  }
+
+  // 3. Content-addressed files
+  const document: MenuBundleDocument = {
+    format: MENU_BUNDLE_FORMAT,
+    version: MENU_BUNDLE_VERSION,
+    menu_id: menu.id,
+    version_id: menu.published_version_id,
+    default_language: defaultLanguage,
+    languages: languages.map(language => language.code),
+    content
+  }
+
+  const json = JSON.stringify(document)
+  const contentHash = crypto.createHash('sha256').update(json).digest('hex').slice(0, 16)
+  const html = renderBundleHtml(document)
+  const basePath = `${menu.id}/${contentHash}`
+
+  const jsonUrl = await uploadBundleFile(supabase, `${basePath}/menu.json`, json, 'application/json')
+  const htmlUrl = await uploadBundleFile(supabase, `${basePath}/index.html`, html, 'text/html; charset=utf-8')
+
+  if (!jsonUrl || !htmlUrl) {
+    return { bundle: null, error: 'Failed to upload the bundle' }
+  }
+
+  // 4. Record it as the current bundle and drop the previous files
+  const previous = await getMenuBundle(supabase, menu.id)
+  const builtAt = new Date()
+
+  // Opening hours, price rules and item schedules change the payload without a
+  // new version. Items hidden outside their schedule are not in the payload, so
+  // their schedules come from the published content.
+  const [priceRules, published] = await Promise.all([
+    getBusinessPriceRules(supabase, menu.business_id),
+    getPublicMenuContent(supabase, menu)
+  ])
+  const changes = business
+    ? [
+        getNextBusinessChange(business, business.timezone, builtAt),
+        getNextPriceRuleChange(priceRules, business.timezone, builtAt),
+        getNextItemScheduleChange(published.items, business.timezone, builtAt)
+      ]
+    : []
+
+  const { data: bundle, error: upsertError } = await supabase
+    .from('menu_bundles')
+    .upsert({
+      menu_id: menu.id,
+      business_id: menu.business_id,
+      version_id: menu.published_version_id,
+      content_hash: contentHash,
+      html_url: htmlUrl,
+      json_url: jsonUrl,
+      image_urls: [...new Set(images.values())],
+      languages: document.languages,
+      size_bytes: Buffer.byteLength(json) + Buffer.byteLength(html),
+      built_at: builtAt.toISOString(),
+      expires_at: getBundleExpiry(payloads, builtAt, changes).toISOString()
+    }, { onConflict: 'menu_id' })
+    .select()
+    .single()
+
+  if (upsertError || !bundle) {
+    return { bundle: null, error: upsertError?.message || 'Failed to save the bundle' }
+  }
+
+  if (previous && previous.content_hash !== contentHash) {
+    await supabase.storage
+      .from(MENU_BUNDLE_BUCKET)
+      .remove([`${menu.id}/${previous.content_hash}/menu.json`, `${menu.id}/${previous.content_hash}/index.html`])
+  }
+
+  return { bundle: bundle as MenuBundle, error: null }
+}
+
+/**
+ * Current bundle of a menu, if one was ever built
+ */
+export async function getMenuBundle(
+  supabase: SupabaseClient,
+  menuId: string
+): Promise<MenuBundle | null> {
+  const { data } = await supabase
+    .from('menu_bundles')
+    .select('*')
+    .eq('menu_id', menuId)
+    .maybeSingle()
+
+  return (data as MenuBundle | null) || null
+}
+
+/**
+ * A bundle is fresh while it was built from the menu's published version,
+ * covers every active language and has not reached its expiry
+ */
+export function isBundleFresh(
+  bundle: MenuBundle,
+  menu: { published_version_id: string | null },
+  languages: string[],
+  at: Date = new Date()
+): boolean {
+  return bundle.version_id === menu.published_version_id &&
+    languages.every(language => bundle.languages.includes(language)) &&
+    new Date(bundle.expires_at) > at
+}
+
+/**
+ * Claim a rebuild of a menu's stale bundle: at most one attempt a minute per
+ * menu, counted whether or not the build succeeds (menu_bundle_builds.last_attempt_at)
+ */
+export async function claimBundleRebuild(
+  supabase: SupabaseClient,
+  menu: { id: string; business_id: string },
+  at: Date = new Date()
+): Promise<boolean> {
+  // Row to claim on; the epoch lets the first attempt through
+  await supabase
+    .from('menu_bundle_builds')
+    .upsert({
+      menu_id: menu.id,
+      business_id: menu.business_id,
+      last_attempt_at: new Date(0).toISOString()
+    }, { onConflict: 'menu_id', ignoreDuplicates: true })
+
+  // Conditional update: only one request wins per interval
+  const { data, error } = await supabase
+    .from('menu_bundle_builds')
+    .update({ last_attempt_at: at.toISOString() })
+    .eq('menu_id', menu.id)
+    .lte('last_attempt_at', new Date(at.getTime() - BUNDLE_REBUILD_INTERVAL_MS).toISOString())
+    .select('menu_id')
+
+  if (error) {
+    console.error('Bundle rebuild claim error:', error.message)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * Self-contained HTML page of a bundle: inlined CSS, every language in the
+ * page with a switcher, images from the bundle. Works without the app.
+ */
+export function renderBundleHtml(document: MenuBundleDocument): string {
+  const base = document.content[document.default_language] || Object.values(document.content)[0]
+  const business = base.business
+  const businessName = business.display_name || business.name
+  const primaryColor = /^#[0-9a-f]{3,8}$/i.test(base.template.primary_color) ? base.template.primary_color : '#ffc107'
+  const location = [business.city, business.country].filter(Boolean).join(', ')
+  const currency = business.currency || 'GHS'
+
+  const switcher = document.languages.length < 2 ? '' : `
+    <nav class="languages" aria-label="Language">${base.languages.map(language =>
+      `<button type="button" data-lang="${escapeHtml(language.code)}" lang="${escapeHtml(language.code)}">${escapeHtml(language.name)}</button>`
+    ).join('')}</nav>`
+
+  const sections = document.languages.map(code => {
+    const payload = document.content[code]
+    const groups = payload.categories
+      .map(category => ({ category, items: payload.items.filter(item => item.category_id === category.id) }))
+      .filter(group => group.items.length > 0)
+
+    return `
+    <main data-lang="${escapeHtml(code)}" lang="${escapeHtml(code)}"${code === document.default_language ? '' : ' hidden'}>
+      <h2 class="menu-name">${escapeHtml(payload.menu.name)}</h2>
+      ${payload.menu.description ? `<p class="muted">${escapeHtml(payload.menu.description)}</p>` : ''}
+      ${groups.map(({ category, items }) => `
+      <section>
+        <h3>${escapeHtml(category.name)}</h3>
+        ${category.description ? `<p class="muted">${escapeHtml(category.description)}</p>` : ''}
+        ${items.map(item => renderItemHtml(item, currency)).join('')}
+      </section>`).join('')}
+    </main>`
+  }).join('')
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(document.default_language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(businessName)} - Menu</title>
+<style>${BUNDLE_CSS}</style>
+</head>
+<body style="--primary-color: ${primaryColor}">
+  <header>
+    ${business.logo_url ? `<img class="logo" src="${escapeHtml(business.logo_url)}" alt="${escapeHtml(business.name)}" width="96" height="96">` : ''}
+    <h1>${escapeHtml(businessName)}</h1>
+    ${business.description ? `<p>${escapeHtml(business.description)}</p>` : ''}
+    <p class="info">${escapeHtml(location)}${business.phone ? ` • <a href="tel:${escapeHtml(business.phone)}">${escapeHtml(business.phone)}</a>` : ''}</p>${switcher}
+  </header>${sections}
+  <footer>Powered by <strong>MenuQR Africa</strong></footer>
+  <script>${BUNDLE_SCRIPT}</script>
+</body>
+</html>
+`
+}
+
+// Styles of the bundle page, after the modern-minimal template
+const BUNDLE_CSS = `
+*{box-sizing:border-box}body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;color:#212529;background:#f8f9fa;line-height:1.5}
+header{background:var(--primary-color);color:#212529;text-align:center;padding:2rem 1rem}
+header h1{margin:.5rem 0 .25rem;font-size:1.75rem}header p{margin:.25rem 0}header a{color:inherit}
+.logo{border-radius:50%;object-fit:cover;background:#fff}
+.languages{margin-top:1rem;display:flex;gap:.5rem;justify-content:center;flex-wrap:wrap}
+.languages button{border:1px solid rgba(0,0,0,.2);background:rgba(255,255,255,.7);border-radius:999px;padding:.25rem .75rem;font:inherit;cursor:pointer}
+.languages button[aria-current=true]{background:#212529;color:#fff}
+main{max-width:760px;margin:0 auto;padding:1rem}main[hidden]{display:none}
+.menu-name{margin:1rem 0 0}
+section{margin-top:1.5rem}section h3{border-bottom:3px solid var(--primary-color);padding-bottom:.25rem;margin-bottom:.5rem}
+.item{display:flex;gap:.75rem;background:#fff;border-radius:12px;padding:.75rem;margin-bottom:.75rem;box-shadow:0 1px 3px rgba(0,0,0,.08)}
+.item img{width:88px;height:88px;border-radius:8px;object-fit:cover;flex-shrink:0}
+.item-body{flex:1;min-width:0}.item-head{display:flex;justify-content:space-between;gap:.5rem}
+.item-head h4{margin:0;font-size:1rem}.price{font-weight:700;white-space:nowrap}
+.muted{color:#6c757d;font-size:.9rem;margin:.25rem 0}
+.variants{list-style:none;padding:0;margin:.25rem 0;font-size:.9rem}.variants li{display:flex;justify-content:space-between}
+.sold-out{color:#adb5bd;text-decoration:line-through}
+.badges{display:flex;flex-wrap:wrap;gap:.25rem;margin-top:.25rem}
+.badge{font-size:.75rem;border-radius:999px;padding:0 .5rem;background:#e9ecef}
+footer{text-align:center;color:#6c757d;font-size:.85rem;padding:2rem 1rem}
+`
+
+// Language switcher: ?lang=, then the last choice, then the browser language
+const BUNDLE_SCRIPT = `
+(function(){var m=[].slice.call(document.querySelectorAll('main[data-lang]')),b=[].slice.call(document.querySelectorAll('.languages button'));
+function has(l){return m.some(function(e){return e.dataset.lang===l})}
+function show(l){m.forEach(function(e){e.hidden=e.dataset.lang!==l});b.forEach(function(e){e.setAttribute('aria-current',String(e.dataset.lang===l))});document.documentElement.lang=l;try{localStorage.setItem('menuqr-lang',l)}catch(e){}}
+b.forEach(function(e){e.addEventListener('click',function(){show(e.dataset.lang)})});
+var q=new URLSearchParams(location.search).get('lang'),s=null;try{s=localStorage.getItem('menuqr-lang')}catch(e){}
+var c=[q,s].concat(navigator.languages||[]).filter(Boolean).map(function(l){return l.toLowerCase()});
+for(var i=0;i<c.length;i++){if(has(c[i]))return show(c[i]);if(has(c[i].split('-')[0]))return show(c[i].split('-')[0])}
+show(m.length?m[0].dataset.lang:'en')})();
+`
+
+function renderItemHtml(item: BundleItem, currency: string): string {
+  const variants = item.price_variants || []
+  const amount = `${escapeHtml(currency)} ${(item.from_price ?? item.price).toFixed(2)}`
+  const badges = [...(item.dietary_labels || []), ...(item.allergen_labels || [])]
+  const unavailable = item.schedule_status && !item.schedule_status.available
+
+  return `
+        <div class="item">
+          ${item.image_url ? `<img src="${escapeHtml(item.image_url)}" alt="${escapeHtml(item.name)}" loading="lazy" width="88" height="88">` : ''}
+          <div class="item-body">
+            <div class="item-head"><h4>${escapeHtml(item.name)}</h4><span class="price">${variants.length > 0 ? `From ${amount}` : amount}</span></div>
+            ${item.description ? `<p class="muted">${escapeHtml(item.description)}</p>` : ''}
+            ${variants.length > 0 ? `<ul class="variants">${variants.map(variant =>
+              `<li${variant.is_available ? '' : ' class="sold-out"'}><span>${escapeHtml(variant.name)}</span><span>${escapeHtml(currency)} ${(variant.effective_price ?? variant.price).toFixed(2)}</span></li>`
+            ).join('')}</ul>` : ''}
+            ${unavailable ? `<p class="muted">${escapeHtml(item.schedule_status!.schedule)}</p>` : ''}
+            ${badges.length > 0 ? `<div class="badges">${badges.map(badge =>
+              `<span class="badge">${badge.icon ? `${escapeHtml(badge.icon)} ` : ''}${escapeHtml(badge.label)}</span>`
+            ).join('')}</div>` : ''}
+          </div>
+        </div>`
+}
+
+async function fetchPublicMenu(
+  slug: string,
+  language: string
+): Promise<{ payload: PublicMenuPayload | null; error: string | null }> {
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'https://menuqr-backend.vercel.app'
+
+  // Original images: the bundle keeps its own compressed copies
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/public/menu/${encodeURIComponent(slug)}?lang=${encodeURIComponent(language)}&image_size=full`, {
+      cache: 'no-store'
+    })
+    const body = await response.json().catch(() => null)
+
+    if (!response.ok || !body?.data) {
+      return { payload: null, error: body?.message || body?.error || `Public menu returned ${response.status}` }
+    }
+
+    return { payload: body.data as PublicMenuPayload, error: null }
+  } catch (error) {
+    return { payload: null, error: error instanceof Error ? error.message : 'Failed to load the public menu' }
+  }
+}
+
+// Resize to WebP once per source URL (<menu_id>/images/<hash of url>.webp);
+// images that cannot be fetched or decoded keep their original URL
+async function compressImages(
+  supabase: SupabaseClient,
+  menuId: string,
+  sources: Array<{ url: string | null; width: number }>
+): Promise<Map<string, string>> {
+  const images = new Map<string, string>()
+  const storage = supabase.storage.from(MENU_BUNDLE_BUCKET)
+
+  const { data: existing } = await storage.list(`${menuId}/images`, { limit: 1000 })
+  const uploaded = new Set((existing || []).map(file => file.name))
+
+  for (const { url, width } of sources) {
+    if (!url || images.has(url)) continue
+
+    const name = `${crypto.createHash('sha256').update(`${url}@${width}`).digest('hex').slice(0, 24)}.webp`
+    const path = `${menuId}/images/${name}`
+
+    if (!uploaded.has(name)) {
+      try {
+        const original = await fetchStorageImage(url)
+        if (!original) continue
+
+        const webp = await sharp(original)
+          .rotate()
+          .resize({ width, withoutEnlargement: true })
+          .webp({ quality: BUNDLE_IMAGE_QUALITY })
+          .toBuffer()
+
+        const { error } = await storage.upload(path, webp, {
+          contentType: 'image/webp',
+          cacheControl: BUNDLE_CACHE_CONTROL,
+          upsert: true
+        })
+        if (error) continue
+      } catch (error) {
+        console.error('Bundle image error:', url, error instanceof Error ? error.message : error)
+        continue
+      }
+    }
+
+    images.set(url, storage.getPublicUrl(path).data.publicUrl)
+  }
+
+  return images
+}
+
+async function uploadBundleFile(
+  supabase: SupabaseClient,
+  path: string,
+  body: string,
+  contentType: string
+): Promise<string | null> {
+  const storage = supabase.storage.from(MENU_BUNDLE_BUCKET)
+  const { error } = await storage.upload(path, Buffer.from(body), {
+    contentType,
+    cacheControl: BUNDLE_CACHE_CONTROL,
+    upsert: true
+  })
+
+  if (error) {
+    console.error('Bundle upload error:', path, error.message)
+    return null
+  }
+
+  return storage.getPublicUrl(path).data.publicUrl
+}
+
+// Earliest of: max age, the menu closing and the given changes (the business
+// opening or closing, a price rule or an item schedule starting or stopping)
+function getBundleExpiry(payloads: PublicMenuPayload[], builtAt: Date, changes: Array<Date | null>): Date {
+  const times = [
+    builtAt.getTime() + BUNDLE_MAX_AGE_MINUTES * 60 * 1000,
+    ...changes.filter((change): change is Date => !!change).map(change => change.getTime())
+  ]
+
+  for (const payload of payloads) {
+    if (payload.menu.closes_at) times.push(new Date(payload.menu.closes_at.at).getTime())
+  }
+
+  return new Date(Math.min(...times.filter(time => !Number.isNaN(time) && time > builtAt.getTime())))
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -0,0 +1,168 @@
+// lib/menu-cache.ts
+import crypto from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Where cached public menu reads are kept. The default store lives in this
+// process; a shared one (Redis, KV...) can be plugged in with setMenuCacheStore.
+// Values are plain JSON and must be treated as read-only by callers.
+export interface MenuCacheStore {
+  get(key: string): Promise<unknown | undefined>
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>
+}
+
+export interface ContentVersion {
+  version: string        // Changes whenever menu content of the business changes
+  last_modified: string  // ISO 8601, latest change
+}
+
+const CONTENT_VERSION_TTL_SECONDS = 15  // How long a computed version is trusted
+const CONTENT_TTL_SECONDS = 10 * 60     // Keys include the version; this only bounds memory
+const MEMORY_STORE_MAX_ENTRIES = 1000
+
+let store: MenuCacheStore = createMemoryStore(MEMORY_STORE_MAX_ENTRIES)
+
+/**
+ * Replace the cache store (e.g. a shared one, so every instance reuses reads)
+ */
+export function setMenuCacheStore(next: MenuCacheStore): void {
+  store = next
+}
+
+/**
+ * In-process store: entries expire after their TTL, the oldest go first when full
+ */
+export function createMemoryStore(maxEntries: number): MenuCacheStore {
+  const entries = new Map<string, { value: unknown; expires: number }>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+
+      if (entry.expires <= Date.now()) {
+        entries.delete(key)
+        return undefined
+      }
+      return entry.value
+    },
+    async set(key, value, ttlSeconds) {
+      entries.delete(key)
+      entries.set(key, { value, expires: Date.now() + ttlSeconds * 1000 })
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    }
+  }
+}
+
+/**
+ * Content version of a business, read with one call to the database function
+ * get_content_version(p_business_id), which returns { version, last_modified }
+ * and changes whenever any menu, version, item, placement, category, template,
+ * language, translation, price rule, modifier group or bundle of the business
+ * changes (checked at most every 15 seconds)
+ */
+export async function getContentVersion(
+  supabase: SupabaseClient,
+  business: { id: string; updated_at: string }
+): Promise<ContentVersion> {
+  return cachedRead(`content-version:${business.id}`, async () => {
+    const { data, error } = await supabase.rpc('get_content_version', {
+      p_business_id: business.id
+    })
+
+    const source = data as Partial<ContentVersion> | null
+    if (!error && source?.version && source.last_modified) {
+      return {
+        version: crypto
+          .createHash('sha256')
+          .update(JSON.stringify([business.updated_at, source.version]))
+          .digest('hex')
+          .slice(0, 16),
+        last_modified: new Date(Math.max(
+          new Date(source.last_modified).getTime() || 0,
+          new Date(business.updated_at).getTime() || 0
+        )).toISOString()
+      }
+    }
+
+    // Without a version nothing can be reused safely: a fresh one per check
+    // means content is re-read instead of served stale
+    console.error('Content version error:', error?.message || 'no version returned')
+    const now = new Date().toISOString()
+    return {
+      version: crypto.createHash('sha256').update(`${business.id}:${now}`).digest('hex').slice(0, 16),
+      last_modified: now
+    }
+  }, CONTENT_VERSION_TTL_SECONDS)
+}
+
+/**
+ * Read through the cache. Keys should include the content version so a change
+ * is never served stale; time-dependent results (schedules, price rules,
+ * business hours) must not be cached.
+ */
+export async function cachedRead<T>(
+  key: string,
+  load: () => Promise<T>,
+  ttlSeconds: number = CONTENT_TTL_SECONDS
+): Promise<T> {
+  try {
+    const hit = await store.get(key)
+    if (hit !== undefined) return hit as T
+  } catch (error) {
+    console.error('Menu cache read error:', error instanceof Error ? error.message : error)
+  }
+
+  const value = await load()
+
+  try {
+    await store.set(key, value, ttlSeconds)
+  } catch (error) {
+    console.error('Menu cache write error:', error instanceof Error ? error.message : error)
+  }
+
+  return value
+}
+
+/**
+ * JSON response with ETag (hash of the body, so availability changes count) and
+ * Last-Modified (content version); 304 when If-None-Match matches
+ */
+export function versionedJson(
+  request: Request,
+  body: unknown,
+  version: ContentVersion,
+  headers: Record<string, string> = {}
+): Response {
+  const json = JSON.stringify(body)
+  const etag = `"${version.version}-${crypto.createHash('sha1').update(json).digest('hex').slice(0, 16)}"`
+
+  const validators = {
+    ...headers,
+    'ETag': etag,
+    'Last-Modified': new Date(version.last_modified).toUTCString(),
+    'Cache-Control': 'public, max-age=0, must-revalidate'
+  }
+
+  if (matchesEtag(request.headers.get('if-none-match'), etag)) {
+    return new Response(null, { status: 304, headers: validators })
+  }
+
+  return new Response(json, {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', ...validators }
+  })
+}
+
+// "*", or any listed tag (weak or strong)
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) return false
+  if (header.trim() === '*') return true
+
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .includes(etag)
+}
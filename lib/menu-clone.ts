@@ -0,0 +1,327 @@
+// lib/menu-clone.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Menu, MenuItem, MenuItemPlacement } from '@/types/api'
+import { applyPlacement } from './item-placements'
+
+// Columns not carried over to the copy (identity, publishing and chain links)
+const MENU_CLONE_OMITTED_FIELDS = [
+  'id', 'business_id', 'name', 'slug', 'is_active', 'display_order', 'published_version_id',
+  'published_at', 'master_menu_id', 'created_at', 'updated_at', 'deleted_at'
+]
+const ITEM_CLONE_OMITTED_FIELDS = [
+  'id', 'business_id', 'menu_id', 'category_id', 'master_item_id', 'placement_id', 'created_at', 'updated_at', 'deleted_at'
+]
+
+// What a clone copies: the menu's own items and library items placed on it
+export interface CloneSource {
+  menu: Menu
+  items: MenuItem[]
+  placements: Array<{ placement: MenuItemPlacement; item: MenuItem }>
+}
+
+export interface CloneMenuOptions {
+  targetBusinessId: string
+  name: string
+  slug: string
+  isActive: boolean
+  includeTranslations: boolean
+}
+
+export interface CloneMenuResult {
+  menu: Menu
+  items: number
+  placements: number
+  categories_created: number
+  translations: number
+  skipped_languages: string[]  // Languages the target business does not have
+}
+
+/**
+ * Load a menu with its items and placements for cloning
+ */
+export async function getCloneSource(supabase: SupabaseClient, menuId: string): Promise<CloneSource | null> {
+  const { data: menu } = await supabase
+    .from('menus')
+    .select('*')
+    .eq('id', menuId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (!menu) return null
+
+  const [{ data: items }, { data: placements }] = await Promise.all([
+    supabase
+      .from('menu_items')
+      .select('*')
+      .eq('menu_id', menuId)
+      .is('deleted_at', null)
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('menu_item_placements')
+      .select('*, menu_items!inner(*)')
+      .eq('menu_id', menuId)
+      .is('deleted_at', null)
+      .is('menu_items.deleted_at', null)
+  ])
+
+  return {
+    menu: menu as Menu,
+    items: (items || []) as MenuItem[],
+    placements: (placements || []).map(({ menu_items, ...placement }) => ({
+      placement: placement as MenuItemPlacement,
+      item: menu_items as unknown as MenuItem
+    }))
+  }
+}
+
+/**
+ * Items the clone adds to the target business (placements stay placements
+ * within the same business, and become copies in another one)
+ */
+export function countClonedItems(source: CloneSource, targetBusinessId: string): number {
+  return source.items.length + (targetBusinessId === source.menu.business_id ? 0 : source.placements.length)
+}
+
+/**
+ * Map categories of one business to the categories with the same name in another
+ * (case-insensitive), creating missing ones unless `create` is false.
+ * Within one business every category maps to itself.
+ */
+export async function remapCategories(
+  supabase: SupabaseClient,
+  sourceBusinessId: string,
+  targetBusinessId: string,
+  categoryIds: string[],
+  create: boolean = true
+): Promise<{ mapping: Map<string, string | null>; created: number }> {
+  const mapping = new Map<string, string | null>()
+  const ids = [...new Set(categoryIds)]
+  let created = 0
+
+  if (sourceBusinessId === targetBusinessId) {
+    ids.forEach(id => mapping.set(id, id))
+    return { mapping, created }
+  }
+
+  if (ids.length === 0) return { mapping, created }
+
+  const [{ data: sourceCategories }, { data: targetCategories }] = await Promise.all([
+    supabase
+      .from('categories')
+      .select('id, name, description, display_order')
+      .in('id', ids)
+      .eq('business_id', sourceBusinessId),
+    supabase
+      .from('categories')
+      .select('id, name')
+      .eq('business_id', targetBusinessId)
+      .is('deleted_at', null)
+  ])
+
+  const byName = new Map((targetCategories || []).map(category => [category.name.trim().toLowerCase(), category.id]))
+
+  for (const category of sourceCategories || []) {
+    const key = category.name.trim().toLowerCase()
+    const existing = byName.get(key)
+
+    if (existing || !create) {
+      mapping.set(category.id, existing ?? null)
+      continue
+    }
+
+    const { data: inserted } = await supabase
+      .from('categories')
+      .insert({
+        business_id: targetBusinessId,
+        name: category.name,
+        description: category.description,
+        display_order: category.display_order,
+        is_active: true
+      })
+      .select('id')
+      .single()
+
+    if (inserted) {
+      byName.set(key, inserted.id)
+      created++
+    }
+
+    mapping.set(category.id, inserted?.id ?? null)
+  }
+
+  return { mapping, created }
+}
+
+/**
+ * First free menu slug: `base`, then `base-2`, `base-3`, ...
+ */
+export async function getAvailableMenuSlug(supabase: SupabaseClient, base: string): Promise<string> {
+  const { data: taken } = await supabase
+    .from('menus')
+    .select('slug')
+    .like('slug', `${base}%`)
+
+  const slugs = new Set((taken || []).map(menu => menu.slug))
+  if (!slugs.has(base)) return base
+
+  let suffix = 2
+  while (slugs.has(`${base}-${suffix}`)) suffix++
+  return `${base}-${suffix}`
+}
+
+/**
+ * Deep-copy a menu (schedule, items, image references, placements, translations)
+ * into a business. Categories are remapped by name; modifier groups only carry
+ * over within the same business.
+ */
+export async function cloneMenu(
+  supabase: SupabaseClient,
+  source: CloneSource,
+  options: CloneMenuOptions
+): Promise<{ result: CloneMenuResult | null; error: string | null }> {
+  const sameBusiness = source.menu.business_id === options.targetBusinessId
+
+  // Placed items become copies in another business
+  const items = [
+    ...source.items,
+    ...(sameBusiness ? [] : source.placements.map(({ placement, item }) => applyPlacement(item, placement)))
+  ]
+
+  const categories = await remapCategories(
+    supabase,
+    source.menu.business_id,
+    options.targetBusinessId,
+    [
+      ...items.map(item => item.category_id),
+      ...(sameBusiness ? source.placements.map(({ placement }) => placement.category_id) : [])
+    ].filter((id): id is string => !!id)
+  )
+
+  // 1. Menu
+  const { data: lastMenu } = await supabase
+    .from('menus')
+    .select('display_order')
+    .eq('business_id', options.targetBusinessId)
+    .order('display_order', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: menu, error: menuError } = await supabase
+    .from('menus')
+    .insert({
+      ...omit(source.menu as unknown as Record<string, unknown>, MENU_CLONE_OMITTED_FIELDS),
+      business_id: options.targetBusinessId,
+      name: options.name,
+      slug: options.slug,
+      is_active: options.isActive,
+      display_order: (lastMenu?.display_order ?? 0) + 1
+    })
+    .select()
+    .single()
+
+  if (menuError || !menu) {
+    return { result: null, error: menuError?.message || 'Failed to create menu' }
+  }
+
+  // 2. Items (returned in insert order, so ids line up with `items`)
+  const itemIds = new Map<string, string>()
+
+  if (items.length > 0) {
+    const { data: inserted, error: itemsError } = await supabase
+      .from('menu_items')
+      .insert(items.map(item => ({
+        ...omit(item as unknown as Record<string, unknown>, ITEM_CLONE_OMITTED_FIELDS),
+        menu_id: menu.id,
+        category_id: item.category_id ? categories.mapping.get(item.category_id) ?? null : null,
+        modifier_group_ids: sameBusiness ? item.modifier_group_ids : []
+      })))
+      .select('id')
+
+    if (itemsError || !inserted) {
+      await supabase.from('menus').update({ deleted_at: new Date().toISOString() }).eq('id', menu.id)
+      return { result: null, error: itemsError?.message || 'Failed to copy items' }
+    }
+
+    items.forEach((item, i) => itemIds.set(item.id, inserted[i].id))
+  }
+
+  // 3. Placements (same business only)
+  if (sameBusiness && source.placements.length > 0) {
+    await supabase
+      .from('menu_item_placements')
+      .insert(source.placements.map(({ placement }) => ({
+        business_id: placement.business_id,
+        item_id: placement.item_id,
+        menu_id: menu.id,
+        category_id: placement.category_id,
+        sort_order: placement.sort_order,
+        price: placement.price,
+        is_available: placement.is_available
+      })))
+  }
+
+  // 4. Translations, for the languages the target business has
+  let translations = 0
+  const skippedLanguages = new Set<string>()
+
+  if (options.includeTranslations) {
+    const [{ data: languages }, { data: menuTranslations }, { data: itemTranslations }] = await Promise.all([
+      supabase
+        .from('languages')
+        .select('language_code')
+        .eq('business_id', options.targetBusinessId)
+        .eq('is_active', true),
+      supabase
+        .from('menu_translations')
+        .select('language_code, name, description')
+        .eq('menu_id', source.menu.id),
+      itemIds.size > 0
+        ? supabase
+            .from('menu_item_translations')
+            .select('menu_item_id, language_code, name, description')
+            .in('menu_item_id', [...itemIds.keys()])
+        : Promise.resolve({ data: [] as Array<{ menu_item_id: string; language_code: string; name: string; description: string | null }> })
+    ])
+
+    const available = new Set((languages || []).map(language => language.language_code))
+    const keep = (languageCode: string) => {
+      if (available.has(languageCode)) return true
+      skippedLanguages.add(languageCode)
+      return false
+    }
+
+    const menuRows = (menuTranslations || [])
+      .filter(translation => keep(translation.language_code))
+      .map(translation => ({ ...translation, menu_id: menu.id }))
+
+    const itemRows = (itemTranslations || [])
+      .filter(translation => keep(translation.language_code))
+      .map(({ menu_item_id, ...translation }) => ({ ...translation, menu_item_id: itemIds.get(menu_item_id)! }))
+
+    if (menuRows.length > 0) {
+      const { error } = await supabase.from('menu_translations').insert(menuRows)
+      if (!error) translations += menuRows.length
+    }
+
+    if (itemRows.length > 0) {
+      const { error } = await supabase.from('menu_item_translations').insert(itemRows)
+      if (!error) translations += itemRows.length
+    }
+  }
+
+  return {
+    result: {
+      menu: menu as Menu,
+      items: items.length,
+      placements: sameBusiness ? source.placements.length : 0,
+      categories_created: categories.created,
+      translations,
+      skipped_languages: [...skippedLanguages]
+    },
+    error: null
+  }
+}
+
+function omit(record: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !fields.includes(key)))
+}
@@ -0,0 +1,295 @@
+// lib/menu-export.ts
+import { strToU8, zipSync } from 'fflate'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getMenuItems } from './item-placements'
+import type {
+  ExportFormat,
+  ImportField,
+  ItemTranslationValues,
+  Menu,
+  MenuExportDocument,
+  MenuExportItem
+} from '@/types/api'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json']
+export const MENU_EXPORT_FORMAT = 'menuqr-menu-export'
+export const MENU_EXPORT_VERSION = 1
+
+// Spreadsheet columns, named after the import fields so exports import as-is
+export const EXPORT_COLUMNS: ImportField[] = [
+  'name', 'sku', 'category', 'subcategory', 'description', 'price', 'compare_at_price',
+  'price_variants', 'is_available', 'is_featured', 'available_quantity', 'prep_time_minutes',
+  'portion_size', 'spice_level', 'allergens', 'dietary_flags', 'tags', 'ingredients',
+  'ingredient_list', 'preparation_notes', 'nutritional_info', 'image_url', 'gallery_images',
+  'video_url', 'schedule', 'schedule_display', 'sort_order'
+]
+
+const LIST_COLUMNS: ImportField[] = ['allergens', 'dietary_flags', 'tags', 'ingredient_list', 'gallery_images']
+const JSON_COLUMNS: ImportField[] = ['price_variants', 'nutritional_info', 'schedule']
+
+// Not part of an exported item: the menu it sits on, and placement bookkeeping
+const EXPORT_OMITTED_FIELDS = ['menu_id', 'deleted_at', 'placement_id']
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+}
+
+export type ExportCell = string | number | boolean | null
+
+export interface ExportTable {
+  headers: string[]
+  rows: ExportCell[][]
+}
+
+/**
+ * Every item of the given menus (own and placed items) with category names
+ * and translations per language
+ */
+export async function buildMenuExport(
+  supabase: SupabaseClient,
+  business: { id: string; name: string; slug: string },
+  menus: Array<Pick<Menu, 'id' | 'name' | 'slug' | 'description'>>
+): Promise<MenuExportDocument> {
+  const [menuItems, { data: categories }] = await Promise.all([
+    Promise.all(menus.map(menu => getMenuItems(supabase, menu.id))),
+    supabase
+      .from('categories')
+      .select('id, name')
+      .eq('business_id', business.id)
+  ])
+
+  const itemIds = [...new Set(menuItems.flat().map(item => item.id))]
+  const { data: translations } = itemIds.length > 0
+    ? await supabase
+        .from('menu_item_translations')
+        .select('menu_item_id, language_code, name, description')
+        .in('menu_item_id', itemIds)
+    : { data: [] as Array<{ menu_item_id: string; language_code: string; name: string; description: string | null }> }
+
+  const categoryNames = new Map((categories || []).map(category => [category.id, category.name]))
+  const itemTranslations = new Map<string, Record<string, ItemTranslationValues>>()
+  const languages = new Set<string>()
+
+  for (const translation of translations || []) {
+    const byLanguage = itemTranslations.get(translation.menu_item_id) || {}
+    byLanguage[translation.language_code] = { name: translation.name, description: translation.description }
+    itemTranslations.set(translation.menu_item_id, byLanguage)
+    languages.add(translation.language_code)
+  }
+
+  return {
+    format: MENU_EXPORT_FORMAT,
+    version: MENU_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    business,
+    languages: [...languages].sort(),
+    menus: menus.map((menu, i) => ({
+      id: menu.id,
+      name: menu.name,
+      slug: menu.slug,
+      description: menu.description ?? null,
+      items: menuItems[i].map(item => ({
+        ...omit(item as unknown as Record<string, unknown>, EXPORT_OMITTED_FIELDS),
+        category: item.category_id ? categoryNames.get(item.category_id) ?? null : null,
+        translations: itemTranslations.get(item.id) || {}
+      }) as MenuExportItem)
+    }))
+  }
+}
+
+/**
+ * One row per item with name:<language> and description:<language> columns.
+ * With `includeMenu` the first column holds the slug of the item's menu, which
+ * the business import uses to put each row back on its menu. The id column
+ * lets imports update the exported items instead of adding copies.
+ */
+export function toExportTable(document: MenuExportDocument, includeMenu: boolean): ExportTable {
+  const headers = [
+    ...(includeMenu ? ['menu'] : []),
+    'id',
+    ...EXPORT_COLUMNS,
+    ...document.languages.flatMap(language => [`name:${language}`, `description:${language}`])
+  ]
+
+  const rows = document.menus.flatMap(menu => menu.items.map(item => [
+    ...(includeMenu ? [menu.slug] : []),
+    item.id,
+    ...EXPORT_COLUMNS.map(column => toCell(item, column)),
+    ...document.languages.flatMap(language => [
+      item.translations[language]?.name ?? null,
+      item.translations[language]?.description ?? null
+    ])
+  ]))
+
+  return { headers, rows }
+}
+
+/**
+ * A cell as text, the way CSV exports write it. Text starting with = + - or @
+ * gets a leading ' so spreadsheet apps don't run it as a formula (imports
+ * strip it again).
+ */
+export function formatCell(cell: ExportCell): string {
+  if (cell === null) return ''
+  if (typeof cell === 'boolean') return cell ? 'yes' : 'no'
+  if (typeof cell === 'number') return String(cell)
+  return /^[=+\-@]/.test(cell) ? `'${cell}` : cell
+}
+
+/**
+ * CSV with a byte order mark, so spreadsheet apps read it as UTF-8
+ */
+export function writeCsv(table: ExportTable): string {
+  const line = (cells: ExportCell[]) => cells
+    .map(cell => {
+      const text = formatCell(cell)
+      return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    })
+    .join(',')
+
+  return '\uFEFF' + [table.headers, ...table.rows].map(line).join('\r\n') + '\r\n'
+}
+
+/**
+ * Single-sheet XLSX workbook
+ */
+export function writeXlsx(table: ExportTable, sheetName: string): Uint8Array {
+  const sheetRows = [table.headers, ...table.rows].map((cells, i) => {
+    const row = i + 1
+    const xml = cells.map((cell, column) => {
+      const reference = `${columnName(column)}${row}`
+      if (cell === null || cell === '') return ''
+      if (typeof cell === 'number') return `<c r="${reference}"><v>${cell}</v></c>`
+      if (typeof cell === 'boolean') return `<c r="${reference}" t="b"><v>${cell ? 1 : 0}</v></c>`
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+    }).join('')
+
+    return `<row r="${row}">${xml}</row>`
+  })
+
+  // Sheet names are limited to 31 characters without []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Menu')
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows.join('')}</sheetData>` +
+      '</worksheet>'
+    )
+  })
+}
+
+/**
+ * Write an export document in the requested format. Spreadsheets of
+ * several menus (or with `includeMenu`) get a menu column.
+ */
+export function renderMenuExport(
+  document: MenuExportDocument,
+  format: ExportFormat,
+  includeMenu: boolean = document.menus.length > 1
+): string | Uint8Array<ArrayBuffer> {
+  if (format === 'json') {
+    return JSON.stringify(document, null, 2)
+  }
+
+  const table = toExportTable(document, includeMenu)
+
+  return format === 'csv'
+    ? writeCsv(table)
+    : new Uint8Array(writeXlsx(table, includeMenu ? document.business.name : document.menus[0]?.name || document.business.name))
+}
+
+/**
+ * An export document as a table the import reads (with the menu column, so
+ * business imports can split it), or an error when the document is not a menu export
+ */
+export function readExportDocument(input: unknown): { table: ExportTable | null; error: string | null } {
+  const document = input as Partial<MenuExportDocument> | null
+
+  if (!document || document.format !== MENU_EXPORT_FORMAT || !Array.isArray(document.menus)) {
+    return { table: null, error: 'The JSON file is not a menu export' }
+  }
+
+  if (typeof document.version !== 'number' || document.version > MENU_EXPORT_VERSION) {
+    return { table: null, error: `Unsupported export version ${document.version}` }
+  }
+
+  if (document.menus.length === 0) {
+    return { table: null, error: 'The export holds no menus' }
+  }
+
+  return {
+    table: toExportTable({ ...document, languages: document.languages || [] } as MenuExportDocument, true),
+    error: null
+  }
+}
+
+function toCell(item: MenuExportItem, column: ImportField): ExportCell {
+  const value = (item as unknown as Record<string, unknown>)[column]
+
+  if (value === null || value === undefined) return null
+  if (LIST_COLUMNS.includes(column)) return formatList(value as string[])
+  if (JSON_COLUMNS.includes(column)) return JSON.stringify(value)
+  if (typeof value === 'object') return JSON.stringify(value)
+  return value as ExportCell
+}
+
+// "a, b, c"; as a JSON array when an entry contains a separator
+function formatList(values: string[]): string | null {
+  if (values.length === 0) return null
+  return values.some(value => /[,;|]/.test(value)) ? JSON.stringify(values) : values.join(', ')
+}
+
+// 0 -> "A", 27 -> "AB"
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name
+  }
+  return name
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+}
+
+function omit(record: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !fields.includes(key)))
+}
@@ -0,0 +1,140 @@
+// lib/menu-filters.ts
+import { resolveTaxonomyKeys, type TaxonomyType } from './dietary-taxonomy'
+
+export interface MenuFilters {
+  q: string[]                  // Search terms (all must match)
+  dietary: string[]            // Item must have ALL of these flags
+  exclude_allergens: string[]  // Item must have NONE of these allergens
+  tags: string[]               // Item must have ANY of these tags
+  max_spice: number | null
+  min_price: number | null
+  max_price: number | null
+}
+
+// Item fields the filters look at
+export interface FilterableItem {
+  name: string
+  description: string | null
+  price: number
+  effective_price?: number     // Set when price rules ran
+  from_price?: number          // Lowest orderable price (variants included); price filters prefer it
+  tags?: string[] | null
+  allergens?: string[] | null
+  dietary_flags?: string[] | null
+  spice_level?: number | null
+  subcategory?: string | null
+}
+
+/**
+ * Read filters from query params:
+ * ?q=jollof&dietary=vegan,halal&exclude_allergens=nuts,gluten&max_spice=2&min_price=10&max_price=50&tags=popular
+ */
+export function parseMenuFilters(searchParams: URLSearchParams): { filters: MenuFilters; errors: string[] } {
+  const errors: string[] = []
+
+  const list = (name: string) => (searchParams.get(name) || '')
+    .split(',')
+    .map(normalize)
+    .filter(Boolean)
+
+  const number = (name: string) => {
+    const raw = searchParams.get(name)
+    if (raw === null || raw === '') return null
+    const value = Number(raw)
+    if (isNaN(value) || value < 0) {
+      errors.push(`${name} must be a non-negative number`)
+      return null
+    }
+    return value
+  }
+
+  const filters: MenuFilters = {
+    q: normalize(searchParams.get('q') || '').split(/\s+/).filter(Boolean),
+    dietary: [...new Set(list('dietary').flatMap(flag => canonical(flag, 'dietary')))],
+    exclude_allergens: [...new Set(list('exclude_allergens').flatMap(allergen => canonical(allergen, 'allergen')))],
+    tags: list('tags'),
+    max_spice: number('max_spice'),
+    min_price: number('min_price'),
+    max_price: number('max_price')
+  }
+
+  if (filters.min_price !== null && filters.max_price !== null && filters.min_price > filters.max_price) {
+    errors.push('min_price cannot be greater than max_price')
+  }
+
+  return { filters, errors }
+}
+
+/**
+ * Check if any filter is set
+ */
+export function hasActiveFilters(filters: MenuFilters): boolean {
+  return filters.q.length > 0 ||
+    filters.dietary.length > 0 ||
+    filters.exclude_allergens.length > 0 ||
+    filters.tags.length > 0 ||
+    filters.max_spice !== null ||
+    filters.min_price !== null ||
+    filters.max_price !== null
+}
+
+/**
+ * Keep the items matching every filter
+ */
+export function filterMenuItems<T extends FilterableItem>(items: T[], filters: MenuFilters): T[] {
+  return items.filter(item => matchesFilters(item, filters))
+}
+
+/**
+ * Apply filters to a public menu payload, keeping only categories that still have items
+ */
+export function filterMenuContent<C extends { id: string }, I extends FilterableItem & { category_id: string | null }>(
+  categories: C[],
+  items: I[],
+  filters: MenuFilters
+): { categories: C[]; items: I[] } {
+  if (!hasActiveFilters(filters)) {
+    return { categories, items }
+  }
+
+  const matchedItems = filterMenuItems(items, filters)
+  const usedCategories = new Set(matchedItems.map(item => item.category_id))
+
+  return {
+    categories: categories.filter(category => usedCategories.has(category.id)),
+    items: matchedItems
+  }
+}
+
+function matchesFilters(item: FilterableItem, filters: MenuFilters): boolean {
+  const allergens = (item.allergens || []).flatMap(allergen => canonical(allergen, 'allergen'))
+  const dietary = (item.dietary_flags || []).flatMap(flag => canonical(flag, 'dietary'))
+  const tags = (item.tags || []).map(normalize)
+
+  if (filters.q.length > 0) {
+    const text = normalize([item.name, item.description, item.subcategory, ...tags].filter(Boolean).join(' '))
+    if (!filters.q.every(term => text.includes(term))) return false
+  }
+
+  if (!filters.dietary.every(flag => dietary.includes(flag))) return false
+  if (filters.exclude_allergens.some(allergen => allergens.includes(allergen))) return false
+  if (filters.tags.length > 0 && !filters.tags.some(tag => tags.includes(tag))) return false
+
+  if (filters.max_spice !== null && (item.spice_level || 0) > filters.max_spice) return false
+  const price = item.from_price ?? item.effective_price ?? item.price
+  if (filters.min_price !== null && price < filters.min_price) return false
+  if (filters.max_price !== null && price > filters.max_price) return false
+
+  return true
+}
+
+// Taxonomy keys when known ("peanut" -> peanuts, "nuts" -> tree_nuts and peanuts),
+// so legacy item values and query spellings still match
+function canonical(value: string, type: TaxonomyType): string[] {
+  const keys = resolveTaxonomyKeys(value, type)
+  return keys.length > 0 ? keys : [normalize(value)]
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase()
+}
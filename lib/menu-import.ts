@@ -0,0 +1,943 @@
+// lib/menu-import.ts
+import { strFromU8, unzipSync } from 'fflate'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { validateItemTaxonomy } from './dietary-taxonomy'
+import { getMenuItems, getNextSortOrder } from './item-placements'
+import { validatePriceVariants } from './price-variants'
+import { validateItemSchedule } from './schedule-validation'
+import { formatCell, readExportDocument } from './menu-export'
+import type {
+  ImportColumnMapping,
+  ImportField,
+  ImportMapping,
+  ImportReport,
+  ImportRowResult,
+  ItemTranslationValues
+} from '@/types/api'
+
+export const MAX_IMPORT_ROWS = 500
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024
+
+// Unzipped size limits for XLSX parts (a small upload can inflate enormously)
+const MAX_XLSX_PART_SIZE = 20 * 1024 * 1024
+const MAX_XLSX_UNZIPPED_SIZE = 50 * 1024 * 1024
+const XLSX_TOO_LARGE = 'The workbook is too large once unzipped'
+
+// Headers recognised without a mapping, compared lowercased without spaces, dashes or underscores
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'item', 'itemname', 'dish', 'title'],
+  price: ['price', 'cost', 'unitprice'],
+  description: ['description', 'desc', 'details'],
+  category: ['category', 'categoryname', 'section'],
+  subcategory: ['subcategory'],
+  sku: ['sku', 'code', 'itemcode', 'plu'],
+  image_url: ['imageurl', 'image', 'photo'],
+  gallery_images: ['galleryimages', 'gallery'],
+  video_url: ['videourl', 'video'],
+  is_available: ['isavailable', 'available', 'instock'],
+  is_featured: ['isfeatured', 'featured'],
+  available_quantity: ['availablequantity', 'quantity', 'stock'],
+  prep_time_minutes: ['preptimeminutes', 'preptime'],
+  compare_at_price: ['compareatprice', 'oldprice', 'wasprice'],
+  price_variants: ['pricevariants', 'variants', 'sizes'],
+  portion_size: ['portionsize', 'portion'],
+  spice_level: ['spicelevel', 'spice'],
+  allergens: ['allergens'],
+  dietary_flags: ['dietaryflags', 'dietary'],
+  tags: ['tags'],
+  sort_order: ['sortorder', 'position'],
+  ingredients: ['ingredients'],
+  ingredient_list: ['ingredientlist'],
+  preparation_notes: ['preparationnotes', 'notes'],
+  nutritional_info: ['nutritionalinfo', 'nutrition'],
+  schedule: ['schedule'],
+  schedule_display: ['scheduledisplay']
+}
+
+export const IMPORT_FIELDS = Object.keys(FIELD_ALIASES) as ImportField[]
+
+const TEXT_FIELDS: ImportField[] = [
+  'name', 'description', 'category', 'subcategory', 'sku', 'image_url', 'video_url',
+  'portion_size', 'ingredients', 'preparation_notes', 'schedule_display'
+]
+const PRICE_FIELDS: ImportField[] = ['price', 'compare_at_price']
+const INTEGER_FIELDS: ImportField[] = ['available_quantity', 'prep_time_minutes', 'spice_level', 'sort_order']
+const BOOLEAN_FIELDS: ImportField[] = ['is_available', 'is_featured']
+const LIST_FIELDS: ImportField[] = ['allergens', 'dietary_flags', 'tags', 'ingredient_list', 'gallery_images']
+const JSON_FIELDS: ImportField[] = ['price_variants', 'nutritional_info', 'schedule']
+
+// "name:fr", "description:pt-br"
+const TRANSLATION_COLUMN = /^(name|description):([a-z]{2,3}(?:-[a-z0-9]{2,4})?)$/i
+
+// Column of business exports naming each row's menu (its slug)
+const MENU_COLUMN = 'menu'
+
+// Column of exports holding each row's item id, matched before sku on import
+const ID_COLUMN = 'id'
+
+type ImportValues = ImportRowResult['values']
+
+export interface ImportSheet {
+  headers: string[]
+  rows: Array<{ row: number; cells: string[] }>
+}
+
+export interface TranslationColumn {
+  column: string
+  language: string
+  field: 'name' | 'description'
+}
+
+export interface ResolvedColumns {
+  mapping: ImportColumnMapping
+  id: string | null  // The item id column, when the sheet has one not mapped to a field
+  translations: TranslationColumn[]
+  unmapped: string[]
+  errors: string[]
+}
+
+// What an import will do, ready to apply
+export interface ImportPlan {
+  menuId: string
+  businessId: string
+  report: ImportReport
+  categoryIds: Map<string, string>  // Lowercased name -> id of existing categories
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX upload, or the menu of a JSON export.
+ * Empty rows are skipped.
+ */
+export function readImportFile(bytes: Uint8Array, filename: string): { sheet: ImportSheet | null; error: string | null } {
+  const extension = filename.toLowerCase().split('.').pop()
+
+  if (extension === 'xls') {
+    return { sheet: null, error: 'Legacy .xls files are not supported; save the sheet as .xlsx or .csv' }
+  }
+
+  if (extension === 'json') {
+    return readJsonExport(strFromU8(bytes))
+  }
+
+  // XLSX files are zip archives ("PK")
+  const isXlsx = extension === 'xlsx' || (bytes[0] === 0x50 && bytes[1] === 0x4b)
+
+  let table: Array<{ row: number; cells: string[] }>
+  try {
+    table = isXlsx ? parseXlsx(bytes) : parseCsv(strFromU8(bytes))
+  } catch (error) {
+    if (error instanceof Error && error.message === XLSX_TOO_LARGE) {
+      return { sheet: null, error: XLSX_TOO_LARGE }
+    }
+    return { sheet: null, error: isXlsx ? 'The file is not a readable XLSX workbook' : 'The file is not a readable CSV file' }
+  }
+
+  const rows = table
+    .filter(({ cells }) => cells.some(cell => cell.trim()))
+    .map(({ row, cells }) => ({ row, cells: cells.map(unescapeFormula) }))
+
+  if (rows.length === 0) {
+    return { sheet: null, error: 'The file is empty' }
+  }
+
+  const [header, ...data] = rows
+
+  return {
+    sheet: {
+      headers: header.cells.map(cell => cell.trim()),
+      rows: data
+    },
+    error: null
+  }
+}
+
+/**
+ * Split a sheet on its menu column (business exports): one sheet per menu
+ * value, without the column. Sheets without a menu column come back whole
+ * under a null menu. Rows with a blank menu cell are listed in `blank_rows`.
+ */
+export function splitSheetByMenu(sheet: ImportSheet): {
+  groups: Array<{ menu: string | null; sheet: ImportSheet }>
+  blank_rows: number[]
+} {
+  const column = sheet.headers.findIndex(header => toHeaderKey(header) === MENU_COLUMN)
+  if (column === -1) {
+    return { groups: [{ menu: null, sheet }], blank_rows: [] }
+  }
+
+  const headers = sheet.headers.filter((_, i) => i !== column)
+  const groups = new Map<string, { menu: string; sheet: ImportSheet }>()
+  const blankRows: number[] = []
+
+  for (const { row, cells } of sheet.rows) {
+    const menu = (cells[column] ?? '').trim()
+    if (!menu) {
+      blankRows.push(row)
+      continue
+    }
+
+    const key = menu.toLowerCase()
+    const group = groups.get(key) || { menu, sheet: { headers, rows: [] } }
+    group.sheet.rows.push({ row, cells: cells.filter((_, i) => i !== column) })
+    groups.set(key, group)
+  }
+
+  return { groups: [...groups.values()], blank_rows: blankRows }
+}
+
+/**
+ * Match menu column values to the business's menus: on slug first, then on a
+ * name only one menu has. Unmatched values are returned as errors.
+ */
+export function matchSheetMenus<M extends { id: string; name: string; slug: string }>(
+  values: string[],
+  menus: M[]
+): { matches: Map<string, M>; errors: string[] } {
+  const matches = new Map<string, M>()
+  const errors: string[] = []
+
+  for (const value of values) {
+    const key = value.toLowerCase()
+    const bySlug = menus.find(menu => menu.slug.toLowerCase() === key)
+    const byName = menus.filter(menu => menu.name.trim().toLowerCase() === key)
+
+    if (bySlug) {
+      matches.set(value, bySlug)
+    } else if (byName.length === 1) {
+      matches.set(value, byName[0])
+    } else if (byName.length > 1) {
+      errors.push(`Menu "${value}" matches ${byName.length} menus by name; use the menu's slug`)
+    } else {
+      errors.push(`Menu "${value}" is not a menu of this business`)
+    }
+  }
+
+  return { matches, errors }
+}
+
+/**
+ * Validate a column mapping ({ field: column header })
+ */
+export function validateColumnMapping(input: unknown): { values: ImportColumnMapping; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { values: {}, errors: ['mapping must be an object of { field: column header }'] }
+  }
+
+  const values: ImportColumnMapping = {}
+  const errors: string[] = []
+  const columns = new Map<string, string>()
+
+  for (const [field, column] of Object.entries(input)) {
+    if (!IMPORT_FIELDS.includes(field as ImportField)) {
+      errors.push(`mapping: unknown field "${field}". Allowed: ${IMPORT_FIELDS.join(', ')}`)
+      continue
+    }
+
+    if (typeof column !== 'string' || !column.trim()) {
+      errors.push(`mapping.${field} must be a column header`)
+      continue
+    }
+
+    const key = column.trim().toLowerCase()
+    if (columns.has(key)) {
+      errors.push(`mapping: column "${column}" is mapped to both ${columns.get(key)} and ${field}`)
+      continue
+    }
+
+    columns.set(key, field)
+    values[field as ImportField] = column.trim()
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Match fields to the sheet's columns: mapped fields first, then known header
+ * names for the remaining fields, then name:<language> and description:<language>
+ * translation columns. Mapped columns missing from the sheet are errors.
+ */
+export function resolveColumnMapping(headers: string[], mapping: ImportColumnMapping): ResolvedColumns {
+  const resolved: ImportColumnMapping = {}
+  const errors: string[] = []
+  const used = new Set<number>()
+
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping[field]
+    if (!column) continue
+
+    const index = headers.findIndex(header => header.toLowerCase() === column.toLowerCase())
+    if (index === -1) {
+      errors.push(`Column "${column}" (mapped to ${field}) is not in the file`)
+      continue
+    }
+
+    resolved[field] = headers[index]
+    used.add(index)
+  }
+
+  for (const field of IMPORT_FIELDS) {
+    if (resolved[field] || mapping[field]) continue
+
+    const index = headers.findIndex((header, i) => !used.has(i) && FIELD_ALIASES[field].includes(toHeaderKey(header)))
+    if (index !== -1) {
+      resolved[field] = headers[index]
+      used.add(index)
+    }
+  }
+
+  const idIndex = headers.findIndex((header, i) => !used.has(i) && toHeaderKey(header) === ID_COLUMN)
+  if (idIndex !== -1) used.add(idIndex)
+
+  const translations: TranslationColumn[] = []
+  headers.forEach((header, i) => {
+    const match = TRANSLATION_COLUMN.exec(header)
+    if (match && !used.has(i)) {
+      translations.push({ column: header, field: match[1].toLowerCase() as 'name' | 'description', language: match[2].toLowerCase() })
+      used.add(i)
+    }
+  })
+
+  if (!resolved.name && !resolved.sku) {
+    errors.push('The file needs a name or sku column')
+  }
+
+  return {
+    mapping: resolved,
+    id: idIndex !== -1 ? headers[idIndex] : null,
+    translations,
+    unmapped: headers.filter((header, i) => header && !used.has(i)),
+    errors
+  }
+}
+
+/**
+ * The business's saved column mapping (empty when none is saved)
+ */
+export async function getImportMapping(supabase: SupabaseClient, businessId: string): Promise<ImportColumnMapping> {
+  const { data } = await supabase
+    .from('item_import_mappings')
+    .select('mapping')
+    .eq('business_id', businessId)
+    .maybeSingle()
+
+  return (data?.mapping as ImportColumnMapping) || {}
+}
+
+/**
+ * Save the column mapping used for the business's next imports
+ */
+export async function saveImportMapping(
+  supabase: SupabaseClient,
+  businessId: string,
+  mapping: ImportColumnMapping,
+  userId: string
+): Promise<{ mapping: ImportMapping | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from('item_import_mappings')
+    .upsert({
+      business_id: businessId,
+      mapping,
+      updated_by: userId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'business_id' })
+    .select()
+    .single()
+
+  return { mapping: data as ImportMapping | null, error: error?.message ?? null }
+}
+
+/**
+ * Work out per row what an import would create, update, skip or reject. Rows
+ * are matched to the menu's items on their id column (as exports write it),
+ * else on sku; unmatched rows are created. Rows matching a library item placed
+ * on the menu are skipped: they are imported through the item's own menu.
+ * Translation columns for languages the business does not have are skipped.
+ */
+export async function planImport(
+  supabase: SupabaseClient,
+  menu: { id: string; business_id: string },
+  sheet: ImportSheet,
+  columns: Omit<ResolvedColumns, 'errors'>
+): Promise<ImportPlan> {
+  const { data: languages } = columns.translations.length > 0
+    ? await supabase
+        .from('languages')
+        .select('language_code')
+        .eq('business_id', menu.business_id)
+        .eq('is_active', true)
+    : { data: [] as Array<{ language_code: string }> }
+
+  const available = new Set((languages || []).map(language => language.language_code.toLowerCase()))
+  const translations = columns.translations.filter(({ language }) => available.has(language))
+  const unmapped = [
+    ...columns.unmapped,
+    ...columns.translations.filter(({ language }) => !available.has(language)).map(({ column }) => column)
+  ]
+
+  const fieldIndexes = Object.fromEntries(
+    Object.entries(columns.mapping).map(([field, column]) => [field, sheet.headers.indexOf(column)])
+  ) as Partial<Record<ImportField, number>>
+  const translationIndexes = translations.map(translation => ({
+    ...translation,
+    index: sheet.headers.indexOf(translation.column)
+  }))
+
+  const idIndex = columns.id ? sheet.headers.indexOf(columns.id) : -1
+
+  const parsed = sheet.rows.map(({ row, cells }) => ({
+    row,
+    id: idIndex !== -1 ? (cells[idIndex] ?? '').trim() || null : null,
+    ...parseImportRow(cells, fieldIndexes, translationIndexes)
+  }))
+
+  const [menuItems, { data: categories }] = await Promise.all([
+    getMenuItems(supabase, menu.id),
+    supabase
+      .from('categories')
+      .select('id, name')
+      .eq('business_id', menu.business_id)
+      .is('deleted_at', null)
+  ])
+
+  // Placed items first, so an own item wins a sku both have
+  const itemsById = new Map(menuItems.map(item => [item.id, item]))
+  const itemsBySku = new Map(menuItems
+    .filter(item => item.sku)
+    .sort((a, b) => Number(!!b.placement_id) - Number(!!a.placement_id))
+    .map(item => [item.sku!, item]))
+  const categoryIds = new Map((categories || []).map(category => [category.name.trim().toLowerCase(), category.id]))
+  const newCategories = new Map<string, string>()
+  const skuRows = new Map<string, number>()
+  const idRows = new Map<string, number>()
+
+  const rows: ImportRowResult[] = parsed.map(({ row, id, values, errors }) => {
+    const item = (id ? itemsById.get(id) : undefined) ?? (values.sku ? itemsBySku.get(values.sku) : undefined)
+    const itemId = item?.id ?? null
+    const rowErrors = [...errors]
+
+    if (id) {
+      const firstRow = idRows.get(id)
+      if (firstRow !== undefined) {
+        rowErrors.push(`id "${id}" is already used on row ${firstRow}`)
+      } else {
+        idRows.set(id, row)
+      }
+    }
+
+    if (values.sku) {
+      const firstRow = skuRows.get(values.sku)
+      if (firstRow !== undefined) {
+        rowErrors.push(`sku "${values.sku}" is already used on row ${firstRow}`)
+      } else {
+        skuRows.set(values.sku, row)
+      }
+    }
+
+    if (!itemId) {
+      if (!values.name) rowErrors.push('name is required for new items')
+      if (values.price === undefined && !errors.some(error => error.startsWith('price '))) {
+        rowErrors.push('price is required for new items')
+      }
+    } else if (!item!.placement_id && Object.keys(values).every(field => field === 'sku')) {
+      rowErrors.push('Nothing to update')
+    }
+
+    const action = rowErrors.length > 0 ? 'reject' : item?.placement_id ? 'skip' : itemId ? 'update' : 'create'
+
+    if ((action === 'create' || action === 'update') && values.category) {
+      const key = values.category.toLowerCase()
+      if (!categoryIds.has(key) && !newCategories.has(key)) {
+        newCategories.set(key, values.category)
+      }
+    }
+
+    return {
+      row,
+      action,
+      sku: values.sku ?? null,
+      name: values.name ?? null,
+      item_id: itemId,
+      errors: rowErrors,
+      values
+    }
+  })
+
+  return {
+    menuId: menu.id,
+    businessId: menu.business_id,
+    categoryIds,
+    report: {
+      dry_run: true,
+      mapping: columns.mapping,
+      unmapped_columns: unmapped,
+      categories_created: [...newCategories.values()],
+      summary: {
+        rows: rows.length,
+        created: rows.filter(row => row.action === 'create').length,
+        updated: rows.filter(row => row.action === 'update').length,
+        skipped: rows.filter(row => row.action === 'skip').length,
+        rejected: rows.filter(row => row.action === 'reject').length
+      },
+      rows
+    }
+  }
+}
+
+/**
+ * Create the missing categories, insert new items and update matched ones.
+ * Rows whose write fails are reported as rejected.
+ */
+export async function applyImport(supabase: SupabaseClient, plan: ImportPlan): Promise<ImportReport> {
+  const categoryIds = new Map(plan.categoryIds)
+  const categoriesCreated: string[] = []
+
+  if (plan.report.categories_created.length > 0) {
+    const { data: lastCategory } = await supabase
+      .from('categories')
+      .select('display_order')
+      .eq('business_id', plan.businessId)
+      .order('display_order', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: inserted } = await supabase
+      .from('categories')
+      .insert(plan.report.categories_created.map((name, i) => ({
+        business_id: plan.businessId,
+        name,
+        display_order: (lastCategory?.display_order ?? 0) + i + 1,
+        is_active: true
+      })))
+      .select('id, name')
+
+    for (const category of inserted || []) {
+      categoryIds.set(category.name.trim().toLowerCase(), category.id)
+      categoriesCreated.push(category.name)
+    }
+  }
+
+  const rows = plan.report.rows.map(row => ({ ...row, errors: [...row.errors] }))
+  const categoryFor = (values: ImportValues) => values.category
+    ? categoryIds.get(values.category.toLowerCase()) ?? null
+    : null
+
+  const reject = (row: ImportRowResult, message: string) => {
+    row.action = 'reject'
+    row.errors.push(message)
+  }
+
+  for (const row of rows.filter(row => row.action === 'create' || row.action === 'update')) {
+    if (row.values.category && !categoryFor(row.values)) {
+      reject(row, `Failed to create category "${row.values.category}"`)
+    }
+  }
+
+  // 1. New items (returned in insert order)
+  const creates = rows.filter(row => row.action === 'create')
+
+  if (creates.length > 0) {
+    const nextSortOrder = await getNextSortOrder(supabase, plan.menuId)
+
+    const { data: created, error } = await supabase
+      .from('menu_items')
+      .insert(creates.map(({ values }, i) => ({
+        menu_id: plan.menuId,
+        name: values.name,
+        description: values.description ?? null,
+        price: values.price,
+        category_id: categoryFor(values),
+        subcategory: values.subcategory ?? null,
+        image_url: values.image_url ?? null,
+        gallery_images: values.gallery_images ?? null,
+        video_url: values.video_url ?? null,
+        is_available: values.is_available !== false,
+        is_featured: values.is_featured ?? false,
+        available_quantity: values.available_quantity ?? null,
+        prep_time_minutes: values.prep_time_minutes ?? null,
+        compare_at_price: values.compare_at_price ?? null,
+        price_variants: values.price_variants ?? null,
+        portion_size: values.portion_size ?? null,
+        spice_level: values.spice_level ?? null,
+        allergens: values.allergens ?? [],
+        dietary_flags: values.dietary_flags ?? [],
+        tags: values.tags ?? [],
+        sort_order: values.sort_order ?? nextSortOrder + i,
+        ingredients: values.ingredients ?? null,
+        ingredient_list: values.ingredient_list ?? [],
+        preparation_notes: values.preparation_notes ?? null,
+        nutritional_info: values.nutritional_info ?? null,
+        schedule: values.schedule ?? null,
+        schedule_display: values.schedule_display ?? 'hide',
+        sku: values.sku ?? null,
+        source: 'import'
+      })))
+      .select('id')
+
+    creates.forEach((row, i) => {
+      if (error || !created) {
+        reject(row, error?.message || 'Failed to create item')
+      } else {
+        row.item_id = created[i].id
+      }
+    })
+  }
+
+  // 2. Matched items: only the columns filled in on the row change
+  for (const row of rows.filter(row => row.action === 'update')) {
+    const { category, ...values } = row.values
+    delete values.translations
+
+    const { error } = await supabase
+      .from('menu_items')
+      .update({
+        ...values,
+        ...(category ? { category_id: categoryFor(row.values) } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', row.item_id!)
+
+    if (error) {
+      reject(row, error.message)
+    }
+  }
+
+  // 3. Translations of written items
+  const translated = rows.filter(row => (row.action === 'create' || row.action === 'update') && row.item_id && row.values.translations)
+
+  if (translated.length > 0) {
+    const { error } = await supabase
+      .from('menu_item_translations')
+      .upsert(translated.flatMap(row =>
+        Object.entries(row.values.translations!).map(([language, translation]) => ({
+          menu_item_id: row.item_id!,
+          language_code: language,
+          name: translation.name,
+          description: translation.description
+        }))
+      ), { onConflict: 'menu_item_id,language_code' })
+
+    if (error) {
+      translated.forEach(row => row.errors.push(`Translations were not saved: ${error.message}`))
+    }
+  }
+
+  return {
+    ...plan.report,
+    dry_run: false,
+    categories_created: categoriesCreated,
+    summary: {
+      rows: rows.length,
+      created: rows.filter(row => row.action === 'create').length,
+      updated: rows.filter(row => row.action === 'update').length,
+      skipped: rows.filter(row => row.action === 'skip').length,
+      rejected: rows.filter(row => row.action === 'reject').length
+    },
+    rows
+  }
+}
+
+// Convert one row's cells; empty cells are left out
+function parseImportRow(
+  cells: string[],
+  columns: Partial<Record<ImportField, number>>,
+  translationColumns: Array<TranslationColumn & { index: number }>
+): { values: ImportValues; errors: string[] } {
+  const values: Record<string, unknown> = {}
+  const errors: string[] = []
+
+  for (const [field, index] of Object.entries(columns) as Array<[ImportField, number]>) {
+    const cell = (cells[index] ?? '').trim()
+    if (!cell) continue
+
+    if (TEXT_FIELDS.includes(field)) {
+      values[field] = cell
+    } else if (PRICE_FIELDS.includes(field)) {
+      const amount = parseAmount(cell)
+      if (amount === null || amount < 0) {
+        errors.push(`${field} "${cell}" is not a valid price (write e.g. 1250.00 or 1.250,00)`)
+      } else {
+        values[field] = amount
+      }
+    } else if (INTEGER_FIELDS.includes(field)) {
+      const number = Number(cell)
+      if (!Number.isInteger(number) || number < 0) {
+        errors.push(`${field} "${cell}" must be a whole number`)
+      } else {
+        values[field] = number
+      }
+    } else if (BOOLEAN_FIELDS.includes(field)) {
+      const flag = parseBoolean(cell)
+      if (flag === null) {
+        errors.push(`${field} "${cell}" must be yes or no`)
+      } else {
+        values[field] = flag
+      }
+    } else if (LIST_FIELDS.includes(field)) {
+      const list = parseList(cell)
+      if (list === null) {
+        errors.push(`${field} must be a comma-separated list or a JSON array of strings`)
+      } else {
+        values[field] = list
+      }
+    } else if (JSON_FIELDS.includes(field)) {
+      try {
+        values[field] = JSON.parse(cell)
+      } catch {
+        errors.push(`${field} must be valid JSON`)
+      }
+    }
+  }
+
+  const taxonomy = validateItemTaxonomy(values)
+  errors.push(...taxonomy.errors)
+  Object.assign(values, taxonomy.values)
+
+  if (values.price_variants !== undefined) {
+    const variants = validatePriceVariants(values.price_variants)
+    errors.push(...variants.errors)
+    values.price_variants = variants.values
+  }
+
+  if (values.nutritional_info !== undefined &&
+      (typeof values.nutritional_info !== 'object' || Array.isArray(values.nutritional_info))) {
+    errors.push('nutritional_info must be a JSON object')
+  }
+
+  const schedule = validateItemSchedule(values)
+  errors.push(...schedule.errors)
+  Object.assign(values, schedule.values)
+
+  const translations: Record<string, ItemTranslationValues> = {}
+  for (const { index, language, field } of translationColumns) {
+    const cell = (cells[index] ?? '').trim()
+    if (!cell) continue
+
+    translations[language] = { ...(translations[language] || { name: '', description: null }), [field]: cell }
+  }
+
+  for (const [language, translation] of Object.entries(translations)) {
+    if (!translation.name) {
+      errors.push(`name:${language} is required with description:${language}`)
+    }
+  }
+
+  if (Object.keys(translations).length > 0) {
+    values.translations = translations
+  }
+
+  return { values: values as ImportValues, errors }
+}
+
+// "a, b; c", "a | b" or a JSON array of strings
+function parseList(cell: string): string[] | null {
+  if (cell.startsWith('[')) {
+    try {
+      const list = JSON.parse(cell)
+      return Array.isArray(list) && list.every(value => typeof value === 'string') ? list : null
+    } catch {
+      return null
+    }
+  }
+
+  return cell.split(/[,;|]/).map(value => value.trim()).filter(Boolean)
+}
+
+// "GHS 1,250.00", "1.250,00", "12,50" or "12.5" -> number rounded to cents.
+// Null when the separators fit neither style (e.g. "1.250.00", "1,25.0") or
+// either ("1.250" is 1.25 or 1250).
+function parseAmount(cell: string): number | null {
+  let amount = cell.replace(/[^\d.,-]/g, '')
+
+  if (/^-?\d{1,3}\.\d{3}$/.test(amount)) {
+    return null
+  } else if (/^-?\d+,\d{1,2}$/.test(amount) || /^-?\d{1,3}(\.\d{3})+,\d{1,2}$/.test(amount)) {
+    // Decimal comma; dots group thousands
+    amount = amount.replace(/\./g, '').replace(',', '.')
+  } else if (/^-?(\d+(\.\d*)?|\.\d+)$/.test(amount) || /^-?\d{1,3}(,\d{3})+(\.\d*)?$/.test(amount)) {
+    // Decimal point; commas group thousands
+    amount = amount.replace(/,/g, '')
+  } else {
+    return null
+  }
+
+  const number = Number(amount)
+  return amount && isFinite(number) ? Math.round(number * 100) / 100 : null
+}
+
+function parseBoolean(cell: string): boolean | null {
+  const value = cell.toLowerCase()
+  if (['yes', 'y', 'true', '1'].includes(value)) return true
+  if (['no', 'n', 'false', '0'].includes(value)) return false
+  return null
+}
+
+// Drop the ' that exports put before text starting with = + - or @
+function unescapeFormula(cell: string): string {
+  return /^'[=+\-@]/.test(cell) ? cell.slice(1) : cell
+}
+
+function toHeaderKey(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+// A JSON menu export, converted to the spreadsheet rows it would export as
+function readJsonExport(text: string): { sheet: ImportSheet | null; error: string | null } {
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch {
+    return { sheet: null, error: 'The file is not valid JSON' }
+  }
+
+  const { table, error } = readExportDocument(document)
+  if (error || !table) {
+    return { sheet: null, error }
+  }
+
+  return {
+    sheet: {
+      headers: table.headers,
+      rows: table.rows.map((cells, i) => ({ row: i + 2, cells: cells.map(cell => unescapeFormula(formatCell(cell))) }))
+    },
+    error: null
+  }
+}
+
+// RFC 4180 with quoted fields; semicolon-separated files are detected from the header line
+function parseCsv(text: string): Array<{ row: number; cells: string[] }> {
+  const source = text.replace(/^\uFEFF/, '')
+  const firstLine = source.slice(0, source.search(/\r?\n|$/))
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ','
+
+  const rows: Array<{ row: number; cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      cells.push(cell)
+      rows.push({ row: rows.length + 1, cells })
+      cells = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || cells.length > 0) {
+    cells.push(cell)
+    rows.push({ row: rows.length + 1, cells })
+  }
+
+  return rows
+}
+
+// First worksheet of an XLSX workbook, keeping the sheet's row numbers.
+// Parts are inflated into buffers of their declared size, so capping the
+// declared sizes bounds memory.
+function parseXlsx(bytes: Uint8Array): Array<{ row: number; cells: string[] }> {
+  let unzippedSize = 0
+
+  const files = unzipSync(bytes, {
+    filter: file => {
+      const wanted = file.name === 'xl/workbook.xml' ||
+        file.name === 'xl/_rels/workbook.xml.rels' ||
+        file.name === 'xl/sharedStrings.xml' ||
+        file.name.startsWith('xl/worksheets/')
+      if (!wanted) return false
+
+      unzippedSize += file.originalSize
+      if (file.originalSize > MAX_XLSX_PART_SIZE || unzippedSize > MAX_XLSX_UNZIPPED_SIZE) {
+        throw new Error(XLSX_TOO_LARGE)
+      }
+      return true
+    }
+  })
+  const read = (name: string) => files[name] ? strFromU8(files[name]) : ''
+
+  // The first <sheet> of the workbook, resolved through its relationship
+  const sheetId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(read('xl/workbook.xml'))?.[1]
+  const target = [...read('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b[^>]*>/g)]
+    .map(([tag]) => ({ id: attribute(tag, 'Id'), target: attribute(tag, 'Target') }))
+    .find(relationship => relationship.id === sheetId)?.target
+  const sheetPath = target
+    ? target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    : 'xl/worksheets/sheet1.xml'
+
+  if (!files[sheetPath]) {
+    throw new Error('Worksheet not found')
+  }
+
+  const sharedStrings = [...read('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(([, item]) => textOf(item))
+
+  const rows: Array<{ row: number; cells: string[] }> = []
+
+  for (const [, rowAttributes, content = ''] of read(sheetPath).matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = []
+
+    for (const [, cellAttributes, cellContent = ''] of content.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellAttributes, 'r')
+      const index = reference ? columnIndex(reference) : cells.length
+      const type = attribute(cellAttributes, 't')
+      const value = unescapeXml(/<v>([\s\S]*?)<\/v>/.exec(cellContent)?.[1] ?? '')
+
+      while (cells.length < index) cells.push('')
+      cells[index] = type === 's' ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? textOf(cellContent)
+        : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+        : type === 'e' ? ''
+        : value
+    }
+
+    rows.push({ row: Number(attribute(rowAttributes, 'r')) || rows.length + 1, cells })
+  }
+
+  return rows
+}
+
+// Text of a string item, joining rich text runs
+function textOf(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+    .map(([, text]) => unescapeXml(text))
+    .join('')
+}
+
+function attribute(tag: string, name: string): string | null {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(tag)?.[1] ?? null
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? 'A'
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,498 @@
+// lib/menu-pdf.ts
+import { readFileSync } from 'fs'
+import path from 'path'
+import { jsPDF } from 'jspdf'
+import type { TaxonomyLabel } from './dietary-taxonomy'
+import { fetchStorageImage } from './storage-images'
+import type { Category, MenuItem } from '@/types/api'
+
+export const PDF_PAGE_SIZES = ['a4', 'a5'] as const
+export type PdfPageSize = typeof PDF_PAGE_SIZES[number]
+
+type Rgb = [number, number, number]
+type FontStyle = 'normal' | 'bold' | 'italic'
+
+interface PdfStyle {
+  font: 'helvetica' | 'times'
+  background: Rgb | null
+  text: Rgb
+  muted: Rgb
+  headingAlign: 'left' | 'center'
+  uppercaseHeadings: boolean
+  categoryBanner: boolean  // Category names on a bar in the template colour
+  dottedLeaders: boolean   // Dots between item name and price
+}
+
+// Print counterpart of each public menu template
+const PDF_STYLES: Record<string, PdfStyle> = {
+  'modern-minimal': { font: 'helvetica', background: null, text: [33, 37, 41], muted: [108, 117, 125], headingAlign: 'left', uppercaseHeadings: true, categoryBanner: false, dottedLeaders: false },
+  'classic-elegant': { font: 'times', background: [253, 251, 247], text: [44, 36, 22], muted: [120, 106, 86], headingAlign: 'center', uppercaseHeadings: false, categoryBanner: false, dottedLeaders: true },
+  'minimalist-dark': { font: 'helvetica', background: [18, 18, 18], text: [240, 240, 240], muted: [160, 160, 160], headingAlign: 'left', uppercaseHeadings: true, categoryBanner: false, dottedLeaders: false },
+  'rustic-organic': { font: 'times', background: [245, 239, 230], text: [74, 55, 40], muted: [128, 106, 86], headingAlign: 'center', uppercaseHeadings: false, categoryBanner: false, dottedLeaders: true },
+  'vibrant-playful': { font: 'helvetica', background: null, text: [33, 33, 33], muted: [100, 100, 100], headingAlign: 'left', uppercaseHeadings: false, categoryBanner: true, dottedLeaders: false }
+}
+
+const DEFAULT_PRIMARY_COLOR = '#ffc107'
+
+interface PdfPhrases {
+  scan: string
+  contains: string
+  other: string
+}
+
+// Fixed wording on the printed menu; unsupported languages fall back to English
+const PDF_PHRASES: Record<string, PdfPhrases> = {
+  en: { scan: 'Scan to view our menu', contains: 'Contains', other: 'Other' },
+  fr: { scan: 'Scannez pour voir notre menu', contains: 'Contient', other: 'Autres' },
+  es: { scan: 'Escanee para ver nuestro menú', contains: 'Contiene', other: 'Otros' },
+  pt: { scan: 'Leia para ver o nosso menu', contains: 'Contém', other: 'Outros' },
+  de: { scan: 'Scannen, um unsere Speisekarte zu sehen', contains: 'Enthält', other: 'Weiteres' },
+  it: { scan: 'Scansiona per vedere il nostro menu', contains: 'Contiene', other: 'Altro' }
+}
+
+export interface PdfImage {
+  data: Uint8Array
+  format: 'PNG' | 'JPEG'
+}
+
+export type PdfMenuItem = Pick<MenuItem, 'id' | 'category_id' | 'name' | 'description' | 'price' | 'price_variants'> & {
+  dietary_labels: TaxonomyLabel[]
+  allergen_labels: TaxonomyLabel[]
+}
+
+export interface PdfMenuOptions {
+  business: {
+    name: string
+    currency: string
+    address: string | null
+    phone: string | null
+    logo: PdfImage | null
+  }
+  menu: { name: string; description: string | null }
+  categories: Array<Pick<Category, 'id' | 'name' | 'description'>>
+  items: PdfMenuItem[]
+  template: { template_name: string; primary_color: string | null }
+  pageSize: PdfPageSize
+  language: string
+  qr: PdfImage
+}
+
+/**
+ * Load a PNG or JPEG from the app's storage (e.g. the business logo) for
+ * embedding; null when it is stored elsewhere, cannot be fetched or is in
+ * another format
+ */
+export async function loadPdfImage(url: string | null): Promise<PdfImage | null> {
+  if (!url) return null
+
+  const data = await fetchStorageImage(url)
+  if (!data) return null
+
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return { data, format: 'PNG' }
+  if (data[0] === 0xff && data[1] === 0xd8) return { data, format: 'JPEG' }
+  return null
+}
+
+/**
+ * Letters in the menu's text that the PDF fonts cannot show (e.g. Arabic,
+ * Chinese or Hebrew, or the rare Latin and Cyrillic letters the template's
+ * font lacks), deduplicated. Render only when empty: those letters would be
+ * left out of the printed menu. Symbols such as emoji are just dropped.
+ */
+export function findUnprintableCharacters(options: PdfMenuOptions): string[] {
+  const style = PDF_STYLES[options.template.template_name] || PDF_STYLES['modern-minimal']
+  const characters = new Set<string>()
+
+  for (const text of getMenuTexts(options)) {
+    for (const character of text) {
+      if (!/\p{L}/u.test(character) || toPdfText(character)) continue
+      if (!PRINTABLE_SCRIPTS.test(character) || !hasGlyph(UNICODE_FONTS[style.font].normal, character)) {
+        characters.add(character)
+      }
+    }
+  }
+
+  return [...characters]
+}
+
+/**
+ * Render a printable menu: a header with the logo, categories with their items,
+ * prices, variants and dietary badges over as many pages as needed, and a back
+ * page with the menu's QR code. Styled after the business's template.
+ */
+export function renderMenuPdf(options: PdfMenuOptions): ArrayBuffer {
+  const style = PDF_STYLES[options.template.template_name] || PDF_STYLES['modern-minimal']
+  const phrases = PDF_PHRASES[options.language.toLowerCase().split('-')[0]] || PDF_PHRASES.en
+  const pageBackground: Rgb = style.background || [255, 255, 255]
+  const accent = parseHexColor(options.template.primary_color) || parseHexColor(DEFAULT_PRIMARY_COLOR)!
+  const accentText = contrast(accent, pageBackground) >= 2.5 ? accent : style.text
+
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: options.pageSize, compress: true })
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const scale = options.pageSize === 'a4' ? 1 : 0.8
+  const margin = 18 * scale
+  const contentWidth = pageWidth - margin * 2
+  const bottom = pageHeight - margin - 6 * scale  // Room for the page number
+  const lineHeight = (size: number) => size * 0.3528 * 1.3
+
+  let y = margin
+
+  const paintBackground = () => {
+    if (!style.background) return
+    pdf.setFillColor(...style.background)
+    pdf.rect(0, 0, pageWidth, pageHeight, 'F')
+  }
+
+  const newPage = () => {
+    pdf.addPage()
+    paintBackground()
+    y = margin
+  }
+
+  // Built-in fonts while every letter fits Latin-1, the embedded Unicode font otherwise
+  const unicode = getMenuTexts(options).some(text => [...text].some(character => /\p{L}/u.test(character) && !toPdfText(character)))
+  const unicodeFonts = UNICODE_FONTS[style.font]
+  const fontFamily = unicode ? unicodeFonts.normal : style.font
+
+  if (unicode) {
+    for (const fontStyle of ['normal', 'bold', 'italic'] as const) {
+      const font = unicodeFonts[fontStyle]
+      pdf.addFileToVFS(font, loadFontFile(font))
+      pdf.addFont(font, fontFamily, fontStyle)
+    }
+  }
+
+  const pdfText = (text: string) => unicode
+    ? [...text].filter(character => character === '\n' || hasGlyph(unicodeFonts.normal, character)).join('')
+    : toPdfText(text)
+
+  const setFont = (size: number, fontStyle: FontStyle, color: Rgb) => {
+    pdf.setFont(fontFamily, fontStyle)
+    pdf.setFontSize(size * scale)
+    pdf.setTextColor(...color)
+  }
+
+  const price = (amount: number) => `${options.business.currency} ${amount.toFixed(2)}`
+
+  // Lay out one item from `top`; returns its height and only draws when asked
+  const layoutItem = (item: PdfMenuItem, top: number, draw: boolean): number => {
+    let cursor = top
+    const variants = item.price_variants || []
+    const priceText = variants.length > 0 ? '' : price(item.price)
+
+    setFont(11, 'bold', style.text)
+    const priceWidth = priceText ? pdf.getTextWidth(priceText) + 4 * scale : 0
+    const nameLines: string[] = pdf.splitTextToSize(pdfText(item.name), contentWidth - priceWidth)
+    const nameHeight = lineHeight(11 * scale)
+
+    if (draw) {
+      pdf.text(nameLines, margin, cursor + nameHeight * 0.75)
+
+      if (priceText) {
+        pdf.text(priceText, pageWidth - margin, cursor + nameHeight * 0.75, { align: 'right' })
+
+        if (style.dottedLeaders) {
+          const lastLineEnd = margin + pdf.getTextWidth(nameLines[nameLines.length - 1]) + 2 * scale
+          const leaderEnd = pageWidth - margin - priceWidth + 2 * scale
+          const baseline = cursor + nameHeight * (nameLines.length - 1) + nameHeight * 0.75
+          if (leaderEnd > lastLineEnd) {
+            pdf.setDrawColor(...style.muted)
+            pdf.setLineDashPattern([0.3, 1.2], 0)
+            pdf.line(lastLineEnd, baseline, leaderEnd, baseline)
+            pdf.setLineDashPattern([], 0)
+          }
+        }
+      }
+    }
+    cursor += nameHeight * nameLines.length
+
+    if (variants.length > 0) {
+      setFont(10, 'normal', accentText)
+      const text = variants.map(variant => `${pdfText(variant.name)} ${price(variant.price)}`).join('  ·  ')
+      const lines: string[] = pdf.splitTextToSize(text, contentWidth)
+      if (draw) pdf.text(lines, margin, cursor + lineHeight(10 * scale) * 0.75)
+      cursor += lineHeight(10 * scale) * lines.length
+    }
+
+    if (item.description) {
+      setFont(9, 'normal', style.muted)
+      const lines: string[] = pdf.splitTextToSize(pdfText(item.description), contentWidth)
+      if (draw) pdf.text(lines, margin, cursor + lineHeight(9 * scale) * 0.75)
+      cursor += lineHeight(9 * scale) * lines.length
+    }
+
+    if (item.dietary_labels.length > 0) {
+      setFont(7, 'bold', style.text)
+      const badgeHeight = lineHeight(7 * scale) + 1.2 * scale
+      const padding = 1.6 * scale
+      let x = margin
+      cursor += 1 * scale
+
+      for (const label of item.dietary_labels) {
+        const text = pdfText(label.label)
+        const width = pdf.getTextWidth(text) + padding * 2
+
+        if (x + width > pageWidth - margin && x > margin) {
+          x = margin
+          cursor += badgeHeight + 1 * scale
+        }
+
+        if (draw) {
+          pdf.setDrawColor(...accent)
+          pdf.roundedRect(x, cursor, width, badgeHeight, badgeHeight / 2, badgeHeight / 2, 'S')
+          pdf.text(text, x + padding, cursor + badgeHeight * 0.7)
+        }
+        x += width + 1.5 * scale
+      }
+      cursor += badgeHeight
+    }
+
+    if (item.allergen_labels.length > 0) {
+      setFont(8, 'italic', style.muted)
+      const text = `${phrases.contains}: ${item.allergen_labels.map(label => pdfText(label.label)).join(', ')}`
+      const lines: string[] = pdf.splitTextToSize(text, contentWidth)
+      cursor += 0.8 * scale
+      if (draw) pdf.text(lines, margin, cursor + lineHeight(8 * scale) * 0.75)
+      cursor += lineHeight(8 * scale) * lines.length
+    }
+
+    return cursor - top + 4.5 * scale
+  }
+
+  // Category heading; returns its height and only draws when asked
+  const layoutHeading = (category: Pick<Category, 'name' | 'description'>, top: number, draw: boolean): number => {
+    let cursor = top
+    const name = pdfText(style.uppercaseHeadings ? category.name.toUpperCase() : category.name)
+    const x = style.headingAlign === 'center' ? pageWidth / 2 : margin
+
+    if (style.categoryBanner) {
+      const height = lineHeight(14 * scale) + 3 * scale
+      if (draw) {
+        pdf.setFillColor(...accent)
+        pdf.roundedRect(margin, cursor, contentWidth, height, 2 * scale, 2 * scale, 'F')
+        setFont(14, 'bold', contrast(accent, [255, 255, 255]) >= 2.5 ? [255, 255, 255] : [33, 33, 33])
+        pdf.text(name, style.headingAlign === 'center' ? x : margin + 3 * scale, cursor + height * 0.68, { align: style.headingAlign })
+      }
+      cursor += height + 3 * scale
+    } else {
+      setFont(15, 'bold', accentText)
+      if (draw) pdf.text(name, x, cursor + lineHeight(15 * scale) * 0.75, { align: style.headingAlign })
+      cursor += lineHeight(15 * scale)
+
+      if (draw) {
+        pdf.setDrawColor(...accent)
+        pdf.setLineWidth(0.4)
+        const lineWidth = style.headingAlign === 'center' ? contentWidth / 4 : contentWidth
+        const start = style.headingAlign === 'center' ? (pageWidth - lineWidth) / 2 : margin
+        pdf.line(start, cursor + 0.5 * scale, start + lineWidth, cursor + 0.5 * scale)
+      }
+      cursor += 3 * scale
+    }
+
+    if (category.description) {
+      setFont(9, 'italic', style.muted)
+      const lines: string[] = pdf.splitTextToSize(pdfText(category.description), contentWidth)
+      if (draw) pdf.text(lines, x, cursor + lineHeight(9 * scale) * 0.75, { align: style.headingAlign })
+      cursor += lineHeight(9 * scale) * lines.length + 2 * scale
+    }
+
+    return cursor - top + 1.5 * scale
+  }
+
+  // 1. Header
+  paintBackground()
+
+  if (options.business.logo) {
+    const properties = pdf.getImageProperties(options.business.logo.data)
+    const maxHeight = 24 * scale
+    const maxWidth = 50 * scale
+    const ratio = Math.min(maxWidth / properties.width, maxHeight / properties.height)
+    const width = properties.width * ratio
+    const height = properties.height * ratio
+
+    pdf.addImage(options.business.logo.data, options.business.logo.format, (pageWidth - width) / 2, y, width, height)
+    y += height + 5 * scale
+  }
+
+  setFont(24, 'bold', style.text)
+  const businessLines: string[] = pdf.splitTextToSize(pdfText(options.business.name), contentWidth)
+  pdf.text(businessLines, pageWidth / 2, y + lineHeight(24 * scale) * 0.75, { align: 'center' })
+  y += lineHeight(24 * scale) * businessLines.length
+
+  setFont(13, 'normal', accentText)
+  pdf.text(pdfText(options.menu.name), pageWidth / 2, y + lineHeight(13 * scale) * 0.75, { align: 'center' })
+  y += lineHeight(13 * scale)
+
+  if (options.menu.description) {
+    setFont(9, 'italic', style.muted)
+    const lines: string[] = pdf.splitTextToSize(pdfText(options.menu.description), contentWidth * 0.8)
+    pdf.text(lines, pageWidth / 2, y + lineHeight(9 * scale) * 0.75, { align: 'center' })
+    y += lineHeight(9 * scale) * lines.length
+  }
+
+  y += 8 * scale
+
+  // 2. Categories in order, then items without a (visible) category
+  const categoryIds = new Set(options.categories.map(category => category.id))
+  const sections = [
+    ...options.categories.map(category => ({
+      category,
+      items: options.items.filter(item => item.category_id === category.id)
+    })),
+    {
+      category: { name: phrases.other, description: null },
+      items: options.items.filter(item => !item.category_id || !categoryIds.has(item.category_id))
+    }
+  ].filter(section => section.items.length > 0)
+
+  for (const section of sections) {
+    // Keep each heading with its first item
+    const headingHeight = layoutHeading(section.category, y, false)
+    if (y + headingHeight + layoutItem(section.items[0], 0, false) > bottom) {
+      newPage()
+    }
+
+    y += layoutHeading(section.category, y, true)
+
+    for (const item of section.items) {
+      if (y + layoutItem(item, 0, false) > bottom) {
+        newPage()
+      }
+      y += layoutItem(item, y, true)
+    }
+
+    y += 4 * scale
+  }
+
+  // 3. Page numbers on the menu pages
+  const menuPages = pdf.getNumberOfPages()
+  if (menuPages > 1) {
+    for (let page = 1; page <= menuPages; page++) {
+      pdf.setPage(page)
+      setFont(8, 'normal', style.muted)
+      pdf.text(`${page} / ${menuPages}`, pageWidth / 2, pageHeight - margin / 2, { align: 'center' })
+    }
+    pdf.setPage(menuPages)
+  }
+
+  // 4. Back page with the QR code
+  newPage()
+  const qrSize = Math.min(contentWidth, pageHeight) * 0.55
+  let backY = (pageHeight - qrSize) / 2 - 20 * scale
+
+  setFont(20, 'bold', style.text)
+  pdf.text(pdfText(options.business.name), pageWidth / 2, backY, { align: 'center' })
+  backY += 10 * scale
+
+  // White quiet zone so the code scans on dark paper styles too
+  pdf.setFillColor(255, 255, 255)
+  pdf.rect((pageWidth - qrSize) / 2 - 3, backY - 3, qrSize + 6, qrSize + 6, 'F')
+  pdf.addImage(options.qr.data, options.qr.format, (pageWidth - qrSize) / 2, backY, qrSize, qrSize)
+  backY += qrSize + 12 * scale
+
+  setFont(13, 'normal', accentText)
+  pdf.text(pdfText(phrases.scan), pageWidth / 2, backY, { align: 'center' })
+  backY += 10 * scale
+
+  setFont(9, 'normal', style.muted)
+  for (const line of [options.business.address, options.business.phone]) {
+    if (!line) continue
+    pdf.text(pdfText(line), pageWidth / 2, backY, { align: 'center' })
+    backY += lineHeight(9 * scale)
+  }
+
+  return pdf.output('arraybuffer')
+}
+
+// Every text printed from the menu's content
+function getMenuTexts(options: PdfMenuOptions): string[] {
+  const texts = [
+    options.business.name,
+    options.business.address,
+    options.business.phone,
+    options.menu.name,
+    options.menu.description,
+    ...options.categories.flatMap(category => [category.name, category.description]),
+    ...options.items.flatMap(item => [
+      item.name,
+      item.description,
+      ...(item.price_variants || []).map(variant => variant.name),
+      ...item.dietary_labels.map(label => label.label),
+      ...item.allergen_labels.map(label => label.label)
+    ])
+  ]
+
+  return texts.filter((text): text is string => !!text)
+}
+
+// Scripts the embedded fonts can print: jsPDF neither shapes (Arabic, Indic)
+// nor reorders right-to-left text, and DejaVu has no CJK glyphs
+const PRINTABLE_SCRIPTS = /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}]/u
+
+// DejaVu faces embedded (subset to the glyphs used) for text beyond Latin-1,
+// in place of Helvetica and Times
+const UNICODE_FONTS: Record<PdfStyle['font'], Record<FontStyle, string>> = {
+  helvetica: { normal: 'DejaVuSans', bold: 'DejaVuSans-Bold', italic: 'DejaVuSans-Oblique' },
+  times: { normal: 'DejaVuSerif', bold: 'DejaVuSerif-Bold', italic: 'DejaVuSerif-Italic' }
+}
+
+const fontFiles = new Map<string, string>()
+const fontGlyphs = new Map<string, (codePoint: number) => number>()
+
+// Base64 contents of a font's TTF file, as addFileToVFS takes them
+function loadFontFile(font: string): string {
+  let contents = fontFiles.get(font)
+  if (!contents) {
+    contents = readFileSync(path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf', `${font}.ttf`)).toString('base64')
+    fontFiles.set(font, contents)
+  }
+  return contents
+}
+
+function hasGlyph(font: string, character: string): boolean {
+  let characterToGlyph = fontGlyphs.get(font)
+  if (!characterToGlyph) {
+    const pdf = new jsPDF()
+    pdf.addFileToVFS(font, loadFontFile(font))
+    pdf.addFont(font, font, 'normal')
+    pdf.setFont(font, 'normal')
+    const metadata = pdf.getFont().metadata
+    characterToGlyph = (codePoint: number): number => metadata.characterToGlyph(codePoint)
+    fontGlyphs.set(font, characterToGlyph)
+  }
+  return characterToGlyph(character.codePointAt(0)!) !== 0
+}
+
+// The built-in PDF fonts cover Latin-1 only: map common typographic
+// characters to it and drop what it cannot show
+function toPdfText(text: string): string {
+  return text
+    .replace(/[\u2018\u2019\u201a]/g, '\'')
+    .replace(/[\u201c\u201d\u201e]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[^\n\x20-\x7e\xa0-\xff]/g, '')
+}
+
+function parseHexColor(value: string | null): Rgb | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(value?.trim() || '')
+  if (!match) return null
+
+  const hex = parseInt(match[1], 16)
+  return [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255]
+}
+
+// WCAG contrast ratio between two colours
+function contrast(a: Rgb, b: Rgb): number {
+  const luminance = (color: Rgb) => {
+    const [r, g, bl] = color.map(channel => {
+      const c = channel / 255
+      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+    })
+    return 0.2126 * r + 0.7152 * g + 0.0722 * bl
+  }
+
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (light + 0.05) / (dark + 0.05)
+}
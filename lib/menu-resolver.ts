@@ -0,0 +1,269 @@
+// lib/menu-resolver.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getAvailabilityMessage, getMenuSchedule, getNextClosing, getNextOpening, isMenuAvailable, type MenuScheduleFields, type TimeSchedule } from './time-utils'
+import { describeTransition, type ScheduleTransition } from './schedule-messages'
+
+// Columns every public route needs to resolve a menu
+export const SCHEDULED_MENU_COLUMNS = 'id, business_id, name, slug, description, location, is_time_restricted, available_from, available_to, days_of_week, start_date, end_date, active_dates, time_windows, recurrence_rules, priority, published_version_id'
+
+export interface ScheduledMenu extends MenuScheduleFields {
+  id: string
+  business_id: string
+  name: string
+  slug: string
+  description: string | null
+  location: string | null
+  published_version_id?: string | null
+}
+
+export interface MenuFallback {
+  requested_menu: ScheduledMenu
+  requested_availability: string
+  reason: 'same_location' | 'general_location'
+}
+
+export type MenuResolution =
+  | {
+      status: 'served'
+      menu: ScheduledMenu
+      fallback: MenuFallback | null
+    }
+  | {
+      status: 'closed'
+      reason: 'location_closed' | 'no_menus_available'
+      requested_menu: ScheduledMenu | null
+      location: string | null
+      availability: string | null
+    }
+
+// When the requested menu opens next and when the served one stops
+export interface MenuTransitions {
+  next_opening: ScheduleTransition | null
+  closes_at: ScheduleTransition | null
+}
+
+/**
+ * Get all active menus of a business in display order
+ */
+export async function getActiveMenus(
+  supabase: SupabaseClient,
+  businessId: string
+): Promise<ScheduledMenu[]> {
+  const { data: menus } = await supabase
+    .from('menus')
+    .select(SCHEDULED_MENU_COLUMNS)
+    .eq('business_id', businessId)
+    .eq('is_active', true)
+    .is('deleted_at', null)
+    .order('display_order', { ascending: true })
+
+  return (menus || []) as ScheduledMenu[]
+}
+
+/**
+ * Decide which menu a guest sees.
+ *
+ * With a requested menu:
+ *   1. Serve it if available
+ *   2. Else fall back to the highest priority available menu in the same location
+ *   3. Else, if it was time-restricted outside 'general' → location closed
+ *   4. Else fall back to the highest priority available 'general' menu
+ * Without one (business slug scans): highest priority available menu,
+ * preferring menus that are not time-restricted.
+ * Evaluated at `at` (defaults to now) so owners can preview any instant.
+ */
+export function resolveMenu(
+  menus: ScheduledMenu[],
+  requestedMenu: ScheduledMenu | null,
+  timezone: string | null,
+  at: Date = new Date()
+): MenuResolution {
+  const isAvailable = (menu: ScheduledMenu) => isMenuAvailable(getMenuSchedule(menu, timezone), at)
+  const byPriority = (a: ScheduledMenu, b: ScheduledMenu) => (b.priority || 0) - (a.priority || 0)
+
+  if (!requestedMenu) {
+    const availableMenu = [...menus]
+      .sort((a, b) => {
+        const priorityOrder = byPriority(a, b)
+        if (priorityOrder !== 0) return priorityOrder
+
+        // Then by time restriction (non-restricted first)
+        if (!a.is_time_restricted && b.is_time_restricted) return -1
+        if (a.is_time_restricted && !b.is_time_restricted) return 1
+        return 0
+      })
+      .find(isAvailable)
+
+    if (!availableMenu) {
+      return { status: 'closed', reason: 'no_menus_available', requested_menu: null, location: null, availability: null }
+    }
+
+    return { status: 'served', menu: availableMenu, fallback: null }
+  }
+
+  if (isAvailable(requestedMenu)) {
+    return { status: 'served', menu: requestedMenu, fallback: null }
+  }
+
+  const requestedLocation = requestedMenu.location || 'general'
+  const schedule = getMenuSchedule(requestedMenu, timezone)
+
+  // STEP 1: Try same location menus
+  const sameLocationMenu = menus
+    .filter(m => m.location === requestedLocation && m.id !== requestedMenu.id)
+    .sort(byPriority)
+    .find(isAvailable)
+
+  if (sameLocationMenu) {
+    return {
+      status: 'served',
+      menu: sameLocationMenu,
+      fallback: {
+        requested_menu: requestedMenu,
+        requested_availability: summarizeAvailability(schedule),
+        reason: 'same_location'
+      }
+    }
+  }
+
+  // STEP 2: Time-restricted service location with nothing open → LOCATION CLOSED
+  if (requestedMenu.is_time_restricted && requestedLocation !== 'general') {
+    return {
+      status: 'closed',
+      reason: 'location_closed',
+      requested_menu: requestedMenu,
+      location: requestedLocation.charAt(0).toUpperCase() + requestedLocation.slice(1),
+      availability: summarizeAvailability(schedule, false)
+    }
+  }
+
+  // STEP 3: Try general location as fallback
+  if (requestedLocation !== 'general') {
+    const generalMenu = menus
+      .filter(m => m.location === 'general')
+      .sort(byPriority)
+      .find(isAvailable)
+
+    if (generalMenu) {
+      return {
+        status: 'served',
+        menu: generalMenu,
+        fallback: {
+          requested_menu: requestedMenu,
+          requested_availability: summarizeAvailability(schedule),
+          reason: 'general_location'
+        }
+      }
+    }
+  }
+
+  // STEP 4: Nothing open at all
+  return {
+    status: 'closed',
+    reason: 'no_menus_available',
+    requested_menu: requestedMenu,
+    location: null,
+    availability: summarizeAvailability(schedule, false)
+  }
+}
+
+/**
+ * Get the menus a guest can switch to at `at` (defaults to now)
+ */
+export function getAvailableMenus(
+  menus: ScheduledMenu[],
+  timezone: string | null,
+  at: Date = new Date()
+): ScheduledMenu[] {
+  return menus.filter(menu => isMenuAvailable(getMenuSchedule(menu, timezone), at))
+}
+
+/**
+ * Build the guest-facing fallback notice for a served menu
+ */
+export function describeFallback(fallback: MenuFallback, requestedName: string, showingName: string) {
+  return {
+    requested_menu: requestedName,
+    requested_availability: fallback.requested_availability,
+    showing_menu: showingName,
+    message: `${requestedName} is not currently available. ${fallback.requested_availability}. Showing ${showingName}.`
+  }
+}
+
+/**
+ * Compute the next opening / closing instants for a resolution.
+ * next_opening: the requested menu (fallback or closed), or the first menu to
+ * open when nothing was requested. closes_at: when the served menu stops.
+ * Kept separate from resolveMenu since scanning ahead is comparatively costly.
+ */
+export function getMenuTransitions(
+  resolution: MenuResolution,
+  menus: ScheduledMenu[],
+  timezone: string | null,
+  language: string = 'en',
+  at: Date = new Date()
+): MenuTransitions {
+  const tz = timezone || 'UTC'
+  const nextOpening = (menu: ScheduledMenu) => getNextOpening(getMenuSchedule(menu, timezone), at)
+  const describe = (kind: 'opens' | 'closes', instant: Date | null) =>
+    instant ? describeTransition(kind, instant, tz, language, at) : null
+
+  if (resolution.status === 'served') {
+    return {
+      next_opening: resolution.fallback ? describe('opens', nextOpening(resolution.fallback.requested_menu)) : null,
+      closes_at: describe('closes', getNextClosing(getMenuSchedule(resolution.menu, timezone), at))
+    }
+  }
+
+  if (resolution.requested_menu) {
+    return { next_opening: describe('opens', nextOpening(resolution.requested_menu)), closes_at: null }
+  }
+
+  const openings = menus
+    .map(nextOpening)
+    .filter((instant): instant is Date => instant !== null)
+    .sort((a, b) => a.getTime() - b.getTime())
+
+  return { next_opening: describe('opens', openings[0] || null), closes_at: null }
+}
+
+/**
+ * Short availability summary for closed/fallback responses (e.g. "Available 17:00 - 02:00")
+ */
+function summarizeAvailability(schedule: TimeSchedule, withPrefix: boolean = true): string {
+  const prefix = withPrefix ? 'Available ' : ''
+
+  // Multi-window / recurring schedules use the full description
+  if ((schedule.time_windows && schedule.time_windows.length > 0) ||
+      (schedule.recurrence_rules && schedule.recurrence_rules.length > 0)) {
+    const message = getAvailabilityMessage(schedule)
+    return withPrefix ? message : message.replace(/^Available /, '')
+  }
+
+  if (schedule.active_dates && schedule.active_dates.length > 0) {
+    const dates = schedule.active_dates
+      .map(d => formatDateOnly(d))
+      .join(', ')
+    return `Available on ${dates}`
+  }
+
+  if (schedule.start_date || schedule.end_date) {
+    const start = schedule.start_date ? formatDateOnly(schedule.start_date) : 'now'
+    const end = schedule.end_date ? formatDateOnly(schedule.end_date) : 'ongoing'
+    return `${prefix}${start} - ${end}`
+  }
+
+  if (schedule.available_from && schedule.available_to) {
+    return `${prefix}${schedule.available_from.slice(0, 5)} - ${schedule.available_to.slice(0, 5)}`
+  }
+
+  return ''
+}
+
+// Format dates without timezone shifts
+function formatDateOnly(dateString: string): string {
+  // Parse date parts directly to avoid timezone issues
+  const [year, month, day] = dateString.split('-').map(Number)
+  const date = new Date(year, month - 1, day) // month is 0-indexed
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
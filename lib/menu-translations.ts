@@ -0,0 +1,221 @@
+// lib/menu-translations.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SnapshotTranslations } from '@/types/api'
+
+export interface PublicLanguage {
+  code: string
+  name: string
+  is_default: boolean
+}
+
+// Any menu, category or item row with translatable fields
+interface TranslatableRow {
+  id: string
+  name: string
+  description?: string | null
+}
+
+interface TranslationRow {
+  name: string | null
+  description: string | null
+}
+
+/**
+ * Get the languages a business serves its public menus in (default first)
+ */
+export async function getBusinessLanguages(
+  supabase: SupabaseClient,
+  businessId: string,
+  defaultLanguage: string
+): Promise<PublicLanguage[]> {
+  const { data: languages } = await supabase
+    .from('languages')
+    .select('language_code, language_name, is_default')
+    .eq('business_id', businessId)
+    .eq('is_active', true)
+    .order('is_default', { ascending: false })
+    .order('language_name', { ascending: true })
+
+  const result: PublicLanguage[] = (languages || []).map(lang => ({
+    code: lang.language_code,
+    name: lang.language_name,
+    is_default: lang.language_code === defaultLanguage
+  }))
+
+  // Base content is always in the default language, even without a languages row
+  if (!result.some(lang => lang.code === defaultLanguage)) {
+    result.unshift({ code: defaultLanguage, name: defaultLanguage.toUpperCase(), is_default: true })
+  }
+
+  return result.sort((a, b) => Number(b.is_default) - Number(a.is_default))
+}
+
+/**
+ * Parse an Accept-Language header into language codes ordered by preference
+ */
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return []
+
+  return header
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';')
+      const qParam = params.find(p => p.trim().startsWith('q='))
+      const q = qParam ? parseFloat(qParam.trim().slice(2)) : 1
+      return { tag: tag.trim().toLowerCase(), q: isNaN(q) ? 0 : q }
+    })
+    .filter(entry => entry.tag && entry.tag !== '*' && entry.q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(entry => entry.tag)
+}
+
+/**
+ * Pick the language to serve: ?lang= first, then Accept-Language, then the business default.
+ * Region subtags fall back to their base language (fr-CA → fr).
+ */
+export function resolveLanguage(
+  request: Request,
+  languages: PublicLanguage[],
+  defaultLanguage: string
+): string {
+  const available = languages.map(lang => lang.code)
+  const match = (tag: string) => {
+    if (available.includes(tag)) return tag
+    const base = tag.split('-')[0]
+    return available.includes(base) ? base : null
+  }
+
+  const { searchParams } = new URL(request.url)
+  const requested = searchParams.get('lang')?.toLowerCase()
+  if (requested) {
+    const found = match(requested)
+    if (found) return found
+  }
+
+  for (const tag of parseAcceptLanguage(request.headers.get('accept-language'))) {
+    const found = match(tag)
+    if (found) return found
+  }
+
+  return defaultLanguage
+}
+
+/**
+ * Swap name/description on menus, categories and items for their translations.
+ * Each field falls back to the base (default language) value when untranslated.
+ * With `published`, the published menu, its categories and items use the
+ * translations captured in its snapshot; other menus are translated live.
+ */
+export async function translateMenuContent<
+  M extends TranslatableRow,
+  C extends TranslatableRow,
+  I extends TranslatableRow
+>(
+  supabase: SupabaseClient,
+  content: { menus: M[]; categories: C[]; items: I[] },
+  language: string,
+  defaultLanguage: string,
+  published?: { menu_id: string; translations: SnapshotTranslations } | null
+): Promise<{ menus: M[]; categories: C[]; items: I[] }> {
+  if (language === defaultLanguage) {
+    return content
+  }
+
+  const menuIds = [...new Set(content.menus.map(m => m.id))].filter(id => id !== published?.menu_id)
+  const categoryIds = content.categories.map(c => c.id)
+  const itemIds = content.items.map(i => i.id)
+
+  const snapshot = published
+    ? new Map(Object.entries(published.translations[language] || {}))
+    : null
+
+  const [menuTranslations, categoryTranslations, itemTranslations] = await Promise.all([
+    fetchTranslations(supabase, 'menu_translations', 'menu_id', menuIds, language),
+    snapshot || fetchTranslations(supabase, 'category_translations', 'category_id', categoryIds, language),
+    snapshot || fetchTranslations(supabase, 'menu_item_translations', 'menu_item_id', itemIds, language)
+  ])
+
+  return {
+    menus: content.menus.map(menu => applyTranslation(menu, menuTranslations.get(menu.id) || snapshot?.get(menu.id))),
+    categories: content.categories.map(category => applyTranslation(category, categoryTranslations.get(category.id))),
+    items: content.items.map(item => applyTranslation(item, itemTranslations.get(item.id)))
+  }
+}
+
+/**
+ * Every translation of a menu, its categories and items, for publishing
+ */
+export async function getSnapshotTranslations(
+  supabase: SupabaseClient,
+  content: { menuId: string; categoryIds: string[]; itemIds: string[] }
+): Promise<SnapshotTranslations> {
+  const translations: SnapshotTranslations = {}
+
+  const sources = [
+    { table: 'menu_translations', foreignKey: 'menu_id', ids: [content.menuId] },
+    { table: 'category_translations', foreignKey: 'category_id', ids: content.categoryIds },
+    { table: 'menu_item_translations', foreignKey: 'menu_item_id', ids: content.itemIds }
+  ]
+
+  for (const { table, foreignKey, ids } of sources) {
+    if (ids.length === 0) continue
+
+    const { data, error } = await supabase
+      .from(table)
+      .select(`${foreignKey}, language_code, name, description`)
+      .in(foreignKey, ids)
+
+    if (error) {
+      throw new Error(`Fetch ${table} error: ${error.message}`)
+    }
+
+    for (const row of (data || []) as unknown as Array<Record<string, string | null>>) {
+      const language = row.language_code as string
+      translations[language] = translations[language] || {}
+      translations[language][row[foreignKey] as string] = { name: row.name, description: row.description }
+    }
+  }
+
+  return translations
+}
+
+async function fetchTranslations(
+  supabase: SupabaseClient,
+  table: string,
+  foreignKey: string,
+  ids: string[],
+  language: string
+): Promise<Map<string, TranslationRow>> {
+  const translations = new Map<string, TranslationRow>()
+  if (ids.length === 0) return translations
+
+  const { data, error } = await supabase
+    .from(table)
+    .select(`${foreignKey}, name, description`)
+    .in(foreignKey, ids)
+    .eq('language_code', language)
+
+  if (error) {
+    console.error(`Fetch ${table} error:`, error)
+    return translations
+  }
+
+  for (const row of (data || []) as unknown as Array<Record<string, string | null>>) {
+    translations.set(row[foreignKey] as string, {
+      name: row.name,
+      description: row.description
+    })
+  }
+
+  return translations
+}
+
+function applyTranslation<T extends TranslatableRow>(row: T, translation: TranslationRow | undefined): T {
+  if (!translation) return row
+
+  return {
+    ...row,
+    name: translation.name || row.name,
+    description: translation.description || row.description
+  }
+}
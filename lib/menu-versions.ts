@@ -0,0 +1,259 @@
+// lib/menu-versions.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Category, MenuItem, MenuSnapshot, MenuVersion, PublicModifierGroup, SnapshotTranslations } from '@/types/api'
+import { getMenuItems } from './item-placements'
+import { getSnapshotTranslations } from './menu-translations'
+import { getModifierGroups } from './modifier-groups'
+
+// Version list columns (without the snapshot payload)
+export const MENU_VERSION_SUMMARY_COLUMNS = 'id, menu_id, business_id, version_number, notes, restored_from_version_id, published_by, published_at'
+
+export interface PublishOptions {
+  userId: string
+  notes?: string | null
+  restoredFromVersionId?: string | null
+}
+
+// What guests see for one menu
+export interface PublicMenuContent {
+  menu: MenuSnapshot['menu']
+  categories: Category[]
+  items: MenuItem[]
+  version_number: number | null                     // null = never published, served live
+  translations: SnapshotTranslations | null         // null = older version or live, translate live
+  modifier_groups: PublicModifierGroup[] | null     // null = older version or live, read live
+}
+
+/**
+ * Capture the current (draft) content of a menu: the menu, the business
+ * categories, the menu's items (including placed library items), their
+ * translations and modifier groups
+ */
+export async function buildMenuSnapshot(
+  supabase: SupabaseClient,
+  menuId: string
+): Promise<MenuSnapshot | null> {
+  const { data: menu } = await supabase
+    .from('menus')
+    .select('id, business_id, name, slug, description')
+    .eq('id', menuId)
+    .is('deleted_at', null)
+    .single()
+
+  if (!menu) return null
+
+  const [{ data: categories }, items] = await Promise.all([
+    supabase
+      .from('categories')
+      .select('*')
+      .eq('business_id', menu.business_id)
+      .is('deleted_at', null)
+      .order('display_order', { ascending: true }),
+    getMenuItems(supabase, menuId)
+  ])
+
+  const [translations, modifierGroups] = await Promise.all([
+    getSnapshotTranslations(supabase, {
+      menuId,
+      categoryIds: (categories || []).map(category => category.id),
+      itemIds: items.map(item => item.id)
+    }),
+    getModifierGroups(supabase, menu.business_id, items)
+  ])
+
+  return {
+    menu,
+    categories: (categories || []) as Category[],
+    items,
+    translations,
+    modifier_groups: modifierGroups
+  }
+}
+
+/**
+ * Store a snapshot as the next immutable version and make it the published one
+ */
+export async function publishMenuVersion(
+  supabase: SupabaseClient,
+  menuId: string,
+  businessId: string,
+  snapshot: MenuSnapshot,
+  options: PublishOptions
+): Promise<{ version: MenuVersion | null; error: string | null }> {
+  const { data: latest } = await supabase
+    .from('menu_versions')
+    .select('version_number')
+    .eq('menu_id', menuId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const publishedAt = new Date().toISOString()
+
+  const { data: version, error: insertError } = await supabase
+    .from('menu_versions')
+    .insert({
+      menu_id: menuId,
+      business_id: businessId,
+      version_number: (latest?.version_number || 0) + 1,
+      snapshot,
+      notes: options.notes || null,
+      restored_from_version_id: options.restoredFromVersionId || null,
+      published_by: options.userId,
+      published_at: publishedAt
+    })
+    .select()
+    .single()
+
+  if (insertError || !version) {
+    return { version: null, error: insertError?.message || 'Failed to create version' }
+  }
+
+  const { error: updateError } = await supabase
+    .from('menus')
+    .update({
+      published_version_id: version.id,
+      published_at: publishedAt
+    })
+    .eq('id', menuId)
+
+  if (updateError) {
+    return { version: null, error: updateError.message }
+  }
+
+  return { version: version as MenuVersion, error: null }
+}
+
+/**
+ * Check whether the draft was edited after the last publish
+ */
+export async function hasUnpublishedChanges(
+  supabase: SupabaseClient,
+  menu: { id: string; business_id: string; updated_at: string; published_at: string | null }
+): Promise<boolean> {
+  if (!menu.published_at) return true
+  if (menu.updated_at > menu.published_at) return true
+
+  // Library items placed on the menu count like its own items
+  const { data: placements } = await supabase
+    .from('menu_item_placements')
+    .select('item_id')
+    .eq('menu_id', menu.id)
+    .is('deleted_at', null)
+
+  const placedItemIds = (placements || []).map(placement => placement.item_id as string)
+
+  // Deleted rows count too (soft deletes bump updated_at)
+  const counts = await Promise.all([
+    supabase
+      .from('menu_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('menu_id', menu.id)
+      .gt('updated_at', menu.published_at),
+    supabase
+      .from('menu_item_placements')
+      .select('id', { count: 'exact', head: true })
+      .eq('menu_id', menu.id)
+      .gt('updated_at', menu.published_at),
+    supabase
+      .from('categories')
+      .select('id', { count: 'exact', head: true })
+      .eq('business_id', menu.business_id)
+      .gt('updated_at', menu.published_at),
+    supabase
+      .from('menu_translations')
+      .select('menu_id', { count: 'exact', head: true })
+      .eq('menu_id', menu.id)
+      .gt('updated_at', menu.published_at),
+    supabase
+      .from('category_translations')
+      .select('category_id, categories!inner(business_id)', { count: 'exact', head: true })
+      .eq('categories.business_id', menu.business_id)
+      .gt('updated_at', menu.published_at),
+    supabase
+      .from('menu_item_translations')
+      .select('menu_item_id, menu_items!inner(menu_id)', { count: 'exact', head: true })
+      .eq('menu_items.menu_id', menu.id)
+      .gt('updated_at', menu.published_at),
+    supabase
+      .from('modifier_groups')
+      .select('id', { count: 'exact', head: true })
+      .eq('business_id', menu.business_id)
+      .gt('updated_at', menu.published_at),
+    ...(placedItemIds.length > 0
+      ? [
+          supabase
+            .from('menu_items')
+            .select('id', { count: 'exact', head: true })
+            .in('id', placedItemIds)
+            .gt('updated_at', menu.published_at),
+          supabase
+            .from('menu_item_translations')
+            .select('menu_item_id', { count: 'exact', head: true })
+            .in('menu_item_id', placedItemIds)
+            .gt('updated_at', menu.published_at)
+        ]
+      : [])
+  ])
+
+  return counts.some(({ count }) => (count || 0) > 0)
+}
+
+/**
+ * Load what guests see for a menu: its published snapshot, or the live
+ * tables until the menu is first published (menus predating publishing).
+ * Item availability (sold out / back in stock) stays live either way.
+ */
+export async function getPublicMenuContent(
+  supabase: SupabaseClient,
+  menu: { id: string; business_id: string; published_version_id?: string | null }
+): Promise<PublicMenuContent> {
+  if (menu.published_version_id) {
+    const { data: version } = await supabase
+      .from('menu_versions')
+      .select('version_number, snapshot')
+      .eq('id', menu.published_version_id)
+      .single()
+
+    if (version) {
+      const snapshot = version.snapshot as MenuSnapshot
+
+      const liveItems = await getMenuItems(supabase, menu.id)
+      const availability = new Map(liveItems.map(item => [item.id, item.is_available]))
+
+      return {
+        menu: snapshot.menu,
+        categories: snapshot.categories.filter(category => category.is_active !== false),
+        items: snapshot.items.filter(item => availability.get(item.id) ?? item.is_available),
+        version_number: version.version_number,
+        translations: snapshot.translations || null,
+        modifier_groups: snapshot.modifier_groups || null
+      }
+    }
+  }
+
+  const [{ data: liveMenu }, { data: categories }, items] = await Promise.all([
+    supabase
+      .from('menus')
+      .select('id, business_id, name, slug, description')
+      .eq('id', menu.id)
+      .single(),
+    supabase
+      .from('categories')
+      .select('*')
+      .eq('business_id', menu.business_id)
+      .eq('is_active', true)
+      .is('deleted_at', null)
+      .order('display_order', { ascending: true }),
+    getMenuItems(supabase, menu.id)
+  ])
+
+  return {
+    menu: (liveMenu || { id: menu.id, business_id: menu.business_id, name: '', slug: '', description: null }) as MenuSnapshot['menu'],
+    categories: (categories || []) as Category[],
+    items: items.filter(item => item.is_available),
+    version_number: null,
+    translations: null,
+    modifier_groups: null
+  }
+}
@@ -0,0 +1,312 @@
+// lib/modifier-groups.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ModifierGroup, ModifierOption, PublicModifierGroup } from '@/types/api'
+
+export const PUBLIC_MODIFIER_GROUP_COLUMNS = 'id, name, description, min_selections, max_selections, is_required, options'
+
+/**
+ * Validate a modifier group body (for updates, the existing group merged with the changes).
+ * Options without an id get one; is_required and min_selections are kept consistent.
+ */
+export function validateModifierGroup(body: Record<string, unknown>): { values: Partial<ModifierGroup>; errors: string[] } {
+  const values: Partial<ModifierGroup> = {}
+  const errors: string[] = []
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    errors.push('name is required')
+  } else {
+    values.name = body.name.trim()
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      errors.push('description must be a string')
+    } else {
+      values.description = body.description as string | null
+    }
+  }
+
+  const options = validateOptions(body.options)
+  errors.push(...options.errors)
+  values.options = options.values
+
+  let min = body.min_selections ?? 0
+  const max = body.max_selections ?? null
+
+  if (typeof min !== 'number' || !Number.isInteger(min) || min < 0) {
+    errors.push('min_selections must be a non-negative integer')
+    min = 0
+  }
+
+  if (max !== null && (typeof max !== 'number' || !Number.isInteger(max) || max < 1)) {
+    errors.push('max_selections must be a positive integer or null')
+  }
+
+  if (body.is_required !== undefined && typeof body.is_required !== 'boolean') {
+    errors.push('is_required must be a boolean')
+  }
+
+  // A required group needs at least one pick; min_selections of 1+ makes it required
+  if (body.is_required === true && min === 0) min = 1
+  if (body.is_required === false && (min as number) > 0) {
+    errors.push('is_required cannot be false when min_selections is 1 or more')
+  }
+
+  if (typeof max === 'number' && max < (min as number)) {
+    errors.push('max_selections cannot be less than min_selections')
+  }
+
+  if ((min as number) > options.values.length) {
+    errors.push(`min_selections (${min}) is more than the number of options (${options.values.length})`)
+  }
+
+  const defaults = options.values.filter(option => option.is_default).length
+  if (typeof max === 'number' && defaults > max) {
+    errors.push(`${defaults} options are marked is_default but max_selections is ${max}`)
+  }
+
+  values.min_selections = min as number
+  values.max_selections = max as number | null
+  values.is_required = (min as number) >= 1
+
+  return { values, errors }
+}
+
+/**
+ * Check modifier_group_ids on an item body. Returns errors for a bad shape or
+ * ids that are not groups of the business.
+ */
+export async function validateModifierGroupIds(
+  supabase: SupabaseClient,
+  businessId: string,
+  ids: unknown
+): Promise<string[]> {
+  if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+    return ['modifier_group_ids must be an array of modifier group ids']
+  }
+
+  if (new Set(ids).size !== ids.length) {
+    return ['modifier_group_ids cannot contain duplicates']
+  }
+
+  if (ids.length === 0) return []
+
+  const { data: groups } = await supabase
+    .from('modifier_groups')
+    .select('id')
+    .in('id', ids)
+    .eq('business_id', businessId)
+    .is('deleted_at', null)
+
+  const found = new Set((groups || []).map(group => group.id))
+  const missing = (ids as string[]).filter(id => !found.has(id))
+
+  return missing.length > 0
+    ? [`modifier_group_ids: groups not found in this business: ${missing.join(', ')}`]
+    : []
+}
+
+/**
+ * Embed each item's modifier groups (in the item's order) for public menus.
+ * Deleted groups are skipped. `published` groups (from a menu snapshot) are
+ * used as-is instead of the live ones. Items not migrated yet get groups
+ * converted from their legacy customization_options.
+ */
+export async function attachModifierGroups<T extends { id: string; modifier_group_ids?: string[] | null; customization_options?: unknown }>(
+  supabase: SupabaseClient,
+  businessId: string,
+  items: T[],
+  published?: PublicModifierGroup[] | null
+): Promise<Array<T & { modifier_groups: PublicModifierGroup[] }>> {
+  const groups = new Map((published || await getModifierGroups(supabase, businessId, items)).map(group => [group.id, group]))
+
+  return items.map(item => ({
+    ...item,
+    modifier_groups: (item.modifier_group_ids || []).length === 0 && item.customization_options
+      ? getLegacyModifierGroups(item.id, item.customization_options)
+      : (item.modifier_group_ids || [])
+          .map(id => groups.get(id))
+          .filter((group): group is PublicModifierGroup => !!group)
+  }))
+}
+
+/**
+ * Turn legacy free-form customization_options into modifier group bodies (for
+ * validateModifierGroup). Understands { "Size": ["Small", "Large"] },
+ * { "Sides": [{ name, price }] }, { "Sauce": { options, required, max } },
+ * { "Extra cheese": 2 } (collected in an "Extras" group) and lists of
+ * { name, options, required, max } groups (also under "groups").
+ */
+export function convertCustomizationOptions(input: unknown): Array<Record<string, unknown>> {
+  if (!input || typeof input !== 'object') return []
+
+  const record = input as Record<string, unknown>
+  const list = Array.isArray(input) ? input : Array.isArray(record.groups) ? record.groups : null
+
+  if (list) {
+    return list.flatMap(entry => {
+      if (!entry || typeof entry !== 'object') return []
+      const group = entry as Record<string, unknown>
+      return [toGroupBody(firstString(group, ['name', 'title', 'label']) || 'Options', group)]
+    })
+  }
+
+  const groups: Array<Record<string, unknown>> = []
+  const extras: Array<Record<string, unknown>> = []
+
+  for (const [name, value] of Object.entries(record)) {
+    if (typeof value === 'number') {
+      extras.push({ name, price_delta: value })
+    } else if (Array.isArray(value)) {
+      groups.push(toGroupBody(name, { options: value }))
+    } else if (value && typeof value === 'object') {
+      groups.push(toGroupBody(name, value as Record<string, unknown>))
+    }
+  }
+
+  if (extras.length > 0) {
+    groups.push({ name: 'Extras', options: extras, min_selections: 0, max_selections: null })
+  }
+
+  return groups
+}
+
+/**
+ * Live modifier groups used by some of the items
+ */
+export async function getModifierGroups(
+  supabase: SupabaseClient,
+  businessId: string,
+  items: Array<{ modifier_group_ids?: string[] | null }>
+): Promise<PublicModifierGroup[]> {
+  const ids = [...new Set(items.flatMap(item => item.modifier_group_ids || []))]
+  if (ids.length === 0) return []
+
+  const { data } = await supabase
+    .from('modifier_groups')
+    .select(PUBLIC_MODIFIER_GROUP_COLUMNS)
+    .in('id', ids)
+    .eq('business_id', businessId)
+    .is('deleted_at', null)
+
+  return (data || []) as PublicModifierGroup[]
+}
+
+// Legacy options of one item as public groups, with ids stable across reads;
+// groups that do not validate are left out
+function getLegacyModifierGroups(itemId: string, customizationOptions: unknown): PublicModifierGroup[] {
+  return convertCustomizationOptions(customizationOptions).flatMap((body, i) => {
+    const id = `legacy-${itemId}-${i}`
+    const options = (body.options as Array<Record<string, unknown>>).map((option, j) => ({ ...option, id: `${id}-${j}` }))
+    const { values, errors } = validateModifierGroup({ ...body, options })
+
+    if (errors.length > 0) return []
+
+    return [{
+      id,
+      name: values.name!,
+      description: values.description ?? null,
+      min_selections: values.min_selections!,
+      max_selections: values.max_selections ?? null,
+      is_required: values.is_required!,
+      options: values.options!
+    }]
+  })
+}
+
+// Group body from a legacy group's options and settings (required, min, max, type)
+function toGroupBody(name: string, group: Record<string, unknown>): Record<string, unknown> {
+  const options = group.options ?? group.choices ?? group.values ?? group.items
+  const required = group.required === true || group.is_required === true
+  const single = group.type === 'single' || group.type === 'radio' || group.multiple === false
+  const min = toNumber(group.min ?? group.min_selections)
+  const max = toNumber(group.max ?? group.max_selections)
+
+  return {
+    name,
+    options: (Array.isArray(options) ? options : []).flatMap(toOptionBody),
+    min_selections: min ?? (required ? 1 : 0),
+    max_selections: max ?? (single ? 1 : null)
+  }
+}
+
+// Option body from a name or a { name/label, price/price_delta, ... } object
+function toOptionBody(option: unknown): Array<Record<string, unknown>> {
+  if (typeof option === 'string') {
+    return option.trim() ? [{ name: option.trim() }] : []
+  }
+  if (!option || typeof option !== 'object') return []
+
+  const values = option as Record<string, unknown>
+  const name = firstString(values, ['name', 'label', 'title', 'value'])
+  if (!name) return []
+
+  return [{
+    name,
+    price_delta: toNumber(values.price_delta ?? values.price ?? values.extra_price ?? values.additional_price) ?? 0,
+    is_available: values.is_available !== false && values.available !== false,
+    is_default: values.is_default === true || values.default === true
+  }]
+}
+
+function firstString(values: Record<string, unknown>, fields: string[]): string | null {
+  for (const field of fields) {
+    const value = values[field]
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return null
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value
+  return typeof number === 'number' && isFinite(number) ? number : null
+}
+
+function validateOptions(input: unknown): { values: ModifierOption[]; errors: string[] } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { values: [], errors: ['options must be a non-empty array'] }
+  }
+
+  const values: ModifierOption[] = []
+  const errors: string[] = []
+  const names = new Set<string>()
+
+  input.forEach((option: Partial<ModifierOption>, i) => {
+    if (!option || typeof option !== 'object') {
+      errors.push(`options[${i}] must be an object`)
+      return
+    }
+
+    if (typeof option.name !== 'string' || !option.name.trim()) {
+      errors.push(`options[${i}].name is required`)
+      return
+    }
+
+    const key = option.name.trim().toLowerCase()
+    if (names.has(key)) {
+      errors.push(`options[${i}].name "${option.name}" is used twice`)
+    }
+    names.add(key)
+
+    const priceDelta = option.price_delta ?? 0
+    if (typeof priceDelta !== 'number' || !isFinite(priceDelta)) {
+      errors.push(`options[${i}].price_delta must be a number`)
+    }
+
+    for (const flag of ['is_available', 'is_default'] as const) {
+      if (option[flag] !== undefined && typeof option[flag] !== 'boolean') {
+        errors.push(`options[${i}].${flag} must be a boolean`)
+      }
+    }
+
+    values.push({
+      id: typeof option.id === 'string' && option.id ? option.id : crypto.randomUUID(),
+      name: option.name.trim(),
+      price_delta: typeof priceDelta === 'number' ? Math.round(priceDelta * 100) / 100 : 0,
+      is_available: option.is_available !== false,
+      is_default: option.is_default === true
+    })
+  })
+
+  return { values, errors }
+}
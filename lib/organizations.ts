@@ -0,0 +1,582 @@
+// lib/organizations.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  BranchItemOverride,
+  BranchPushResult,
+  Category,
+  MenuItem,
+  MenuSnapshot,
+  Organization,
+  PushConflict,
+  PushConflictStrategy
+} from '@/types/api'
+import { getAvailableMenuSlug, remapCategories } from './menu-clone'
+import { publishMenuVersion } from './menu-versions'
+import { checkSubscriptionLimit } from './subscription-enforcement'
+
+export const PUSH_CONFLICT_STRATEGIES: PushConflictStrategy[] = ['keep_branch', 'use_master']
+
+// Item fields copied from the master menu to branch menus on push.
+// Modifier groups are per business, so branches attach their own.
+export const SYNCED_ITEM_FIELDS = [
+  'name',
+  'description',
+  'ingredients',
+  'ingredient_list',
+  'preparation_notes',
+  'subcategory',
+  'tags',
+  'image_url',
+  'gallery_images',
+  'video_url',
+  'allergens',
+  'dietary_flags',
+  'spice_level',
+  'nutritional_info',
+  'is_available',
+  'is_featured',
+  'prep_time_minutes',
+  'price',
+  'compare_at_price',
+  'price_variants',
+  'sort_order',
+  'sku',
+  'portion_size',
+  'schedule',
+  'schedule_display'
+] as const
+
+export interface PushOptions {
+  strategy: PushConflictStrategy
+  dryRun: boolean
+  businessIds?: string[]  // Only these branches (default: all)
+  userId: string          // Publisher of republished branch menus
+}
+
+/**
+ * Validate an organization body (for updates, the existing organization merged with the changes)
+ */
+export function validateOrganization(body: Record<string, unknown>): { values: Partial<Organization>; errors: string[] } {
+  const values: Partial<Organization> = {}
+  const errors: string[] = []
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    errors.push('name is required')
+  } else {
+    values.name = body.name.trim()
+  }
+
+  if (body.slug !== undefined && body.slug !== null) {
+    if (typeof body.slug !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(body.slug)) {
+      errors.push('slug must contain only lowercase letters, numbers and single hyphens')
+    } else {
+      values.slug = body.slug
+    }
+  } else if (values.name) {
+    values.slug = values.name.toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+  }
+
+  if (body.master_menu_id !== undefined) {
+    if (body.master_menu_id !== null && typeof body.master_menu_id !== 'string') {
+      errors.push('master_menu_id must be a string or null')
+    } else {
+      values.master_menu_id = body.master_menu_id
+    }
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Validate a branch override. Null price/is_available follow the master.
+ */
+export function validateBranchOverride(body: Record<string, unknown>): { values: Partial<BranchItemOverride>; errors: string[] } {
+  const values: Partial<BranchItemOverride> = {}
+  const errors: string[] = []
+
+  if (typeof body.master_item_id !== 'string' || !body.master_item_id) {
+    errors.push('master_item_id is required')
+  } else {
+    values.master_item_id = body.master_item_id
+  }
+
+  if (body.price !== undefined) {
+    if (body.price !== null && (typeof body.price !== 'number' || !isFinite(body.price) || body.price < 0)) {
+      errors.push('price must be a non-negative number or null')
+    } else {
+      values.price = body.price as number | null
+    }
+  }
+
+  if (body.is_available !== undefined) {
+    if (body.is_available !== null && typeof body.is_available !== 'boolean') {
+      errors.push('is_available must be a boolean or null')
+    } else {
+      values.is_available = body.is_available as boolean | null
+    }
+  }
+
+  if (body.is_hidden !== undefined) {
+    if (typeof body.is_hidden !== 'boolean') {
+      errors.push('is_hidden must be a boolean')
+    } else {
+      values.is_hidden = body.is_hidden
+    }
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Load an organization (not deleted)
+ */
+export async function getOrganization(supabase: SupabaseClient, organizationId: string): Promise<Organization | null> {
+  const { data } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  return (data as Organization | null) ?? null
+}
+
+/**
+ * Apply a branch override to the branch's copy right away (without a full push).
+ * Returns false when the branch has no copy yet; the next push creates it.
+ */
+export async function applyBranchOverride(
+  supabase: SupabaseClient,
+  businessId: string,
+  master: Pick<MenuItem, 'id' | 'menu_id' | 'price' | 'is_available'>,
+  override: Pick<BranchItemOverride, 'price' | 'is_available' | 'is_hidden'>
+): Promise<boolean> {
+  const { data: branchMenu } = await supabase
+    .from('menus')
+    .select('id')
+    .eq('business_id', businessId)
+    .eq('master_menu_id', master.menu_id)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (!branchMenu) return false
+
+  const now = new Date().toISOString()
+  const { data: copy } = await supabase
+    .from('menu_items')
+    .update({
+      price: override.price ?? master.price,
+      is_available: override.is_available ?? master.is_available,
+      deleted_at: override.is_hidden ? now : null,
+      updated_at: now
+    })
+    .eq('menu_id', branchMenu.id)
+    .eq('master_item_id', master.id)
+    .select('id')
+    .maybeSingle()
+
+  return !!copy
+}
+
+/**
+ * Copy the master menu to branches. Per branch: new master items are added,
+ * changed ones updated, removed ones deleted; branch overrides (price,
+ * availability, hidden) are applied on top and branch-only items are left alone.
+ * A conflict is an override on a field the master changed since the override
+ * was set; `strategy` decides who wins (either way it is not reported again).
+ * Branch menus that are already published get the pushed items patched into
+ * their published version (other branch drafts stay unpublished). Failed item
+ * writes are reported per item; a branch over its plan's menu or item limit is
+ * skipped with an error.
+ */
+export async function pushMasterMenu(
+  supabase: SupabaseClient,
+  organization: Organization,
+  options: PushOptions
+): Promise<{ results: BranchPushResult[]; error: string | null }> {
+  if (!organization.master_menu_id) {
+    return { results: [], error: 'Organization has no master menu' }
+  }
+
+  const { data: masterMenu } = await supabase
+    .from('menus')
+    .select('id, business_id, name, slug, description')
+    .eq('id', organization.master_menu_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!masterMenu) {
+    return { results: [], error: 'Master menu not found' }
+  }
+
+  let branchQuery = supabase
+    .from('businesses')
+    .select('id, name, slug')
+    .eq('organization_id', organization.id)
+    .neq('id', masterMenu.business_id)
+    .is('deleted_at', null)
+
+  if (options.businessIds) {
+    branchQuery = branchQuery.in('id', options.businessIds)
+  }
+
+  const [{ data: branches }, { data: masterItems }] = await Promise.all([
+    branchQuery.order('name', { ascending: true }),
+    supabase
+      .from('menu_items')
+      .select('*')
+      .eq('menu_id', masterMenu.id)
+      .is('deleted_at', null)
+  ])
+
+  const results: BranchPushResult[] = []
+
+  for (const branch of branches || []) {
+    results.push(await pushToBranch(supabase, organization, masterMenu, (masterItems || []) as MenuItem[], branch, options))
+  }
+
+  if (!options.dryRun) {
+    await supabase
+      .from('organizations')
+      .update({ last_pushed_at: new Date().toISOString() })
+      .eq('id', organization.id)
+  }
+
+  return { results, error: null }
+}
+
+async function pushToBranch(
+  supabase: SupabaseClient,
+  organization: Organization,
+  masterMenu: { id: string; business_id: string; name: string; slug: string; description: string | null },
+  masterItems: MenuItem[],
+  branch: { id: string; name: string; slug: string },
+  options: PushOptions
+): Promise<BranchPushResult> {
+  const now = new Date().toISOString()
+  const result: BranchPushResult = {
+    business_id: branch.id,
+    business_name: branch.name,
+    menu_id: null,
+    created_menu: false,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    hidden: 0,
+    conflicts: [],
+    failed: [],
+    republished: false,
+    error: null
+  }
+
+  // 1. Branch copy of the master menu (created on first push)
+  const { data: branchMenu } = await supabase
+    .from('menus')
+    .select('id, published_version_id')
+    .eq('business_id', branch.id)
+    .eq('master_menu_id', masterMenu.id)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  result.menu_id = branchMenu?.id ?? null
+
+  if (!branchMenu) {
+    const menuLimit = await checkSubscriptionLimit(branch.id, 'menus')
+    if (!menuLimit.allowed) {
+      result.error = menuLimit.error?.message ?? 'Menu limit reached'
+      return result
+    }
+
+    result.created_menu = true
+
+    if (!options.dryRun) {
+      const { data: created, error } = await supabase
+        .from('menus')
+        .insert({
+          business_id: branch.id,
+          name: masterMenu.name,
+          slug: await getAvailableMenuSlug(supabase, `${masterMenu.slug}-${branch.slug}`),
+          description: masterMenu.description,
+          is_active: true,
+          master_menu_id: masterMenu.id
+        })
+        .select('id')
+        .single()
+
+      if (error || !created) {
+        console.error('Create branch menu error:', error)
+        return result
+      }
+
+      result.menu_id = created.id
+    }
+  }
+
+  // 2. Existing copies (deleted ones too, so hidden items can come back) and overrides
+  const [{ data: copies }, { data: overrides }] = await Promise.all([
+    result.menu_id
+      ? supabase
+          .from('menu_items')
+          .select('*')
+          .eq('menu_id', result.menu_id)
+          .not('master_item_id', 'is', null)
+      : Promise.resolve({ data: [] as MenuItem[] }),
+    supabase
+      .from('branch_item_overrides')
+      .select('*')
+      .eq('organization_id', organization.id)
+      .eq('business_id', branch.id)
+  ])
+
+  const copiesByMaster = new Map(((copies || []) as MenuItem[]).map(copy => [copy.master_item_id!, copy]))
+  const overridesByMaster = new Map(((overrides || []) as BranchItemOverride[]).map(override => [override.master_item_id, override]))
+  const pushed: MenuItem[] = []  // Rows written, to patch into the published snapshot
+  const { mapping: categories } = await remapCategories(
+    supabase,
+    masterMenu.business_id,
+    branch.id,
+    masterItems.map(item => item.category_id).filter((id): id is string => !!id),
+    !options.dryRun
+  )
+
+  // 3. Add or update a copy of every master item (new copies count against the plan)
+  const newCopies = masterItems.filter(master =>
+    !copiesByMaster.has(master.id) && overridesByMaster.get(master.id)?.is_hidden !== true
+  ).length
+
+  if (newCopies > 0) {
+    const itemLimit = await checkSubscriptionLimit(branch.id, 'items', newCopies)
+    if (!itemLimit.allowed) {
+      result.error = itemLimit.error?.message ?? 'Item limit reached'
+      return result
+    }
+  }
+
+  for (const master of masterItems) {
+    const override = overridesByMaster.get(master.id)
+    const values: Record<string, unknown> = {}
+
+    for (const field of SYNCED_ITEM_FIELDS) {
+      values[field] = master[field]
+    }
+
+    values.category_id = master.category_id ? categories.get(master.category_id) ?? null : null
+
+    if (override) {
+      const conflicts = getOverrideConflicts(master, override, options.strategy)
+      result.conflicts.push(...conflicts)
+
+      const usesMaster = new Set(conflicts.filter(c => c.resolution === 'used_master').map(c => c.field))
+      if (override.price !== null && !usesMaster.has('price')) values.price = override.price
+      if (override.is_available !== null && !usesMaster.has('is_available')) values.is_available = override.is_available
+
+      if (!options.dryRun && conflicts.length > 0) {
+        await supabase
+          .from('branch_item_overrides')
+          .update({
+            price: usesMaster.has('price') ? null : override.price,
+            is_available: usesMaster.has('is_available') ? null : override.is_available,
+            master_price: master.price,
+            master_is_available: master.is_available,
+            updated_at: now
+          })
+          .eq('id', override.id)
+      }
+    }
+
+    const hidden = override?.is_hidden === true
+    if (hidden) result.hidden++
+
+    const copy = copiesByMaster.get(master.id)
+
+    if (!copy) {
+      if (hidden) continue
+
+      if (options.dryRun || !result.menu_id) {
+        result.added++
+        continue
+      }
+
+      const { data: created, error } = await supabase
+        .from('menu_items')
+        .insert({
+          ...values,
+          menu_id: result.menu_id,
+          master_item_id: master.id,
+          modifier_group_ids: []
+        })
+        .select('*')
+        .single()
+
+      if (error || !created) {
+        console.error('Add branch item error:', error)
+        result.failed.push({ master_item_id: master.id, item_name: master.name, action: 'add', error: error?.message ?? 'Item not created' })
+        continue
+      }
+
+      result.added++
+      pushed.push(created as MenuItem)
+      continue
+    }
+
+    values.deleted_at = hidden ? copy.deleted_at ?? now : null
+
+    const changed = Object.keys(values).some(field =>
+      field === 'deleted_at'
+        ? !!values.deleted_at !== !!copy.deleted_at
+        : JSON.stringify(values[field]) !== JSON.stringify(copy[field as keyof MenuItem])
+    )
+
+    if (!changed) continue
+
+    if (options.dryRun) {
+      result.updated++
+      continue
+    }
+
+    const { data: updated, error } = await supabase
+      .from('menu_items')
+      .update({ ...values, updated_at: now })
+      .eq('id', copy.id)
+      .select('*')
+      .single()
+
+    if (error || !updated) {
+      console.error('Update branch item error:', error)
+      result.failed.push({ master_item_id: master.id, item_name: master.name, action: 'update', error: error?.message ?? 'Item not found' })
+      continue
+    }
+
+    result.updated++
+    pushed.push(updated as MenuItem)
+  }
+
+  // 4. Remove copies of items deleted from the master menu
+  const masterIds = new Set(masterItems.map(item => item.id))
+  const removed = ((copies || []) as MenuItem[]).filter(copy => !copy.deleted_at && !masterIds.has(copy.master_item_id!))
+
+  if (options.dryRun) {
+    result.removed = removed.length
+  } else if (removed.length > 0) {
+    const { data: deleted, error } = await supabase
+      .from('menu_items')
+      .update({ deleted_at: now, updated_at: now })
+      .in('id', removed.map(copy => copy.id))
+      .select('*')
+
+    if (error) console.error('Remove branch items error:', error)
+
+    const deletedIds = new Set((deleted || []).map(item => item.id as string))
+    for (const copy of removed) {
+      if (!deletedIds.has(copy.id)) {
+        result.failed.push({ master_item_id: copy.master_item_id!, item_name: copy.name, action: 'remove', error: error?.message ?? 'Item not found' })
+      }
+    }
+
+    result.removed = deletedIds.size
+    pushed.push(...((deleted || []) as MenuItem[]))
+  }
+
+  if (result.failed.length > 0) {
+    result.error = `${result.failed.length} item(s) could not be written; the rest were pushed`
+  }
+
+  // 5. Patch the published branch snapshot with the pushed items only, so
+  // unpublished branch edits stay drafts
+  if (!options.dryRun && pushed.length > 0 && branchMenu?.published_version_id) {
+    const { data: version } = await supabase
+      .from('menu_versions')
+      .select('snapshot')
+      .eq('id', branchMenu.published_version_id)
+      .single()
+
+    const snapshot = version
+      ? await patchBranchSnapshot(supabase, version.snapshot as MenuSnapshot, pushed)
+      : null
+    const { error } = snapshot
+      ? await publishMenuVersion(supabase, branchMenu.id, branch.id, snapshot, {
+          userId: options.userId,
+          notes: 'Master menu pushed'
+        })
+      : { error: 'Published branch menu version not found' }
+
+    if (error) {
+      console.error('Republish branch menu error:', error)
+      result.error = 'Failed to republish the branch menu'
+    } else {
+      result.republished = true
+    }
+  }
+
+  return result
+}
+
+// Replace the pushed items in a published snapshot (dropping hidden and
+// removed ones) and add the categories new items are filed under
+async function patchBranchSnapshot(
+  supabase: SupabaseClient,
+  snapshot: MenuSnapshot,
+  pushed: MenuItem[]
+): Promise<MenuSnapshot> {
+  const pushedIds = new Set(pushed.map(item => item.id))
+  const items: MenuItem[] = [
+    ...snapshot.items.filter(item => !pushedIds.has(item.id)),
+    ...pushed.filter(item => !item.deleted_at).map(item => ({ ...item, placement_id: null }))
+  ]
+
+  const categoryIds = new Set(snapshot.categories.map(category => category.id))
+  const newCategoryIds = [...new Set(items.map(item => item.category_id))]
+    .filter((id): id is string => !!id && !categoryIds.has(id))
+
+  const { data: newCategories } = newCategoryIds.length > 0
+    ? await supabase
+        .from('categories')
+        .select('*')
+        .in('id', newCategoryIds)
+        .is('deleted_at', null)
+    : { data: [] as Category[] }
+
+  return {
+    ...snapshot,
+    categories: [...snapshot.categories, ...((newCategories || []) as Category[])]
+      .sort((a, b) => a.display_order - b.display_order),
+    items: items.sort((a, b) => a.sort_order - b.sort_order)
+  }
+}
+
+function getOverrideConflicts(
+  master: MenuItem,
+  override: BranchItemOverride,
+  strategy: PushConflictStrategy
+): PushConflict[] {
+  const conflicts: PushConflict[] = []
+  const resolution = strategy === 'use_master' ? 'used_master' : 'kept_branch'
+
+  if (override.price !== null && master.price !== override.master_price) {
+    conflicts.push({
+      master_item_id: master.id,
+      item_name: master.name,
+      field: 'price',
+      branch_value: override.price,
+      master_value: master.price,
+      previous_master_value: override.master_price,
+      resolution
+    })
+  }
+
+  if (override.is_available !== null && master.is_available !== override.master_is_available) {
+    conflicts.push({
+      master_item_id: master.id,
+      item_name: master.name,
+      field: 'is_available',
+      branch_value: override.is_available,
+      master_value: master.is_available,
+      previous_master_value: override.master_is_available,
+      resolution
+    })
+  }
+
+  return conflicts
+}
@@ -0,0 +1,259 @@
+// lib/price-rules.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AppliedPriceRule, PriceRule, PriceRuleStatus, PriceRuleTarget, PriceRuleType, PriceVariant } from '@/types/api'
+import { getItemSchedule, getNextAvailabilityChange, getNextClosing, getNextOpening, isMenuAvailable, toZonedISOString } from './time-utils'
+import { validateItemSchedule } from './schedule-validation'
+
+export const PRICE_RULE_TARGETS: PriceRuleTarget[] = ['item', 'category', 'menu']
+export const PRICE_RULE_TYPES: PriceRuleType[] = ['percentage', 'fixed_price']
+export const PRICE_RULE_STATUSES: PriceRuleStatus[] = ['active', 'upcoming', 'expired', 'disabled']
+
+// Item rules beat category rules, which beat menu rules
+const TARGET_PRECEDENCE: Record<PriceRuleTarget, number> = { item: 3, category: 2, menu: 1 }
+
+export interface PriceRuleState {
+  status: PriceRuleStatus
+  active_until: string | null  // When an active rule stops (ISO 8601, business timezone)
+  next_start: string | null    // When an upcoming rule starts
+}
+
+// Item fields price rules look at
+export interface PriceableItem {
+  id: string
+  menu_id: string
+  category_id: string | null
+  price: number
+  price_variants?: PriceVariant[] | null
+}
+
+/**
+ * Validate a price rule body (for updates, the existing rule merged with the changes)
+ */
+export function validatePriceRule(body: Record<string, unknown>): { values: Partial<PriceRule>; errors: string[] } {
+  const values: Partial<PriceRule> = {}
+  const errors: string[] = []
+  const has = (field: string) => body[field] !== undefined && body[field] !== null
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    errors.push('name is required')
+  } else {
+    values.name = body.name.trim()
+  }
+
+  if (!PRICE_RULE_TARGETS.includes(body.target_type as PriceRuleTarget)) {
+    errors.push(`target_type must be one of: ${PRICE_RULE_TARGETS.join(', ')}`)
+  } else {
+    values.target_type = body.target_type as PriceRuleTarget
+  }
+
+  if (typeof body.target_id !== 'string' || !body.target_id) {
+    errors.push('target_id is required')
+  } else {
+    values.target_id = body.target_id
+  }
+
+  if (!PRICE_RULE_TYPES.includes(body.type as PriceRuleType)) {
+    errors.push(`type must be one of: ${PRICE_RULE_TYPES.join(', ')}`)
+  } else {
+    values.type = body.type as PriceRuleType
+  }
+
+  if (typeof body.value !== 'number' || body.value < 0) {
+    errors.push('value must be a non-negative number')
+  } else {
+    values.value = body.value
+  }
+
+  if (values.type === 'percentage' && values.value !== undefined && values.value > 100) {
+    errors.push('value must be between 0 and 100 for percentage rules')
+  }
+
+  if (has('priority')) {
+    if (typeof body.priority !== 'number' || !Number.isInteger(body.priority)) {
+      errors.push('priority must be an integer')
+    } else {
+      values.priority = body.priority
+    }
+  }
+
+  if (has('is_active')) {
+    if (typeof body.is_active !== 'boolean') {
+      errors.push('is_active must be a boolean')
+    } else {
+      values.is_active = body.is_active
+    }
+  }
+
+  if (body.schedule !== undefined) {
+    const schedule = validateItemSchedule({ schedule: body.schedule })
+    errors.push(...schedule.errors)
+    values.schedule = schedule.values.schedule ?? null
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Where a rule stands at `at`: running now, starting later, over, or switched off
+ */
+export function getPriceRuleState(rule: PriceRule, timezone: string | null, at: Date = new Date()): PriceRuleState {
+  const tz = timezone || 'UTC'
+
+  if (!rule.is_active) {
+    return { status: 'disabled', active_until: null, next_start: null }
+  }
+
+  if (!rule.schedule) {
+    return { status: 'active', active_until: null, next_start: null }
+  }
+
+  const schedule = getItemSchedule(rule.schedule, tz)
+
+  if (isMenuAvailable(schedule, at)) {
+    const closing = getNextClosing(schedule, at)
+    return { status: 'active', active_until: closing ? toZonedISOString(closing, tz) : null, next_start: null }
+  }
+
+  const opening = getNextOpening(schedule, at)
+  return opening
+    ? { status: 'upcoming', active_until: null, next_start: toZonedISOString(opening, tz) }
+    : { status: 'expired', active_until: null, next_start: null }
+}
+
+/**
+ * Next instant after `at` where any of the rules starts or stops
+ */
+export function getNextPriceRuleChange(rules: PriceRule[], timezone: string | null, at: Date = new Date()): Date | null {
+  const times = rules
+    .filter(rule => rule.is_active && rule.schedule)
+    .map(rule => getNextAvailabilityChange(getItemSchedule(rule.schedule!, timezone || 'UTC'), at))
+    .filter((change): change is Date => !!change)
+    .map(change => change.getTime())
+
+  return times.length > 0 ? new Date(Math.min(...times)) : null
+}
+
+/**
+ * Load a business's enabled price rules
+ */
+export async function getBusinessPriceRules(supabase: SupabaseClient, businessId: string): Promise<PriceRule[]> {
+  const { data: rules } = await supabase
+    .from('price_rules')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('is_active', true)
+    .is('deleted_at', null)
+
+  return (rules || []) as PriceRule[]
+}
+
+/**
+ * Check that a rule's target exists in the business
+ */
+export async function priceRuleTargetExists(
+  supabase: SupabaseClient,
+  businessId: string,
+  targetType: PriceRuleTarget,
+  targetId: string
+): Promise<boolean> {
+  if (targetType === 'item') {
+    const { data } = await supabase
+      .from('menu_items')
+      .select('id, menus!inner(business_id)')
+      .eq('id', targetId)
+      .eq('menus.business_id', businessId)
+      .is('deleted_at', null)
+      .maybeSingle()
+    return !!data
+  }
+
+  const { data } = await supabase
+    .from(targetType === 'category' ? 'categories' : 'menus')
+    .select('id')
+    .eq('id', targetId)
+    .eq('business_id', businessId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  return !!data
+}
+
+/**
+ * Add effective_price and price_rule to items. The most specific running rule
+ * wins (item, then category, then menu); ties go to the higher priority, then
+ * the lower price. Items with no running rule keep their regular price.
+ * Variants get the same rule (a fixed_price rule sets every size to that price).
+ */
+export function applyPriceRules<I extends PriceableItem>(
+  items: I[],
+  rules: PriceRule[],
+  timezone: string | null,
+  at: Date = new Date()
+): Array<I & { effective_price: number; price_rule: AppliedPriceRule | null }> {
+  const running = rules
+    .map(rule => ({ rule, state: getPriceRuleState(rule, timezone, at) }))
+    .filter(({ state }) => state.status === 'active')
+
+  return items.map(item => {
+    let best: { rule: PriceRule; state: PriceRuleState; price: number; rank: [number, number] } | null = null
+
+    for (const { rule, state } of running) {
+      if (!appliesTo(rule, item)) continue
+
+      const price = getRulePrice(rule, item.price)
+      const rank: [number, number] = [TARGET_PRECEDENCE[rule.target_type], rule.priority || 0]
+
+      const better = !best ||
+        rank[0] > best.rank[0] ||
+        (rank[0] === best.rank[0] && rank[1] > best.rank[1]) ||
+        (rank[0] === best.rank[0] && rank[1] === best.rank[1] && price < best.price)
+
+      if (better) {
+        best = { rule, state, price, rank }
+      }
+    }
+
+    if (!best) {
+      return { ...item, effective_price: item.price, price_rule: null }
+    }
+
+    const { rule, state, price } = best
+
+    return {
+      ...item,
+      price_variants: item.price_variants
+        ? item.price_variants.map(variant => ({ ...variant, effective_price: getRulePrice(rule, variant.price) }))
+        : item.price_variants,
+      effective_price: price,
+      price_rule: {
+        id: rule.id,
+        name: rule.name,
+        type: rule.type,
+        value: rule.value,
+        target_type: rule.target_type,
+        ends_at: state.active_until
+      }
+    }
+  })
+}
+
+/**
+ * Price after a rule, rounded to cents
+ */
+export function getRulePrice(rule: Pick<PriceRule, 'type' | 'value'>, price: number): number {
+  const adjusted = rule.type === 'percentage' ? price * (1 - rule.value / 100) : rule.value
+  return Math.round(Math.max(adjusted, 0) * 100) / 100
+}
+
+function appliesTo(rule: PriceRule, item: PriceableItem): boolean {
+  switch (rule.target_type) {
+    case 'item':
+      return rule.target_id === item.id
+    case 'category':
+      return rule.target_id === item.category_id
+    case 'menu':
+      return rule.target_id === item.menu_id
+    default:
+      return false
+  }
+}
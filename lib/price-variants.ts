@@ -0,0 +1,81 @@
+// lib/price-variants.ts
+import type { PriceVariant, PriceVariantInput } from '@/types/api'
+
+/**
+ * Validate price_variants from an item body. Variants without an id get one;
+ * an empty list is stored as null (single price).
+ */
+export function validatePriceVariants(input: unknown): { values: PriceVariant[] | null; errors: string[] } {
+  if (input === null || input === undefined) {
+    return { values: null, errors: [] }
+  }
+
+  if (!Array.isArray(input)) {
+    return { values: null, errors: ['price_variants must be an array of { name, price, sku?, is_available? }'] }
+  }
+
+  const values: PriceVariant[] = []
+  const errors: string[] = []
+  const names = new Set<string>()
+
+  input.forEach((variant: Partial<PriceVariantInput>, i) => {
+    if (!variant || typeof variant !== 'object') {
+      errors.push(`price_variants[${i}] must be an object`)
+      return
+    }
+
+    if (typeof variant.name !== 'string' || !variant.name.trim()) {
+      errors.push(`price_variants[${i}].name is required`)
+      return
+    }
+
+    const key = variant.name.trim().toLowerCase()
+    if (names.has(key)) {
+      errors.push(`price_variants[${i}].name "${variant.name}" is used twice`)
+    }
+    names.add(key)
+
+    if (typeof variant.price !== 'number' || !isFinite(variant.price) || variant.price < 0) {
+      errors.push(`price_variants[${i}].price must be a non-negative number`)
+    }
+
+    if (variant.sku !== undefined && variant.sku !== null && typeof variant.sku !== 'string') {
+      errors.push(`price_variants[${i}].sku must be a string`)
+    }
+
+    if (variant.is_available !== undefined && typeof variant.is_available !== 'boolean') {
+      errors.push(`price_variants[${i}].is_available must be a boolean`)
+    }
+
+    values.push({
+      id: typeof variant.id === 'string' && variant.id ? variant.id : crypto.randomUUID(),
+      name: variant.name.trim(),
+      price: typeof variant.price === 'number' ? variant.price : 0,
+      sku: typeof variant.sku === 'string' && variant.sku.trim() ? variant.sku.trim() : null,
+      is_available: variant.is_available !== false
+    })
+  })
+
+  return { values: values.length > 0 ? values : null, errors }
+}
+
+/**
+ * Add from_price: the lowest price a guest can order the item at right now
+ * (available variants, after price rules). Single-price items get their own price.
+ */
+export function withFromPrice<T extends {
+  price: number
+  effective_price?: number
+  price_variants?: Array<PriceVariant & { effective_price?: number }> | null
+}>(items: T[]): Array<T & { from_price: number }> {
+  return items.map(item => {
+    const prices = (item.price_variants || [])
+      .filter(variant => variant.is_available)
+      .map(variant => variant.effective_price ?? variant.price)
+
+    return {
+      ...item,
+      from_price: prices.length > 0 ? Math.min(...prices) : item.effective_price ?? item.price
+    }
+  })
+}
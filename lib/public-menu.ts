@@ -0,0 +1,213 @@
+// lib/public-menu.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Business } from '@/types/api'
+import { getActiveMenus, resolveMenu, getAvailableMenus, describeFallback, getMenuTransitions, type ScheduledMenu } from './menu-resolver'
+import { getBusinessLanguages, resolveLanguage, translateMenuContent } from './menu-translations'
+import { getBusinessStatus, type BusinessStatus } from './business-hours'
+import { getPublicMenuContent } from './menu-versions'
+import { filterMenuContent, hasActiveFilters, type MenuFilters } from './menu-filters'
+import { withTaxonomyLabels } from './dietary-taxonomy'
+import { applyItemSchedules } from './item-availability'
+import { applyPriceRules, getBusinessPriceRules } from './price-rules'
+import { withFromPrice } from './price-variants'
+import { attachModifierGroups } from './modifier-groups'
+import { loadBundles, priceBundles } from './bundles'
+import { toPublicBusiness, toPublicMenu, toPublicPayload, type PayloadOptions } from './public-payload'
+import { cachedRead, getContentVersion, type ContentVersion } from './menu-cache'
+import type { ScheduleTransition } from './schedule-messages'
+
+// Business columns the public menu routes read
+export const PUBLIC_MENU_BUSINESS_COLUMNS = 'id, name, display_name, slug, description, logo_url, city, country, phone, address, currency, timezone, default_language, business_hours, holiday_closures, allow_browsing_when_closed, updated_at'
+
+export type PublicMenuBusiness = Pick<Business,
+  'id' | 'name' | 'display_name' | 'slug' | 'description' | 'logo_url' | 'city' | 'country' | 'phone' | 'address' | 'currency' |
+  'timezone' | 'default_language' | 'business_hours' | 'holiday_closures' | 'allow_browsing_when_closed' | 'updated_at'>
+
+export interface PublicMenuOptions {
+  filters: MenuFilters
+  payload: PayloadOptions
+}
+
+const DEFAULT_TEMPLATE = {
+  template_name: 'modern-minimal',
+  primary_color: '#ffc107',
+  secondary_color: '#212529',
+  accent_color: '#28a745'
+}
+
+export type PublicMenuResult =
+  | {
+      status: 'served'
+      data: Record<string, unknown>  // The public menu payload
+      version: ContentVersion
+      language: string
+    }
+  | {
+      status: 'business_closed'
+      business_status: BusinessStatus
+    }
+  | {
+      status: 'closed'
+      reason: 'location_closed' | 'no_menus_available'
+      requested_menu: ScheduledMenu | null
+      location: string | null
+      availability: string | null
+      next_opening: ScheduleTransition | null
+    }
+
+/**
+ * Build what a guest sees for a business (and optionally a requested menu):
+ * business hours, menu resolution, published content in the guest's language,
+ * item schedules, price rules, filters, badges, bundles and the compact payload.
+ * Every public menu route answers through this, so a scan gives the same
+ * result whichever URL the QR encodes. Reads are cached by content version;
+ * anything time-dependent is evaluated per request.
+ */
+export async function buildPublicMenu(
+  request: Request,
+  supabase: SupabaseClient,
+  business: PublicMenuBusiness,
+  requestedMenu: ScheduledMenu | null,
+  options: PublicMenuOptions
+): Promise<PublicMenuResult> {
+  // Content version: cached reads below are keyed by it
+  const version = await getContentVersion(supabase, business)
+  const cacheKey = (...parts: string[]) => ['public-menu', business.id, version.version, ...parts].join(':')
+
+  // Resolve which menu to serve using the business timezone
+  const allMenus = await cachedRead(cacheKey('menus'), () => getActiveMenus(supabase, business.id))
+  const resolution = resolveMenu(allMenus, requestedMenu, business.timezone)
+
+  // Guest language (?lang= or Accept-Language), also used for opening/closing times
+  const defaultLanguage = business.default_language || 'en'
+  const languages = await cachedRead(cacheKey('languages'), () => getBusinessLanguages(supabase, business.id, defaultLanguage))
+  const language = resolveLanguage(request, languages, defaultLanguage)
+
+  // Business closed (outside opening hours or holiday), unless browsing is allowed
+  const businessStatus = getBusinessStatus(business, business.timezone, language)
+
+  if (!businessStatus.is_open && !businessStatus.allow_browsing) {
+    return { status: 'business_closed', business_status: businessStatus }
+  }
+
+  const transitions = getMenuTransitions(resolution, allMenus, business.timezone, language)
+
+  if (resolution.status === 'closed') {
+    return {
+      status: 'closed',
+      reason: resolution.reason,
+      requested_menu: resolution.requested_menu,
+      location: resolution.location,
+      availability: resolution.availability,
+      next_opening: transitions.next_opening
+    }
+  }
+
+  const menu = resolution.menu
+
+  // Template settings (menu-specific or business default)
+  const template = await cachedRead(cacheKey('template', menu.id), async () => {
+    const { data: menuTemplate } = await supabase
+      .from('business_templates')
+      .select('*')
+      .eq('business_id', business.id)
+      .eq('menu_id', menu.id)
+      .single()
+
+    if (menuTemplate) return menuTemplate
+
+    const { data: businessTemplate } = await supabase
+      .from('business_templates')
+      .select('*')
+      .eq('business_id', business.id)
+      .is('menu_id', null)
+      .single()
+
+    return businessTemplate
+  })
+
+  // Published content (snapshot, or live until first published) with option groups
+  const content = await cachedRead(cacheKey('content', menu.id), async () => {
+    const published = await getPublicMenuContent(supabase, menu)
+    return {
+      ...published,
+      items: await attachModifierGroups(supabase, business.id, published.items, published.modifier_groups)
+    }
+  })
+
+  // Currently available menus, for navigation
+  const availableMenus = getAvailableMenus(allMenus, business.timezone)
+
+  // Localize menus, categories and items
+  const menusToTranslate = [
+    ...(resolution.fallback ? [resolution.fallback.requested_menu] : []),
+    ...availableMenus,
+    { ...menu, ...content.menu }  // Last, so the published name wins below
+  ]
+  const translated = await cachedRead(cacheKey('translated', language, ...menusToTranslate.map(m => m.id)), () =>
+    translateMenuContent(supabase, {
+      menus: menusToTranslate,
+      categories: content.categories,
+      items: content.items
+    }, language, defaultLanguage, content.translations && { menu_id: content.menu.id, translations: content.translations })
+  )
+
+  // Hide (or mark) items outside their own schedule
+  const scheduled = applyItemSchedules(translated.categories, translated.items, business.timezone, language)
+
+  // Happy hours and other time-based prices
+  const priceRules = await cachedRead(cacheKey('price-rules'), () => getBusinessPriceRules(supabase, business.id))
+  const priced = withFromPrice(applyPriceRules(scheduled.items, priceRules, business.timezone))
+
+  // Filter after translating so search matches the guest's language
+  const filtered = filterMenuContent(scheduled.categories, priced, options.filters)
+
+  // Localized allergen/dietary badges
+  const menuItems = withTaxonomyLabels(filtered.items, language)
+
+  // Combo meals with their component breakdown and savings, built from the
+  // items as served above (before filters, which only narrow the item list)
+  const menuBundles = await cachedRead(cacheKey('bundles', menu.id), () => loadBundles(supabase, business.id, menu.id))
+  const bundles = priceBundles(menuBundles, priced)
+
+  // Whitelisted fields, sized images and the requested page of categories
+  const payload = toPublicPayload(filtered.categories, menuItems, options.payload)
+
+  const translatedMenus = new Map(translated.menus.map(m => [m.id, m]))
+  const translatedMenu = translatedMenus.get(menu.id)!
+
+  return {
+    status: 'served',
+    version,
+    language,
+    data: {
+      business: toPublicBusiness(business, options.payload.image_size),
+      business_status: businessStatus,
+      menu: {
+        ...toPublicMenu({ ...translatedMenu, version: content.version_number }),
+        closes_at: transitions.closes_at
+      },
+      fallback: resolution.fallback
+        ? {
+            ...describeFallback(
+              resolution.fallback,
+              translatedMenus.get(resolution.fallback.requested_menu.id)!.name,
+              translatedMenu.name
+            ),
+            next_opening: transitions.next_opening
+          }
+        : null,
+      template: template || DEFAULT_TEMPLATE,
+      menus: availableMenus.map(m => toPublicMenu(translatedMenus.get(m.id)!)),
+      categories: payload.categories,
+      items: payload.items,
+      pagination: payload.pagination,
+      bundles,
+      filters: hasActiveFilters(options.filters)
+        ? { applied: options.filters, matched_items: filtered.items.length, total_items: priced.length }
+        : null,
+      language,
+      languages
+    }
+  }
+}
@@ -0,0 +1,221 @@
+// lib/public-payload.ts
+
+// Item fields guests can receive. Internal fields (sku, source, translation
+// bookkeeping, preparation_notes, schedules, timestamps...) never leave the server.
+export const PUBLIC_ITEM_FIELDS = [
+  'id',
+  'category_id',
+  'name',
+  'description',
+  'price',
+  'effective_price',
+  'from_price',
+  'price_rule',
+  'compare_at_price',
+  'price_variants',
+  'image_url',
+  'gallery_images',
+  'video_url',
+  'is_featured',
+  'is_available',
+  'subcategory',
+  'tags',
+  'allergens',
+  'dietary_flags',
+  'allergen_labels',
+  'dietary_labels',
+  'spice_level',
+  'portion_size',
+  'prep_time_minutes',
+  'ingredients',
+  'ingredient_list',
+  'nutritional_info',
+  'sort_order',
+  'schedule_status',
+  'modifier_groups'
+] as const
+
+export type PublicItemField = typeof PUBLIC_ITEM_FIELDS[number]
+
+// Public but heavy: only sent when listed in ?fields=
+const OPTIONAL_ITEM_FIELDS: PublicItemField[] = ['ingredients', 'nutritional_info', 'gallery_images', 'video_url']
+
+// Always sent, so items can be placed under their category
+const REQUIRED_ITEM_FIELDS: PublicItemField[] = ['id', 'category_id']
+
+export const PUBLIC_CATEGORY_FIELDS = ['id', 'name', 'slug', 'description', 'icon', 'display_order'] as const
+
+// Business and menu fields guests can receive (no contact email, website, billing or settings)
+export const PUBLIC_BUSINESS_FIELDS = ['id', 'name', 'display_name', 'slug', 'description', 'logo_url', 'city', 'country', 'phone', 'address', 'currency'] as const
+export const PUBLIC_MENU_FIELDS = ['id', 'name', 'slug', 'description', 'version'] as const
+
+export const IMAGE_SIZES = ['thumb', 'medium', 'full'] as const
+export type ImageSize = typeof IMAGE_SIZES[number]
+
+// Widths must be in Next's image sizes (images.imageSizes / deviceSizes)
+const IMAGE_WIDTHS: Record<Exclude<ImageSize, 'full'>, number> = {
+  thumb: 256,
+  medium: 640
+}
+// Must be listed in next.config.ts images.qualities (Next only allows 75 by default)
+const IMAGE_QUALITY = 75
+
+// Hosts allowed in next.config.ts images.remotePatterns; others are served as-is
+const OPTIMIZABLE_IMAGE_HOSTS = ['images.unsplash.com', 'placehold.co', 'via.placeholder.com']
+
+const MAX_CATEGORY_LIMIT = 50
+
+export interface PayloadOptions {
+  fields: PublicItemField[]
+  image_size: ImageSize
+  category_limit: number | null  // null = every category
+  category_offset: number
+}
+
+export interface CategoryPagination {
+  total: number
+  limit: number
+  offset: number
+  has_more: boolean
+}
+
+/**
+ * Read payload options from query params:
+ * ?fields=name,price,image_url&image_size=thumb|medium|full&category_limit=5&category_offset=10
+ * Images stay full size unless a smaller image_size is asked for.
+ */
+export function parsePayloadOptions(searchParams: URLSearchParams): { options: PayloadOptions; errors: string[] } {
+  const errors: string[] = []
+
+  let fields = PUBLIC_ITEM_FIELDS.filter(field => !OPTIONAL_ITEM_FIELDS.includes(field))
+  const requested = (searchParams.get('fields') || '')
+    .split(',')
+    .map(field => field.trim().toLowerCase())
+    .filter(Boolean)
+
+  if (requested.length > 0) {
+    const unknown = requested.filter(field => !(PUBLIC_ITEM_FIELDS as readonly string[]).includes(field))
+    if (unknown.length > 0) {
+      errors.push(`Unknown fields: ${unknown.join(', ')}. Allowed: ${PUBLIC_ITEM_FIELDS.join(', ')}`)
+    }
+    fields = PUBLIC_ITEM_FIELDS.filter(field => REQUIRED_ITEM_FIELDS.includes(field) || requested.includes(field))
+  }
+
+  const imageSize = (searchParams.get('image_size') || 'full').toLowerCase() as ImageSize
+  if (!IMAGE_SIZES.includes(imageSize)) {
+    errors.push(`image_size must be one of: ${IMAGE_SIZES.join(', ')}`)
+  }
+
+  const integer = (name: string, min: number, max: number) => {
+    const raw = searchParams.get(name)
+    if (raw === null || raw === '') return null
+    const value = Number(raw)
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${name} must be an integer between ${min} and ${max}`)
+      return null
+    }
+    return value
+  }
+
+  return {
+    options: {
+      fields,
+      image_size: imageSize,
+      category_limit: integer('category_limit', 1, MAX_CATEGORY_LIMIT),
+      category_offset: integer('category_offset', 0, Number.MAX_SAFE_INTEGER) || 0
+    },
+    errors
+  }
+}
+
+/**
+ * Compact public categories and items: whitelisted fields only, sized images,
+ * and one page of categories (with their items) when category_limit is set.
+ * Uncategorized items come with the first page.
+ */
+export function toPublicPayload<C extends { id: string }, I extends { category_id: string | null }>(
+  categories: C[],
+  items: I[],
+  options: PayloadOptions
+): { categories: Record<string, unknown>[]; items: Record<string, unknown>[]; pagination: CategoryPagination | null } {
+  let pageCategories = categories
+  let pageItems = items
+  let pagination: CategoryPagination | null = null
+
+  if (options.category_limit !== null) {
+    // Pages only count categories that have items
+    const used = new Set(items.map(item => item.category_id))
+    const listed = categories.filter(category => used.has(category.id))
+
+    const { category_limit: limit, category_offset: offset } = options
+    pageCategories = listed.slice(offset, offset + limit)
+
+    const onPage = new Set(pageCategories.map(category => category.id))
+    pageItems = items.filter(item => item.category_id ? onPage.has(item.category_id) : offset === 0)
+    pagination = { total: listed.length, limit, offset, has_more: listed.length > offset + limit }
+  }
+
+  return {
+    categories: pageCategories.map(category => pick(category, PUBLIC_CATEGORY_FIELDS)),
+    items: pageItems.map(item => {
+      const publicItem = pick(item, options.fields)
+
+      if (typeof publicItem.image_url === 'string') {
+        publicItem.image_url = getImageUrl(publicItem.image_url, options.image_size)
+      }
+      if (Array.isArray(publicItem.gallery_images)) {
+        publicItem.gallery_images = publicItem.gallery_images.map(url => getImageUrl(url, options.image_size))
+      }
+
+      return publicItem
+    }),
+    pagination
+  }
+}
+
+/**
+ * Public business fields, with the logo sized like item images
+ */
+export function toPublicBusiness(business: { logo_url: string | null }, imageSize: ImageSize): Record<string, unknown> {
+  const publicBusiness = pick(business, PUBLIC_BUSINESS_FIELDS)
+  publicBusiness.logo_url = getImageUrl(business.logo_url, imageSize)
+  return publicBusiness
+}
+
+/**
+ * Public menu fields (the served menu, with its published version number)
+ */
+export function toPublicMenu(menu: { id: string; version?: number | null }): Record<string, unknown> {
+  return pick(menu, PUBLIC_MENU_FIELDS)
+}
+
+/**
+ * URL of an image resized by the app's image optimizer ("full" = original)
+ */
+export function getImageUrl<T extends string | null>(url: T, size: ImageSize): T {
+  if (!url || size === 'full' || !isOptimizable(url)) return url
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://menuqr-backend.vercel.app'
+  return `${appUrl}/_next/image?url=${encodeURIComponent(url)}&w=${IMAGE_WIDTHS[size]}&q=${IMAGE_QUALITY}` as T
+}
+
+function isOptimizable(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url)
+    return protocol === 'https:' &&
+      (hostname.endsWith('.supabase.co') || OPTIMIZABLE_IMAGE_HOSTS.includes(hostname))
+  } catch {
+    return false
+  }
+}
+
+function pick(source: object, fields: readonly string[]): Record<string, unknown> {
+  const values = source as Record<string, unknown>
+  const picked: Record<string, unknown> = {}
+
+  for (const field of fields) {
+    if (field in values) picked[field] = values[field]
+  }
+
+  return picked
+}
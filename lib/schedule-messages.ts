@@ -0,0 +1,67 @@
+// lib/schedule-messages.ts
+import { getZonedDateTime, toZonedISOString } from './time-utils'
+
+export interface ScheduleTransition {
+  at: string       // ISO 8601 in the business timezone
+  message: string  // e.g. "Opens again tomorrow at 7:00 AM"
+}
+
+interface TransitionPhrases {
+  opens: string
+  closes: string
+  available: string      // Items: "Available today from 11:00 AM"
+  available_day: string  // All-day items: "Available on Friday"
+  weekday: string
+  date: string
+}
+
+// Sentence templates per language; day/time parts come from Intl in the same language
+const PHRASES: Record<string, TransitionPhrases> = {
+  en: { opens: 'Opens again {day} at {time}', closes: 'Closes {day} at {time}', available: 'Available {day} from {time}', available_day: 'Available {day}', weekday: 'on {weekday}', date: 'on {date}' },
+  fr: { opens: 'Réouverture {day} à {time}', closes: 'Fermeture {day} à {time}', available: 'Disponible {day} à partir de {time}', available_day: 'Disponible {day}', weekday: '{weekday}', date: 'le {date}' },
+  es: { opens: 'Vuelve a abrir {day} a las {time}', closes: 'Cierra {day} a las {time}', available: 'Disponible {day} desde las {time}', available_day: 'Disponible {day}', weekday: 'el {weekday}', date: 'el {date}' },
+  pt: { opens: 'Reabre {day} às {time}', closes: 'Fecha {day} às {time}', available: 'Disponível {day} a partir das {time}', available_day: 'Disponível {day}', weekday: '{weekday}', date: 'em {date}' },
+  de: { opens: 'Öffnet wieder {day} um {time}', closes: 'Schließt {day} um {time}', available: 'Verfügbar {day} ab {time}', available_day: 'Verfügbar {day}', weekday: 'am {weekday}', date: 'am {date}' },
+  it: { opens: 'Riapre {day} alle {time}', closes: 'Chiude {day} alle {time}', available: 'Disponibile {day} dalle {time}', available_day: 'Disponibile {day}', weekday: '{weekday}', date: 'il {date}' }
+}
+
+/**
+ * Describe when a menu opens or closes (or an item becomes available) next, relative to `now`:
+ * "today"/"tomorrow", the weekday within a week, else the date.
+ * Unsupported languages fall back to English.
+ */
+export function describeTransition(
+  kind: 'opens' | 'closes' | 'available' | 'available_day',
+  instant: Date,
+  timezone: string,
+  language: string = 'en',
+  now: Date = new Date()
+): ScheduleTransition {
+  const base = language.toLowerCase().split('-')[0]
+  const locale = PHRASES[base] ? language : 'en'
+  const phrases = PHRASES[base] || PHRASES.en
+
+  const days = daysBetween(getZonedDateTime(now, timezone).date, getZonedDateTime(instant, timezone).date)
+
+  let day: string
+  if (days <= 1) {
+    day = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(days, 'day')
+  } else if (days < 7) {
+    const weekday = new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: timezone }).format(instant)
+    day = phrases.weekday.replace('{weekday}', weekday)
+  } else {
+    const date = new Intl.DateTimeFormat(locale, { month: 'long', day: 'numeric', timeZone: timezone }).format(instant)
+    day = phrases.date.replace('{date}', date)
+  }
+
+  const time = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone: timezone }).format(instant)
+
+  return {
+    at: toZonedISOString(instant, timezone),
+    message: phrases[kind].replace('{day}', day).replace('{time}', time)
+  }
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000)
+}
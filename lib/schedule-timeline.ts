@@ -0,0 +1,271 @@
+// lib/schedule-timeline.ts
+import { getAvailableMenus, resolveMenu, type ScheduledMenu } from './menu-resolver'
+import { getBusinessHoursBreakpoints, getBusinessStatus, type BusinessHoursFields } from './business-hours'
+import { getAvailabilityMessage, getMenuSchedule, getScheduleBreakpoints, zonedTimeToUtc } from './time-utils'
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+interface MenuRef {
+  id: string
+  name: string
+  slug: string
+}
+
+// A menu QR that answers 403 during a segment
+export interface ClosedScan {
+  menu: MenuRef
+  location: string
+  reason: 'location_closed' | 'no_menus_available'
+}
+
+export interface TimelineSegment {
+  from: string  // HH:MM, inclusive
+  to: string    // HH:MM, exclusive (24:00 = end of day)
+  business_status: 'open' | 'outside_hours' | 'holiday'  // Closed without browsing = every scan gets 403 "Business closed"
+  served_menu: MenuRef | null       // What a business-slug scan serves
+  available_menus: MenuRef[]
+  closed_scans: ClosedScan[]
+}
+
+export interface TimelineDay {
+  date: string
+  day: string
+  segments: TimelineSegment[]
+}
+
+export interface ScheduleConflict {
+  type: 'overlap' | 'gap' | 'location_closed'
+  date: string
+  day: string
+  from: string
+  to: string
+  duration_minutes: number
+  location: string | null
+  priority?: number
+  menus: MenuRef[]
+  message: string
+}
+
+export interface WeeklyTimeline {
+  timezone: string
+  start_date: string
+  allow_browsing_when_closed: boolean
+  menus: Array<MenuRef & { location: string; priority: number; availability: string }>
+  days: TimelineDay[]
+  conflicts: ScheduleConflict[]
+  summary: {
+    overlaps: number
+    gaps: number
+    location_closures: number
+  }
+}
+
+/**
+ * Build a 7-day timeline of what the public resolver serves, plus conflicts:
+ * - overlap: two available menus with equal priority in the same location
+ * - gap: no menu available at all
+ * - location_closed: a menu QR would get the 403 "Location closed" response
+ * While the business is closed (hours or holidays, unless browsing is allowed)
+ * nothing is served and no conflicts are reported.
+ */
+export function buildWeeklyTimeline(
+  menus: ScheduledMenu[],
+  business: BusinessHoursFields,
+  timezone: string,
+  startDate: string
+): WeeklyTimeline {
+  const days: TimelineDay[] = []
+  const conflicts: ScheduleConflict[] = []
+
+  // Availability only changes at these minutes of the day
+  const breakpoints = [...new Set([
+    ...menus.flatMap(menu => getScheduleBreakpoints(getMenuSchedule(menu, timezone))),
+    ...getBusinessHoursBreakpoints(business, timezone)
+  ])].sort((a, b) => a - b)
+
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(startDate, offset)
+    const day = DAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()]
+    const segments: Array<TimelineSegment & { start: number; end: number }> = []
+
+    for (let i = 0; i < breakpoints.length - 1; i++) {
+      const start = breakpoints[i]
+      const end = breakpoints[i + 1]
+      const at = zonedTimeToUtc(`${date}T${formatMinutes(start)}`, timezone)!
+
+      const segment = {
+        start,
+        end,
+        from: formatMinutes(start),
+        to: formatMinutes(end),
+        ...evaluateInstant(menus, business, timezone, at)
+      }
+
+      // Merge with the previous segment when nothing changed
+      const previous = segments[segments.length - 1]
+      if (previous && sameState(previous, segment)) {
+        previous.end = end
+        previous.to = segment.to
+      } else {
+        segments.push(segment)
+      }
+    }
+
+    for (const segment of segments.filter(s => s.business_status === 'open' || business.allow_browsing_when_closed)) {
+      conflicts.push(...findConflicts(menus, segment, date, day))
+    }
+
+    days.push({
+      date,
+      day,
+      segments: segments.map(segment => ({
+        from: segment.from,
+        to: segment.to,
+        business_status: segment.business_status,
+        served_menu: segment.served_menu,
+        available_menus: segment.available_menus,
+        closed_scans: segment.closed_scans
+      }))
+    })
+  }
+
+  return {
+    timezone,
+    start_date: startDate,
+    allow_browsing_when_closed: !!business.allow_browsing_when_closed,
+    menus: menus.map(menu => ({
+      ...toRef(menu),
+      location: menu.location || 'general',
+      priority: menu.priority || 0,
+      availability: getAvailabilityMessage(getMenuSchedule(menu, timezone))
+    })),
+    days,
+    conflicts,
+    summary: {
+      overlaps: conflicts.filter(c => c.type === 'overlap').length,
+      gaps: conflicts.filter(c => c.type === 'gap').length,
+      location_closures: conflicts.filter(c => c.type === 'location_closed').length
+    }
+  }
+}
+
+function evaluateInstant(menus: ScheduledMenu[], business: BusinessHoursFields, timezone: string, at: Date) {
+  const status = getBusinessStatus(business, timezone, 'en', at)
+  const businessStatus = status.is_open ? 'open' as const : status.reason!
+
+  if (!status.is_open && !status.allow_browsing) {
+    return { business_status: businessStatus, served_menu: null, available_menus: [], closed_scans: [] }
+  }
+
+  const resolution = resolveMenu(menus, null, timezone, at)
+  const closedScans: ClosedScan[] = []
+
+  // What each menu's own QR code would answer
+  for (const menu of menus) {
+    const scan = resolveMenu(menus, menu, timezone, at)
+    if (scan.status === 'closed') {
+      closedScans.push({
+        menu: toRef(menu),
+        location: menu.location || 'general',
+        reason: scan.reason
+      })
+    }
+  }
+
+  return {
+    business_status: businessStatus,
+    served_menu: resolution.status === 'served' ? toRef(resolution.menu) : null,
+    available_menus: getAvailableMenus(menus, timezone, at).map(toRef),
+    closed_scans: closedScans
+  }
+}
+
+function findConflicts(
+  menus: ScheduledMenu[],
+  segment: TimelineSegment & { start: number; end: number },
+  date: string,
+  day: string
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = []
+  const base = {
+    date,
+    day,
+    from: segment.from,
+    to: segment.to,
+    duration_minutes: segment.end - segment.start
+  }
+
+  // Overlaps: equal priority in the same location
+  const availableIds = new Set(segment.available_menus.map(m => m.id))
+  const groups = new Map<string, ScheduledMenu[]>()
+  for (const menu of menus.filter(m => availableIds.has(m.id))) {
+    const key = `${menu.location || 'general'}|${menu.priority || 0}`
+    groups.set(key, [...(groups.get(key) || []), menu])
+  }
+
+  for (const [key, group] of groups) {
+    if (group.length < 2) continue
+    const [location, priority] = key.split('|')
+    conflicts.push({
+      ...base,
+      type: 'overlap',
+      location,
+      priority: Number(priority),
+      menus: group.map(toRef),
+      message: `${group.map(m => m.name).join(', ')} are all available in '${location}' with priority ${priority}; guests get whichever is listed first.`
+    })
+  }
+
+  // Gaps: nothing open at all
+  if (segment.available_menus.length === 0) {
+    conflicts.push({
+      ...base,
+      type: 'gap',
+      location: null,
+      menus: [],
+      message: 'No menu is available; every scan returns "No menus currently available".'
+    })
+  }
+
+  // Locations answering 403 "Location closed"
+  const closedLocations = new Map<string, MenuRef[]>()
+  for (const scan of segment.closed_scans.filter(s => s.reason === 'location_closed')) {
+    closedLocations.set(scan.location, [...(closedLocations.get(scan.location) || []), scan.menu])
+  }
+
+  for (const [location, closedMenus] of closedLocations) {
+    conflicts.push({
+      ...base,
+      type: 'location_closed',
+      location,
+      menus: closedMenus,
+      message: `Scanning ${closedMenus.map(m => m.name).join(', ')} returns "Location closed" for '${location}'.`
+    })
+  }
+
+  return conflicts
+}
+
+function sameState(a: TimelineSegment, b: TimelineSegment): boolean {
+  const key = (segment: TimelineSegment) => JSON.stringify([
+    segment.business_status,
+    segment.served_menu?.id || null,
+    segment.available_menus.map(m => m.id),
+    segment.closed_scans.map(s => `${s.menu.id}:${s.reason}`)
+  ])
+  return key(a) === key(b)
+}
+
+function toRef(menu: ScheduledMenu): MenuRef {
+  return { id: menu.id, name: menu.name, slug: menu.slug }
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
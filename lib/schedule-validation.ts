@@ -0,0 +1,251 @@
+// lib/schedule-validation.ts
+import type { ItemSchedule, ItemScheduleDisplay, RecurrenceRule, TimeWindow } from '@/types/api'
+
+// Menu columns that make up its schedule
+export const MENU_SCHEDULE_FIELDS = [
+  'location',
+  'is_time_restricted',
+  'available_from',
+  'available_to',
+  'days_of_week',
+  'start_date',
+  'end_date',
+  'active_dates',
+  'time_windows',
+  'recurrence_rules',
+  'priority'
+] as const
+
+// Fields of an item schedule (a subset of a menu schedule)
+export const ITEM_SCHEDULE_FIELDS = [
+  'time_windows',
+  'days_of_week',
+  'start_date',
+  'end_date',
+  'active_dates',
+  'recurrence_rules'
+] as const
+
+export const ITEM_SCHEDULE_DISPLAYS: ItemScheduleDisplay[] = ['hide', 'show_unavailable']
+
+export interface ScheduleValidationResult {
+  values: Record<string, unknown>
+  errors: string[]
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Validate the schedule fields of a menu create/update body.
+ * Only fields present in the body are returned; a non-empty time_windows
+ * makes the menu time-restricted.
+ */
+export function validateMenuSchedule(body: Record<string, unknown>): ScheduleValidationResult {
+  const values: Record<string, unknown> = {}
+  const errors: string[] = []
+
+  for (const field of MENU_SCHEDULE_FIELDS) {
+    if (body[field] !== undefined) {
+      values[field] = body[field]
+    }
+  }
+
+  if (values.location !== undefined && values.location !== null) {
+    if (typeof values.location !== 'string' || !values.location.trim()) {
+      errors.push('location must be a non-empty string')
+    } else {
+      values.location = values.location.trim().toLowerCase()
+    }
+  }
+
+  if (values.is_time_restricted !== undefined && typeof values.is_time_restricted !== 'boolean') {
+    errors.push('is_time_restricted must be a boolean')
+  }
+
+  for (const field of ['available_from', 'available_to'] as const) {
+    if (values[field] !== undefined && values[field] !== null && !isTime(values[field])) {
+      errors.push(`${field} must be a time in HH:MM format`)
+    }
+  }
+
+  if (values.days_of_week !== undefined && values.days_of_week !== null && !isDaysOfWeek(values.days_of_week)) {
+    errors.push('days_of_week must be an array of numbers from 0 (Sunday) to 6 (Saturday)')
+  }
+
+  for (const field of ['start_date', 'end_date'] as const) {
+    if (values[field] !== undefined && values[field] !== null && !isDate(values[field])) {
+      errors.push(`${field} must be a date in YYYY-MM-DD format`)
+    }
+  }
+
+  if (typeof values.start_date === 'string' && typeof values.end_date === 'string' && values.start_date > values.end_date) {
+    errors.push('start_date must be on or before end_date')
+  }
+
+  if (values.active_dates !== undefined && values.active_dates !== null) {
+    if (!Array.isArray(values.active_dates) || !values.active_dates.every(isDate)) {
+      errors.push('active_dates must be an array of dates in YYYY-MM-DD format')
+    }
+  }
+
+  if (values.priority !== undefined && (typeof values.priority !== 'number' || !Number.isInteger(values.priority))) {
+    errors.push('priority must be an integer')
+  }
+
+  if (values.time_windows !== undefined && values.time_windows !== null) {
+    errors.push(...validateTimeWindows(values.time_windows))
+    if (Array.isArray(values.time_windows) && values.time_windows.length > 0) {
+      values.is_time_restricted = true
+    }
+  }
+
+  if (values.recurrence_rules !== undefined && values.recurrence_rules !== null) {
+    errors.push(...validateRecurrenceRules(values.recurrence_rules))
+  }
+
+  return { values, errors }
+}
+
+/**
+ * Validate an item's schedule and schedule_display when present in the body.
+ * An empty schedule object is stored as null (always available).
+ */
+export function validateItemSchedule(body: {
+  schedule?: unknown
+  schedule_display?: unknown
+}): { values: { schedule?: ItemSchedule | null; schedule_display?: ItemScheduleDisplay }; errors: string[] } {
+  const values: { schedule?: ItemSchedule | null; schedule_display?: ItemScheduleDisplay } = {}
+  const errors: string[] = []
+
+  if (body.schedule_display !== undefined) {
+    if (!ITEM_SCHEDULE_DISPLAYS.includes(body.schedule_display as ItemScheduleDisplay)) {
+      errors.push(`schedule_display must be one of: ${ITEM_SCHEDULE_DISPLAYS.join(', ')}`)
+    } else {
+      values.schedule_display = body.schedule_display as ItemScheduleDisplay
+    }
+  }
+
+  if (body.schedule === undefined) {
+    return { values, errors }
+  }
+
+  if (body.schedule === null) {
+    values.schedule = null
+    return { values, errors }
+  }
+
+  if (typeof body.schedule !== 'object' || Array.isArray(body.schedule)) {
+    errors.push('schedule must be an object')
+    return { values, errors }
+  }
+
+  const schedule = body.schedule as Record<string, unknown>
+  const unknown = Object.keys(schedule).filter(field => !(ITEM_SCHEDULE_FIELDS as readonly string[]).includes(field))
+  if (unknown.length > 0) {
+    errors.push(`schedule has unknown fields: ${unknown.join(', ')} (allowed: ${ITEM_SCHEDULE_FIELDS.join(', ')})`)
+  }
+
+  const result = validateMenuSchedule(schedule)
+  errors.push(...result.errors.map(error => `schedule.${error}`))
+
+  const picked = Object.fromEntries(
+    ITEM_SCHEDULE_FIELDS
+      .filter(field => schedule[field] !== undefined && schedule[field] !== null)
+      .map(field => [field, schedule[field]])
+  ) as ItemSchedule
+
+  values.schedule = Object.keys(picked).length > 0 ? picked : null
+  return { values, errors }
+}
+
+/**
+ * Validate a list of time windows
+ */
+export function validateTimeWindows(input: unknown): string[] {
+  if (!Array.isArray(input)) {
+    return ['time_windows must be an array']
+  }
+
+  const errors: string[] = []
+
+  input.forEach((window: Partial<TimeWindow>, i) => {
+    if (!window || typeof window !== 'object') {
+      errors.push(`time_windows[${i}] must be an object`)
+      return
+    }
+    if (!isTime(window.from) || !isTime(window.to)) {
+      errors.push(`time_windows[${i}] needs from and to in HH:MM format`)
+    } else if (window.from === window.to) {
+      errors.push(`time_windows[${i}] from and to cannot be equal`)
+    }
+    if (window.days_of_week !== undefined && !isDaysOfWeek(window.days_of_week)) {
+      errors.push(`time_windows[${i}].days_of_week must be an array of numbers from 0 to 6`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Validate a list of recurrence rules
+ */
+export function validateRecurrenceRules(input: unknown): string[] {
+  if (!Array.isArray(input)) {
+    return ['recurrence_rules must be an array']
+  }
+
+  const errors: string[] = []
+
+  input.forEach((rule: Partial<RecurrenceRule> & Record<string, unknown>, i) => {
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`recurrence_rules[${i}] must be an object`)
+      return
+    }
+
+    if (rule.months !== undefined && !isIntArray(rule.months, 1, 12)) {
+      errors.push(`recurrence_rules[${i}].months must be an array of numbers from 1 to 12`)
+    }
+
+    switch (rule.type) {
+      case 'nth_weekday':
+        if (!isIntArray([rule.weekday], 0, 6)) {
+          errors.push(`recurrence_rules[${i}].weekday must be a number from 0 (Sunday) to 6 (Saturday)`)
+        }
+        if (![1, 2, 3, 4, 5, -1].includes(rule.nth as number)) {
+          errors.push(`recurrence_rules[${i}].nth must be 1-5, or -1 for the last one`)
+        }
+        break
+      case 'weekdays':
+        if (!isDaysOfWeek(rule.days_of_week) || (rule.days_of_week as number[]).length === 0) {
+          errors.push(`recurrence_rules[${i}].days_of_week must be a non-empty array of numbers from 0 to 6`)
+        }
+        break
+      case 'day_of_month':
+        if (!isIntArray(rule.days, 1, 31) || (rule.days as number[]).length === 0) {
+          errors.push(`recurrence_rules[${i}].days must be a non-empty array of numbers from 1 to 31`)
+        }
+        break
+      default:
+        errors.push(`recurrence_rules[${i}].type must be one of: nth_weekday, weekdays, day_of_month`)
+    }
+  })
+
+  return errors
+}
+
+function isTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value)
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime())
+}
+
+function isDaysOfWeek(value: unknown): value is number[] {
+  return isIntArray(value, 0, 6)
+}
+
+function isIntArray(value: unknown, min: number, max: number): value is number[] {
+  return Array.isArray(value) && value.every(v => Number.isInteger(v) && v >= min && v <= max)
+}
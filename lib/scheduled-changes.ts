@@ -0,0 +1,347 @@
+// lib/scheduled-changes.ts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { MenuItemPlacement, MenuSnapshot, ScheduledChange, ScheduledChangeInput, ScheduledChangeTarget } from '@/types/api'
+import { publishMenuVersion } from './menu-versions'
+import { validateItemSchedule, validateMenuSchedule, MENU_SCHEDULE_FIELDS } from './schedule-validation'
+import { validateItemTaxonomy } from './dietary-taxonomy'
+
+// Fields that can be changed on a schedule, per target
+export const SCHEDULABLE_FIELDS: Record<ScheduledChangeTarget, readonly string[]> = {
+  item: [
+    'name', 'description', 'price', 'compare_at_price', 'category_id', 'is_available', 'is_featured',
+    'image_url', 'tags', 'allergens', 'dietary_flags', 'spice_level', 'portion_size', 'prep_time_minutes', 'sort_order',
+    'schedule', 'schedule_display'
+  ],
+  category: ['name', 'description', 'icon', 'display_order', 'is_active'],
+  menu: ['name', 'description', 'is_active', 'display_order', ...MENU_SCHEDULE_FIELDS]
+}
+
+export const TARGET_TABLES: Record<ScheduledChangeTarget, string> = {
+  item: 'menu_items',
+  category: 'categories',
+  menu: 'menus'
+}
+
+// A change still 'applying' after this long was claimed by a run that died
+const CLAIM_TIMEOUT_MINUTES = 10
+
+export interface AppliedChangesResult {
+  applied: number
+  failed: number
+  requeued: number
+  republished_menus: string[]
+  results: Array<{ id: string; status: 'applied' | 'failed'; error?: string }>
+}
+
+/**
+ * Validate one queued change (target and field values)
+ */
+export function validateScheduledChange(input: Partial<ScheduledChangeInput>, index: number): string[] {
+  const prefix = `changes[${index}]`
+
+  if (!input || typeof input !== 'object') {
+    return [`${prefix} must be an object`]
+  }
+
+  if (!input.target_type || !(input.target_type in SCHEDULABLE_FIELDS)) {
+    return [`${prefix}.target_type must be one of: item, category, menu`]
+  }
+
+  const errors: string[] = []
+
+  if (!input.target_id || typeof input.target_id !== 'string') {
+    errors.push(`${prefix}.target_id is required`)
+  }
+
+  if (!input.changes || typeof input.changes !== 'object' || Object.keys(input.changes).length === 0) {
+    errors.push(`${prefix}.changes must be an object with at least one field`)
+    return errors
+  }
+
+  const allowed = SCHEDULABLE_FIELDS[input.target_type]
+  const unknown = Object.keys(input.changes).filter(field => !allowed.includes(field))
+  if (unknown.length > 0) {
+    errors.push(`${prefix}.changes has fields that cannot be scheduled: ${unknown.join(', ')}`)
+  }
+
+  for (const field of ['price', 'compare_at_price'] as const) {
+    const value = input.changes[field]
+    if (value !== undefined && value !== null && (typeof value !== 'number' || value < 0)) {
+      errors.push(`${prefix}.changes.${field} must be a non-negative number`)
+    }
+  }
+
+  if (input.target_type === 'menu') {
+    errors.push(...validateMenuSchedule(input.changes).errors.map(error => `${prefix}.changes: ${error}`))
+  }
+
+  if (input.target_type === 'item') {
+    errors.push(...validateItemTaxonomy(input.changes).errors.map(error => `${prefix}.changes: ${error}`))
+    errors.push(...validateItemSchedule(input.changes).errors.map(error => `${prefix}.changes: ${error}`))
+  }
+
+  if (input.changes.name !== undefined && (typeof input.changes.name !== 'string' || !input.changes.name.trim())) {
+    errors.push(`${prefix}.changes.name cannot be empty`)
+  }
+
+  return errors
+}
+
+/**
+ * Apply every pending change whose effective_at has passed, oldest first.
+ * Each change is claimed before applying so overlapping runs don't apply it twice;
+ * claims older than 10 minutes (crashed or timed-out runs) go back to pending.
+ * The previous field values are recorded on the change. Menus that have a
+ * published version get a new version with just these changes applied, so
+ * unrelated draft edits are not published along with them.
+ */
+export async function applyDueChanges(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<AppliedChangesResult> {
+  const result: AppliedChangesResult = { applied: 0, failed: 0, requeued: 0, republished_menus: [], results: [] }
+
+  // Re-queue stale claims (rows claimed before claimed_at existed have none)
+  const staleBefore = new Date(now.getTime() - CLAIM_TIMEOUT_MINUTES * 60 * 1000).toISOString()
+  const { data: requeued, error: requeueError } = await supabase
+    .from('scheduled_changes')
+    .update({ status: 'pending', claimed_at: null })
+    .eq('status', 'applying')
+    .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+    .select('id')
+
+  if (requeueError) {
+    console.error('Re-queue scheduled changes error:', requeueError)
+  }
+  result.requeued = (requeued || []).length
+
+  const { data: due, error } = await supabase
+    .from('scheduled_changes')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('effective_at', now.toISOString())
+    .order('effective_at', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(500)
+
+  if (error) {
+    throw new Error(`Failed to load scheduled changes: ${error.message}`)
+  }
+
+  const appliedChanges: ScheduledChange[] = []
+
+  for (const change of (due || []) as ScheduledChange[]) {
+    // Claim it
+    const { data: claimed } = await supabase
+      .from('scheduled_changes')
+      .update({ status: 'applying', claimed_at: new Date().toISOString() })
+      .eq('id', change.id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (!claimed || claimed.length === 0) continue
+
+    const applyError = await applyChange(supabase, change)
+
+    if (applyError) {
+      await supabase
+        .from('scheduled_changes')
+        .update({ status: 'failed', error: applyError })
+        .eq('id', change.id)
+
+      result.failed++
+      result.results.push({ id: change.id, status: 'failed', error: applyError })
+      continue
+    }
+
+    appliedChanges.push(change)
+    result.applied++
+    result.results.push({ id: change.id, status: 'applied' })
+  }
+
+  if (appliedChanges.length > 0) {
+    result.republished_menus = await republishAffectedMenus(supabase, appliedChanges)
+  }
+
+  return result
+}
+
+// Update the target row and record what it was before
+async function applyChange(supabase: SupabaseClient, change: ScheduledChange): Promise<string | null> {
+  const table = TARGET_TABLES[change.target_type]
+  const fields = Object.keys(change.changes)
+
+  const { data: current } = await supabase
+    .from(table)
+    .select(fields.join(', '))
+    .eq('id', change.target_id)
+    .is('deleted_at', null)
+    .single()
+
+  if (!current) {
+    return `${change.target_type} ${change.target_id} no longer exists`
+  }
+
+  const { error: updateError } = await supabase
+    .from(table)
+    .update({
+      ...change.changes,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', change.target_id)
+
+  if (updateError) {
+    return updateError.message
+  }
+
+  const { error: recordError } = await supabase
+    .from('scheduled_changes')
+    .update({
+      status: 'applied',
+      previous_values: current,
+      applied_at: new Date().toISOString(),
+      error: null
+    })
+    .eq('id', change.id)
+
+  if (recordError) {
+    console.error('Record scheduled change error:', recordError)
+  }
+
+  return null
+}
+
+// Patch the published snapshots of affected menus with the applied changes
+async function republishAffectedMenus(supabase: SupabaseClient, changes: ScheduledChange[]): Promise<string[]> {
+  const itemIds = changes.filter(c => c.target_type === 'item').map(c => c.target_id)
+  const businessIds = [...new Set(changes.filter(c => c.target_type === 'category').map(c => c.business_id))]
+
+  const menuIds = new Set(changes.filter(c => c.target_type === 'menu').map(c => c.target_id))
+
+  // Menus listing the items: their own menu and every menu they are placed on
+  const placements = new Map<string, MenuItemPlacement>()
+
+  if (itemIds.length > 0) {
+    const [{ data: items }, { data: itemPlacements }] = await Promise.all([
+      supabase
+        .from('menu_items')
+        .select('menu_id')
+        .in('id', itemIds),
+      supabase
+        .from('menu_item_placements')
+        .select('*')
+        .in('item_id', itemIds)
+        .is('deleted_at', null)
+    ])
+
+    for (const item of items || []) menuIds.add(item.menu_id)
+    for (const placement of (itemPlacements || []) as MenuItemPlacement[]) {
+      menuIds.add(placement.menu_id)
+      placements.set(placement.id, placement)
+    }
+  }
+
+  if (businessIds.length > 0) {
+    const { data: businessMenus } = await supabase
+      .from('menus')
+      .select('id')
+      .in('business_id', businessIds)
+      .is('deleted_at', null)
+    for (const menu of businessMenus || []) menuIds.add(menu.id)
+  }
+
+  if (menuIds.size === 0) return []
+
+  const { data: publishedMenus } = await supabase
+    .from('menus')
+    .select('id, business_id, published_version_id')
+    .in('id', [...menuIds])
+    .not('published_version_id', 'is', null)
+
+  const republished: string[] = []
+
+  for (const menu of publishedMenus || []) {
+    const { data: version } = await supabase
+      .from('menu_versions')
+      .select('snapshot')
+      .eq('id', menu.published_version_id)
+      .single()
+
+    if (!version) continue
+
+    const snapshot = patchSnapshot(version.snapshot as MenuSnapshot, menu.id, changes, placements)
+    if (!snapshot) continue
+
+    const { error } = await publishMenuVersion(supabase, menu.id, menu.business_id, snapshot, {
+      userId: changes.find(c => c.business_id === menu.business_id)!.created_by,
+      notes: 'Scheduled changes applied'
+    })
+
+    if (error) {
+      console.error('Republish after scheduled changes error:', error)
+      continue
+    }
+
+    republished.push(menu.id)
+  }
+
+  return republished
+}
+
+// Apply changes to a snapshot; null when none of them touch it
+function patchSnapshot(
+  snapshot: MenuSnapshot,
+  menuId: string,
+  changes: ScheduledChange[],
+  placements: Map<string, MenuItemPlacement>
+): MenuSnapshot | null {
+  let touched = false
+  const patched: MenuSnapshot = {
+    ...snapshot,
+    menu: { ...snapshot.menu },
+    categories: snapshot.categories.map(category => ({ ...category })),
+    items: snapshot.items.map(item => ({ ...item }))
+  }
+
+  for (const change of changes) {
+    if (change.target_type === 'menu' && change.target_id === menuId) {
+      const content = pick(change.changes, ['name', 'description'])
+      if (Object.keys(content).length > 0) {
+        patched.menu = { ...patched.menu, ...content }
+        touched = true
+      }
+    }
+
+    const rows: Array<{ id: string }> = change.target_type === 'item'
+      ? patched.items
+      : change.target_type === 'category' ? patched.categories : []
+    const row = rows.find(r => r.id === change.target_id)
+
+    if (row) {
+      const placementId = (row as { placement_id?: string | null }).placement_id
+      const placement = placementId ? placements.get(placementId) : undefined
+
+      Object.assign(row, placement ? throughPlacement(change.changes, placement) : change.changes)
+      touched = true
+    }
+  }
+
+  return touched ? patched : null
+}
+
+// Item changes as they show on a menu the item is placed on: the placement's
+// own price, category and order win, and it can only hide the item
+function throughPlacement(changes: Record<string, unknown>, placement: MenuItemPlacement): Record<string, unknown> {
+  const placed = { ...changes }
+  delete placed.sort_order
+
+  if (placement.price !== null) delete placed.price
+  if (placement.category_id !== null) delete placed.category_id
+  if (typeof placed.is_available === 'boolean') placed.is_available = placed.is_available && placement.is_available
+
+  return placed
+}
+
+function pick(values: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([field]) => fields.includes(field)))
+}
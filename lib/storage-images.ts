@@ -0,0 +1,65 @@
+// lib/storage-images.ts
+
+// Server-side image downloads (PDF logos, offline bundle images) only go to the
+// app's own Supabase storage, and are bounded in time and size
+const STORAGE_PATH_PREFIX = '/storage/v1/object/public/'
+const FETCH_TIMEOUT_MS = 5000
+export const MAX_STORAGE_IMAGE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Whether a URL is a public file in the app's Supabase storage
+ */
+export function isStorageUrl(url: string): boolean {
+  try {
+    const { protocol, host, pathname } = new URL(url)
+    const storage = new URL(process.env.NEXT_PUBLIC_SUPABASE_URL!)
+    return protocol === 'https:' && host === storage.host && pathname.startsWith(STORAGE_PATH_PREFIX)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Download an image from the app's storage; null when the URL points
+ * elsewhere, the download fails or times out, or it is over `maxBytes`
+ */
+export async function fetchStorageImage(url: string, maxBytes: number = MAX_STORAGE_IMAGE_SIZE): Promise<Uint8Array | null> {
+  if (!isStorageUrl(url)) return null
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS), redirect: 'error' })
+    if (!response.ok || !response.body) return null
+
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body.cancel()
+      return null
+    }
+
+    // Count while reading: Content-Length can be missing or wrong
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      size += value.length
+      if (size > maxBytes) {
+        await reader.cancel()
+        return null
+      }
+      chunks.push(value)
+    }
+
+    const data = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+      data.set(chunk, offset)
+      offset += chunk.length
+    }
+    return data
+  } catch {
+    return null
+  }
+}
@@ -45,10 +45,12 @@ interface SubscriptionPlan {
 
 /**
  * Main function - checks if business can create more resources
+ * (`quantity` of them at once, e.g. when cloning a menu's items)
  */
 export async function checkSubscriptionLimit(
   businessId: string,
-  resource: ResourceType
+  resource: ResourceType,
+  quantity: number = 1
 ): Promise<SubscriptionCheckResult> {
   
   try {
@@ -175,12 +177,14 @@ export async function checkSubscriptionLimit(
     }
 
     // STEP 3: Check if limit exceeded
-    if (limit !== Infinity && currentCount >= limit) {
+    if (limit !== Infinity && currentCount + quantity > limit) {
       return {
         allowed: false,
         error: {
           code: 'LIMIT_EXCEEDED',
-          message: `You've reached the maximum number of ${resource} for your ${plan.name} plan (${currentCount}/${limit})`,
+          message: quantity > 1
+            ? `Adding ${quantity} ${resource} would exceed the maximum for your ${plan.name} plan (${currentCount}/${limit})`
+            : `You've reached the maximum number of ${resource} for your ${plan.name} plan (${currentCount}/${limit})`,
           details: {
             resource,
             limit,
@@ -1,6 +1,7 @@
 // lib/time-utils.ts
+import type { ItemSchedule, RecurrenceRule, TimeWindow } from '@/types/api'
 
-interface TimeSchedule {
+export interface TimeSchedule {
   is_time_restricted: boolean
   available_from: string | null
   available_to: string | null
@@ -10,6 +11,73 @@ interface TimeSchedule {
   end_date: string | null
   active_dates: string[] | null
   priority: number
+  time_windows?: TimeWindow[] | null         // Several windows / per-weekday hours
+  recurrence_rules?: RecurrenceRule[] | null // e.g. first Friday of every month
+}
+
+// Schedule columns as stored on a menus row
+export interface MenuScheduleFields {
+  is_time_restricted: boolean | null
+  available_from: string | null
+  available_to: string | null
+  days_of_week: number[] | null
+  start_date: string | null
+  end_date: string | null
+  active_dates: string[] | null
+  priority: number | null
+  time_windows?: TimeWindow[] | null
+  recurrence_rules?: RecurrenceRule[] | null
+}
+
+// A moment as seen on the wall clock of a timezone
+export interface ZonedDateTime {
+  date: string       // YYYY-MM-DD
+  dayOfWeek: number  // 0 = Sunday, 6 = Saturday
+  minutes: number    // Minutes since local midnight
+}
+
+/**
+ * Build a menu's schedule in the business timezone
+ */
+export function getMenuSchedule(menu: MenuScheduleFields, timezone: string | null): TimeSchedule {
+  const hasWindows = !!menu.time_windows && menu.time_windows.length > 0
+
+  return {
+    is_time_restricted: menu.is_time_restricted || hasWindows,
+    available_from: menu.available_from,
+    available_to: menu.available_to,
+    days_of_week: menu.days_of_week || [0, 1, 2, 3, 4, 5, 6],
+    timezone: timezone || 'UTC',
+    start_date: menu.start_date,
+    end_date: menu.end_date,
+    active_dates: menu.active_dates,
+    priority: menu.priority || 0,
+    time_windows: menu.time_windows || null,
+    recurrence_rules: menu.recurrence_rules || null
+  }
+}
+
+/**
+ * Build an item's schedule in the business timezone.
+ * days_of_week without time windows means all day on those days.
+ */
+export function getItemSchedule(item: ItemSchedule, timezone: string | null): TimeSchedule {
+  const hasWindows = !!item.time_windows && item.time_windows.length > 0
+  const allDay: TimeWindow[] | null = item.days_of_week ? [{ from: '00:00', to: '23:59' }] : null
+
+  return {
+    is_time_restricted: hasWindows || !!allDay,
+    available_from: null,
+    available_to: null,
+    days_of_week: item.days_of_week || [0, 1, 2, 3, 4, 5, 6],
+    timezone: timezone || 'UTC',
+    start_date: item.start_date || null,
+    end_date: item.end_date || null,
+    active_dates: item.active_dates || null,
+    priority: 0,
+    time_windows: hasWindows ? item.time_windows : allDay,
+    recurrence_rules: item.recurrence_rules || null
+  }
 }
 
 /**
@@ -39,14 +107,82 @@ function isDateAvailable(schedule: TimeSchedule, currentDate: Date): boolean {
 }
 
 /**
- * Check if a menu is currently available based on time and date restrictions
+ * Check if a date (YYYY-MM-DD) matches the schedule's recurrence rules (any rule matches)
  */
-export function isMenuAvailable(schedule: TimeSchedule): boolean {
-  try {
-    // Get current date/time in the menu's timezone
-    const now = new Date()
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: schedule.timezone,
+function matchesRecurrence(schedule: TimeSchedule, date: string): boolean {
+  const rules = schedule.recurrence_rules
+  if (!rules || rules.length === 0) {
+    return true
+  }
+
+  const [year, month, day] = date.split('-').map(Number)
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+
+  return rules.some(rule => {
+    if (rule.months && rule.months.length > 0 && !rule.months.includes(month)) {
+      return false
+    }
+
+    switch (rule.type) {
+      case 'nth_weekday':
+        if (dayOfWeek !== rule.weekday) return false
+        return rule.nth === -1
+          ? day + 7 > daysInMonth
+          : Math.ceil(day / 7) === rule.nth
+      case 'weekdays':
+        return rule.days_of_week.includes(dayOfWeek)
+      case 'day_of_month':
+        return rule.days.includes(day)
+      default:
+        return false
+    }
+  })
+}
+
+/**
+ * Check a date against both date restrictions and recurrence rules
+ */
+function isServiceDateAvailable(schedule: TimeSchedule, date: string): boolean {
+  return isDateAvailable(schedule, new Date(date)) && matchesRecurrence(schedule, date)
+}
+
+/**
+ * Check multi-window schedules. The after-midnight part of an overnight
+ * window (e.g. Fri 22:00 - 02:00) belongs to the day the window opened.
+ */
+function isWithinTimeWindows(schedule: TimeSchedule, zoned: ZonedDateTime): boolean {
+  return (schedule.time_windows || []).some(window => {
+    const from = toMinutes(window.from)
+    const to = toMinutes(window.to)
+    const days = window.days_of_week && window.days_of_week.length > 0
+      ? window.days_of_week
+      : schedule.days_of_week
+
+    const overnight = to < from
+    const inSameDayPart = overnight ? zoned.minutes >= from : zoned.minutes >= from && zoned.minutes <= to
+    const inAfterMidnightPart = overnight && zoned.minutes <= to
+
+    if (!inSameDayPart && !inAfterMidnightPart) {
+      return false
+    }
+
+    const serviceDate = inSameDayPart ? zoned.date : addDays(zoned.date, -1)
+    const serviceDay = inSameDayPart ? zoned.dayOfWeek : (zoned.dayOfWeek + 6) % 7
+
+    return days.includes(serviceDay) && isServiceDateAvailable(schedule, serviceDate)
+  })
+}
+
+// Building a DateTimeFormat is costly; schedule scans format thousands of instants
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone)
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
@@ -56,17 +192,73 @@ export function isMenuAvailable(schedule: TimeSchedule): boolean {
       hour12: false,
       weekday: 'short'
     })
+    zonedFormatters.set(timezone, formatter)
+  }
 
-    const parts = formatter.formatToParts(now)
-    const year = parts.find(p => p.type === 'year')?.value
-    const month = parts.find(p => p.type === 'month')?.value
-    const day = parts.find(p => p.type === 'day')?.value
-    const currentTime = `${parts.find(p => p.type === 'hour')?.value}:${parts.find(p => p.type === 'minute')?.value}:${parts.find(p => p.type === 'second')?.value}`
-    
-    const currentDate = new Date(`${year}-${month}-${day}`)
+  return formatter
+}
+
+/**
+ * Get the wall-clock date, weekday and time of an instant in a timezone
+ */
+export function getZonedDateTime(at: Date, timezone: string): ZonedDateTime {
+  const parts = getZonedFormatter(timezone).formatToParts(at)
+  const get = (type: string) => parts.find(p => p.type === type)?.value || ''
+
+  // Get day of week (0 = Sunday, 6 = Saturday)
+  const dayMap: { [key: string]: number } = {
+    'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
+  }
+
+  // Some engines format midnight as 24:00 with hour12: false
+  const hour = Number(get('hour')) % 24
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    dayOfWeek: dayMap[get('weekday')] ?? 0,
+    minutes: hour * 60 + Number(get('minute'))
+  }
+}
+
+/**
+ * Convert a wall-clock time in a timezone (e.g. "2026-03-01T12:30") to a UTC instant
+ */
+export function zonedTimeToUtc(localDateTime: string, timezone: string): Date | null {
+  const match = localDateTime.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/)
+  if (!match) return null
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+
+  // Offset of the timezone at a given instant, in ms
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedDateTime(new Date(instant), timezone)
+    const [y, m, d] = zoned.date.split('-').map(Number)
+    const seconds = new Date(instant).getUTCSeconds()
+    return Date.UTC(y, m - 1, d, Math.floor(zoned.minutes / 60), zoned.minutes % 60, seconds) - instant
+  }
+
+  // Second pass corrects instants that straddle a DST change
+  const firstGuess = wallClock - offsetAt(wallClock)
+  return new Date(wallClock - offsetAt(firstGuess))
+}
+
+/**
+ * Check if a menu is available based on time and date restrictions.
+ * Evaluates at `at` (defaults to now) in the schedule's timezone.
+ */
+export function isMenuAvailable(schedule: TimeSchedule, at: Date = new Date()): boolean {
+  try {
+    // Get date/time in the menu's timezone
+    const zoned = getZonedDateTime(at, schedule.timezone)
+
+    // Multiple windows / per-weekday hours
+    if (schedule.time_windows && schedule.time_windows.length > 0) {
+      return isWithinTimeWindows(schedule, zoned)
+    }
 
     // Check date availability first
-    if (!isDateAvailable(schedule, currentDate)) {
+    if (!isServiceDateAvailable(schedule, zoned.date)) {
       return false
     }
 
@@ -80,24 +272,16 @@ export function isMenuAvailable(schedule: TimeSchedule): boolean {
       return false
     }
 
-    // Get current day of week (0 = Sunday, 6 = Saturday)
-    const dayStr = parts.find(p => p.type === 'weekday')?.value
-    const dayMap: { [key: string]: number } = {
-      'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
-    }
-    const currentDay = dayMap[dayStr || 'Sun']
-
     // Check if current day is in allowed days
-    if (!schedule.days_of_week.includes(currentDay)) {
+    if (!schedule.days_of_week.includes(zoned.dayOfWeek)) {
       return false
     }
 
     // Parse times for comparison
-    const [currentHour, currentMinute] = currentTime.split(':').map(Number)
     const [fromHour, fromMinute] = schedule.available_from.split(':').map(Number)
     const [toHour, toMinute] = schedule.available_to.split(':').map(Number)
 
-    const currentMinutes = currentHour * 60 + currentMinute
+    const currentMinutes = zoned.minutes
     const fromMinutes = fromHour * 60 + fromMinute
     const toMinutes = toHour * 60 + toMinute
 
@@ -114,10 +298,124 @@ export function isMenuAvailable(schedule: TimeSchedule): boolean {
   }
 }
 
+/**
+ * Minutes of the day (0-1440) at which a schedule can switch between available and unavailable.
+ * Availability is constant between consecutive breakpoints; `available_to` is inclusive,
+ * so the switch happens one minute after it.
+ */
+export function getScheduleBreakpoints(schedule: TimeSchedule): number[] {
+  const breakpoints = [0, 1440]
+
+  for (const window of getTimeWindows(schedule)) {
+    breakpoints.push(toMinutes(window.from), (toMinutes(window.to) + 1) % 1440)
+  }
+
+  return breakpoints
+}
+
+/**
+ * Find the next instant after `at` where the schedule switches between
+ * available and unavailable (i.e. the next opening when closed, the next
+ * closing when open). Returns null when it never changes within a year.
+ * While closed, days the date rules exclude are skipped whole, and the scan
+ * stops after the last date the rules allow.
+ */
+export function getNextAvailabilityChange(schedule: TimeSchedule, at: Date = new Date()): Date | null {
+  const currentlyAvailable = isMenuAvailable(schedule, at)
+  const breakpoints = [...new Set(getScheduleBreakpoints(schedule))]
+    .filter(minute => minute < 1440)
+    .sort((a, b) => a - b)
+
+  // Weekly schedules repeat within 8 days; date and recurrence rules can take up to a year
+  const hasDateRules = !!schedule.start_date || !!schedule.end_date ||
+    (!!schedule.active_dates && schedule.active_dates.length > 0) ||
+    (!!schedule.recurrence_rules && schedule.recurrence_rules.length > 0)
+  const horizon = hasDateRules ? 366 : 8
+
+  // Active dates win over the date range (see isDateAvailable)
+  const lastDate = schedule.active_dates && schedule.active_dates.length > 0
+    ? [...schedule.active_dates].sort().pop()!
+    : schedule.end_date
+
+  const today = getZonedDateTime(at, schedule.timezone).date
+
+  for (let offset = 0; offset <= horizon; offset++) {
+    const date = addDays(today, offset)
+    const previousDate = addDays(date, -1)
+
+    if (!currentlyAvailable && hasDateRules) {
+      // Past the last service date (and its overnight spill): it never opens again
+      if (lastDate && previousDate > lastDate) break
+
+      // Nothing can open on a day unless it or the day before (overnight windows) is a service date
+      if (!isServiceDateAvailable(schedule, date) && !isServiceDateAvailable(schedule, previousDate)) continue
+    }
+
+    for (const minute of breakpoints) {
+      const time = `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`
+      const instant = zonedTimeToUtc(`${date}T${time}`, schedule.timezone)
+
+      if (!instant || instant <= at) continue
+
+      if (isMenuAvailable(schedule, instant) !== currentlyAvailable) {
+        return instant
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Next opening of a schedule that is currently unavailable (null if open now or never)
+ */
+export function getNextOpening(schedule: TimeSchedule, at: Date = new Date()): Date | null {
+  return isMenuAvailable(schedule, at) ? null : getNextAvailabilityChange(schedule, at)
+}
+
+/**
+ * Next closing of a schedule that is currently available (null if closed now or never closes).
+ * `available_to` is inclusive, so a window ending at 22:00 switches off at 22:01; report 22:00.
+ */
+export function getNextClosing(schedule: TimeSchedule, at: Date = new Date()): Date | null {
+  if (!isMenuAvailable(schedule, at)) return null
+
+  const change = getNextAvailabilityChange(schedule, at)
+  if (!change) return null
+
+  const previousMinute = (getZonedDateTime(change, schedule.timezone).minutes + 1439) % 1440
+  const endsWindow = getTimeWindows(schedule).some(window => toMinutes(window.to) === previousMinute)
+
+  return endsWindow ? new Date(change.getTime() - 60000) : change
+}
+
+/**
+ * Format an instant as an ISO 8601 timestamp with the timezone's offset
+ * (e.g. "2026-03-02T07:00:00+01:00")
+ */
+export function toZonedISOString(at: Date, timezone: string): string {
+  const zoned = getZonedDateTime(at, timezone)
+  const [year, month, day] = zoned.date.split('-').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(zoned.minutes / 60), zoned.minutes % 60, at.getUTCSeconds())
+  const offsetMinutes = Math.round((wallClock - at.getTime()) / 60000)
+
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const abs = Math.abs(offsetMinutes)
+  const offset = `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`
+
+  return `${new Date(wallClock).toISOString().slice(0, 19)}${offset}`
+}
+
 /**
  * Get human-readable availability message
  */
 export function getAvailabilityMessage(schedule: TimeSchedule): string {
+  // Multi-window and recurring schedules
+  if ((schedule.time_windows && schedule.time_windows.length > 0) ||
+      (schedule.recurrence_rules && schedule.recurrence_rules.length > 0)) {
+    return describeSchedule(schedule)
+  }
+
   // Date-specific message
   if (schedule.active_dates && schedule.active_dates.length > 0) {
     const dates = schedule.active_dates
@@ -167,4 +465,120 @@ function formatTime(time: string): string {
   const period = hour >= 12 ? 'PM' : 'AM'
   const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour
   return `${displayHour}:${minute.toString().padStart(2, '0')}${period}`
-}
\ No newline at end of file
+}
+
+/**
+ * Describe multi-window / recurring schedules,
+ * e.g. "Available the first Friday of every month, Mon-Fri 7:00AM - 10:30AM, 5:00PM - 10:00PM"
+ */
+function describeSchedule(schedule: TimeSchedule): string {
+  const parts: string[] = []
+
+  if (schedule.recurrence_rules && schedule.recurrence_rules.length > 0) {
+    parts.push(schedule.recurrence_rules.map(describeRecurrence).join(' or '))
+  }
+
+  if (schedule.active_dates && schedule.active_dates.length > 0) {
+    parts.push(`on ${schedule.active_dates.map(formatShortDate).join(', ')}`)
+  } else if (schedule.start_date || schedule.end_date) {
+    const start = schedule.start_date ? formatShortDate(schedule.start_date) : 'now'
+    const end = schedule.end_date ? formatShortDate(schedule.end_date) : 'ongoing'
+    parts.push(`${start} - ${end}`)
+  }
+
+  if (schedule.time_windows && schedule.time_windows.length > 0) {
+    // Group windows that share the same days
+    const groups = new Map<string, string[]>()
+    for (const window of schedule.time_windows) {
+      const days = window.days_of_week && window.days_of_week.length > 0
+        ? window.days_of_week
+        : schedule.days_of_week
+      const label = describeDays(days)
+      groups.set(label, [...(groups.get(label) || []), `${formatTime(window.from.slice(0, 5))} - ${formatTime(window.to.slice(0, 5))}`])
+    }
+
+    parts.push([...groups].map(([days, times]) => `${days ? `${days} ` : ''}${times.join(', ')}`).join('; '))
+  } else if (schedule.is_time_restricted && schedule.available_from && schedule.available_to) {
+    parts.push(`${formatTime(schedule.available_from.slice(0, 5))} - ${formatTime(schedule.available_to.slice(0, 5))}`)
+  }
+
+  return `Available ${parts.join(', ')}`
+}
+
+/**
+ * Describe one recurrence rule, e.g. "the first Friday of every month", "weekends in December"
+ */
+function describeRecurrence(rule: RecurrenceRule): string {
+  const months = rule.months && rule.months.length > 0
+    ? rule.months.map(m => MONTH_NAMES[m - 1]).join(', ')
+    : null
+
+  switch (rule.type) {
+    case 'nth_weekday': {
+      const ordinal = rule.nth === -1 ? 'last' : ['first', 'second', 'third', 'fourth', 'fifth'][rule.nth - 1]
+      return `the ${ordinal} ${DAY_NAMES[rule.weekday]} of ${months || 'every month'}`
+    }
+    case 'weekdays': {
+      const days = describeDays(rule.days_of_week, true) || 'every day'
+      return months ? `${days} in ${months}` : days
+    }
+    case 'day_of_month': {
+      const days = rule.days.map(ordinalSuffix).join(', ')
+      return `the ${days} of ${months || 'every month'}`
+    }
+    default:
+      return ''
+  }
+}
+
+/**
+ * Describe a set of weekdays ("" = every day, "Mon-Fri", "weekends", "Mon, Wed")
+ */
+function describeDays(days: number[], plural: boolean = false): string {
+  const sorted = [...new Set(days)].sort((a, b) => a - b)
+  const key = sorted.join(',')
+
+  if (sorted.length === 7) return ''
+  if (key === '0,6') return 'weekends'
+  if (key === '1,2,3,4,5') return plural ? 'weekdays' : 'Mon-Fri'
+
+  return sorted
+    .map(d => plural ? `${DAY_NAMES[d]}s` : DAY_NAMES[d].slice(0, 3))
+    .join(plural ? ' and ' : ', ')
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+function ordinalSuffix(n: number): string {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'
+  return `${n}${suffix}`
+}
+
+// Format YYYY-MM-DD without timezone shifts
+function formatShortDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+// Time windows of a schedule, including the legacy single window
+function getTimeWindows(schedule: TimeSchedule): TimeWindow[] {
+  if (schedule.time_windows && schedule.time_windows.length > 0) {
+    return schedule.time_windows
+  }
+
+  return schedule.is_time_restricted && schedule.available_from && schedule.available_to
+    ? [{ from: schedule.available_from, to: schedule.available_to }]
+    : []
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
@@ -1,6 +1,13 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Unicode fonts the menu PDF reads from disk at runtime
+  outputFileTracingIncludes: {
+    '/api/v1/menus/[id]/pdf': [
+      'DejaVuSans.ttf', 'DejaVuSans-Bold.ttf', 'DejaVuSans-Oblique.ttf',
+      'DejaVuSerif.ttf', 'DejaVuSerif-Bold.ttf', 'DejaVuSerif-Italic.ttf',
+    ].map(file => `./node_modules/dejavu-fonts-ttf/ttf/${file}`),
+  },
   images: {
     remotePatterns: [
       {
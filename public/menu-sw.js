@@ -0,0 +1,103 @@
+// ============================================
+// MenuQR Africa - Menu Service Worker
+// ============================================
+// Registered by the public menu page (/m/:slug) with scope /m/.
+// The page sends the menu's static bundle (GET /api/v1/public/menu/:slug/bundle);
+// it is kept per menu path and served when the guest is offline.
+
+const CACHE_NAME = 'menuqr-menus-v1';
+const BUNDLE_PATH = '/menu-bundles/';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names.filter((name) => name.startsWith('menuqr-menus-') && name !== CACHE_NAME).map((name) => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// ============================================
+// BUNDLE CACHING
+// ============================================
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  if (message.type !== 'cache-bundle' || !message.path || !message.html_url) return;
+
+  event.waitUntil(cacheBundle(message.path, message.html_url, message.image_urls || []));
+});
+
+/**
+ * Store the bundle page under the menu path, plus its images
+ * @param {string} path - e.g. /m/lunch-menu
+ * @param {string} htmlUrl - Bundle index.html (content-addressed)
+ * @param {string[]} imageUrls - Compressed images of the bundle
+ */
+async function cacheBundle(path, htmlUrl, imageUrls) {
+  const cache = await caches.open(CACHE_NAME);
+  const key = offlineKey(path);
+
+  // Same bundle as last time: nothing changed
+  const current = await cache.match(key);
+  if (current && current.headers.get('X-Bundle-Url') === htmlUrl) return;
+
+  try {
+    const response = await fetch(htmlUrl, { mode: 'cors' });
+    if (!response.ok) return;
+
+    await cache.put(key, new Response(await response.blob(), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'X-Bundle-Url': htmlUrl
+      }
+    }));
+  } catch (error) {
+    console.error('Menu bundle caching failed:', error);
+    return;
+  }
+
+  await Promise.allSettled(imageUrls.map(async (url) => {
+    if (await cache.match(url)) return;
+    const response = await fetch(url, { mode: 'no-cors' });
+    await cache.put(url, response);
+  }));
+}
+
+function offlineKey(path) {
+  return new URL(`/__offline${path}`, self.location.origin).href;
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Menu pages: live when online, the stored bundle when offline
+  if (request.mode === 'navigate' && url.origin === self.location.origin && url.pathname.startsWith('/m/')) {
+    event.respondWith(
+      fetch(request).catch(async () => {
+        const cached = await caches.match(offlineKey(url.pathname.replace(/\/$/, '')));
+        return cached || Response.error();
+      })
+    );
+    return;
+  }
+
+  // Bundle images never change (content-addressed): cache first
+  if (url.pathname.includes(BUNDLE_PATH)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request))
+    );
+  }
+});
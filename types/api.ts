@@ -104,6 +104,7 @@ export interface Business {
   name: string
   location?: string
   display_name?: string
+  organization_id?: string | null  // Branch of an organization (chain)
   slug: string
   email: string | null
   phone: string | null
@@ -117,6 +118,8 @@ export interface Business {
   description: string | null
   website: string | null
   business_hours: Record<string, { open: string; close: string }> | null
+  holiday_closures: BusinessClosure[] | null
+  allow_browsing_when_closed: boolean
   timezone: string
   currency: string
   tax_rate: number
@@ -137,6 +140,14 @@ export interface Business {
   team_count?: number
 }
 
+// Holiday / exception closure (single day, or date range when end_date is set)
+export interface BusinessClosure {
+  date: string              // YYYY-MM-DD
+  end_date?: string | null  // YYYY-MM-DD, inclusive
+  name?: string | null      // e.g. "Christmas Day"
+  message?: string | null   // Custom message shown to guests
+}
+
 // ============================================================================
 // MENU TYPES
 // ============================================================================
@@ -147,6 +158,7 @@ export interface Menu {
   name: string
   slug: string
   description: string | null
+  location: string | null
   is_active: boolean
   display_order: number
   availability_schedule: {
@@ -154,11 +166,89 @@ export interface Menu {
     end_time: string
     days_of_week: number[]
   } | null
+  is_time_restricted: boolean
+  available_from: string | null
+  available_to: string | null
+  days_of_week: number[] | null
+  start_date: string | null
+  end_date: string | null
+  active_dates: string[] | null
+  time_windows: TimeWindow[] | null
+  recurrence_rules: RecurrenceRule[] | null
+  priority: number
+  published_version_id: string | null  // null = never published (served live)
+  published_at: string | null
+  master_menu_id: string | null  // Branch copy of an organization's master menu
   created_at: string
   updated_at: string
   deleted_at: string | null
 }
 
+// Immutable published copy of a menu's content. Versions published before
+// translations and modifier groups were captured lack them (read live instead).
+export interface MenuSnapshot {
+  menu: Pick<Menu, 'id' | 'business_id' | 'name' | 'slug' | 'description'>
+  categories: Category[]
+  items: MenuItem[]
+  translations?: SnapshotTranslations
+  modifier_groups?: PublicModifierGroup[]
+}
+
+// Language code -> menu, category or item id -> translated fields
+export type SnapshotTranslations = Record<string, Record<string, { name: string | null; description: string | null }>>
+
+export interface MenuVersion {
+  id: string
+  menu_id: string
+  business_id: string
+  version_number: number
+  snapshot: MenuSnapshot
+  notes: string | null
+  restored_from_version_id: string | null  // Set when created by a rollback
+  published_by: string | null
+  published_at: string
+}
+
+// One opening window, e.g. 07:00-10:30 on weekdays (to < from = overnight)
+export interface TimeWindow {
+  from: string               // HH:MM
+  to: string                 // HH:MM
+  days_of_week?: number[]    // 0 = Sunday; defaults to the schedule's days_of_week
+}
+
+// Date recurrence; a date is active when it matches ANY rule
+export type RecurrenceRule =
+  | {
+      type: 'nth_weekday'    // e.g. first Friday of every month
+      weekday: number        // 0 = Sunday
+      nth: 1 | 2 | 3 | 4 | 5 | -1  // -1 = last
+      months?: number[]      // 1-12; omit for every month
+    }
+  | {
+      type: 'weekdays'       // e.g. every weekend in December
+      days_of_week: number[]
+      months?: number[]
+    }
+  | {
+      type: 'day_of_month'   // e.g. the 1st and 15th
+      days: number[]
+      months?: number[]
+    }
+
+// Item-level availability, stored as JSON on menu_items.schedule.
+// days_of_week alone means all day on those days.
+export interface ItemSchedule {
+  time_windows?: TimeWindow[] | null
+  days_of_week?: number[] | null
+  start_date?: string | null
+  end_date?: string | null
+  active_dates?: string[] | null
+  recurrence_rules?: RecurrenceRule[] | null
+}
+
+// What public menus do with an item outside its schedule
+export type ItemScheduleDisplay = 'hide' | 'show_unavailable'
+
 // ============================================================================
 // CATEGORY TYPES
 // ============================================================================
@@ -171,6 +261,7 @@ export interface Category {
   description: string | null
   display_order: number
   icon: string | null
+  is_active: boolean
   created_at: string
   updated_at: string
   deleted_at: string | null
@@ -204,11 +295,15 @@ export interface MenuItem {
   prep_time_minutes: number | null
   price: number
   compare_at_price: number | null
-  price_variants: Record<string, unknown> | null
+  price_variants: PriceVariant[] | null  // Sizes/portions; price is then the base price
   sort_order: number
   sku: string | null
-  customization_options: Record<string, unknown> | null
+  modifier_group_ids: string[]          // Ordered; groups live in modifier_groups
+  customization_options?: Record<string, unknown> | null  // Legacy free-form options, until migrated to modifier groups
+  master_item_id: string | null         // Branch copy of this organization master item
   portion_size: string | null
+  schedule: ItemSchedule | null
+  schedule_display: ItemScheduleDisplay
   source: string | null
   translation_priority: string | null
   translation_completeness: number | null
@@ -396,7 +491,7 @@ export interface BulkCreateItemInput {
   available_quantity?: number
   prep_time_minutes?: number
   compare_at_price?: number
-  price_variants?: Record<string, unknown>
+  price_variants?: PriceVariantInput[] | null
   portion_size?: string
   spice_level?: number
   allergens?: string[]
@@ -408,7 +503,9 @@ export interface BulkCreateItemInput {
   preparation_notes?: string
   nutritional_info?: Record<string, unknown>
   sku?: string
-  customization_options?: Record<string, unknown>
+  modifier_group_ids?: string[]
+  schedule?: ItemSchedule | null
+  schedule_display?: ItemScheduleDisplay
   source?: string
 }
 
@@ -427,7 +524,7 @@ export interface BulkUpdateItemInput {
   available_quantity?: number
   prep_time_minutes?: number
   compare_at_price?: number
-  price_variants?: Record<string, unknown>
+  price_variants?: PriceVariantInput[] | null
   portion_size?: string
   spice_level?: number
   allergens?: string[]
@@ -439,7 +536,9 @@ export interface BulkUpdateItemInput {
   preparation_notes?: string
   nutritional_info?: Record<string, unknown>
   sku?: string
-  customization_options?: Record<string, unknown>
+  modifier_group_ids?: string[]
+  schedule?: ItemSchedule | null
+  schedule_display?: ItemScheduleDisplay
 }
 
 export interface BulkOperationError {
@@ -456,6 +555,429 @@ export interface BulkOperationResult<T> {
   errors?: BulkOperationError[]
 }
 
+// ============================================================================
+// SCHEDULED CHANGE TYPES
+// ============================================================================
+
+export type ScheduledChangeTarget = 'item' | 'category' | 'menu'
+
+export type ScheduledChangeStatus = 'pending' | 'applying' | 'applied' | 'cancelled' | 'failed'
+
+export interface ScheduledChange {
+  id: string
+  business_id: string
+  batch_id: string                           // Changes queued together
+  target_type: ScheduledChangeTarget
+  target_id: string
+  changes: Record<string, unknown>           // Field values to set
+  previous_values: Record<string, unknown> | null  // Recorded when applied
+  effective_at: string
+  status: ScheduledChangeStatus
+  claimed_at: string | null                  // When a run started applying it
+  note: string | null
+  error: string | null
+  created_by: string
+  created_at: string
+  applied_at: string | null
+  cancelled_at: string | null
+  cancelled_by: string | null
+}
+
+export interface ScheduledChangeInput {
+  target_type: ScheduledChangeTarget
+  target_id: string
+  changes: Record<string, unknown>
+}
+
+export interface ScheduleChangesRequest {
+  effective_at: string  // ISO 8601; without an offset it is business-local time
+  note?: string
+  changes: ScheduledChangeInput[]
+}
+
+// ============================================================================
+// PRICE VARIANT TYPES
+// ============================================================================
+
+// e.g. Small / Medium / Large, or Half / Full portion
+export interface PriceVariant {
+  id: string
+  name: string
+  price: number
+  sku: string | null
+  is_available: boolean
+}
+
+export interface PriceVariantInput {
+  id?: string
+  name: string
+  price: number
+  sku?: string | null
+  is_available?: boolean
+}
+
+// ============================================================================
+// MODIFIER GROUP TYPES
+// ============================================================================
+
+export interface ModifierOption {
+  id: string
+  name: string
+  price_delta: number     // Added to the item price (negative for "no cheese")
+  is_available: boolean   // Sold out options stay listed but cannot be picked
+  is_default: boolean     // Pre-selected
+}
+
+// e.g. "Choose a side": pick 1 (required), or "Extra toppings": pick 0-3
+export interface ModifierGroup {
+  id: string
+  business_id: string
+  name: string
+  description: string | null
+  min_selections: number
+  max_selections: number | null  // null = no limit
+  is_required: boolean           // Same as min_selections >= 1
+  options: ModifierOption[]
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+}
+
+// Group as embedded in public menu items
+export type PublicModifierGroup = Pick<
+  ModifierGroup,
+  'id' | 'name' | 'description' | 'min_selections' | 'max_selections' | 'is_required' | 'options'
+>
+
+// ============================================================================
+// PRICE RULE TYPES
+// ============================================================================
+
+export type PriceRuleTarget = 'item' | 'category' | 'menu'
+
+// percentage: value is the discount (20 = 20% off); fixed_price: value is the new price
+export type PriceRuleType = 'percentage' | 'fixed_price'
+
+export type PriceRuleStatus = 'active' | 'upcoming' | 'expired' | 'disabled'
+
+export interface PriceRule {
+  id: string
+  business_id: string
+  name: string                   // e.g. "Happy hour"
+  target_type: PriceRuleTarget
+  target_id: string
+  type: PriceRuleType
+  value: number
+  schedule: ItemSchedule | null  // null = always while is_active
+  priority: number               // Higher wins between rules on the same target level
+  is_active: boolean
+  created_by: string
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+}
+
+// The rule that set an item's effective price
+export interface AppliedPriceRule {
+  id: string
+  name: string
+  type: PriceRuleType
+  value: number
+  target_type: PriceRuleTarget
+  ends_at: string | null  // ISO 8601 in the business timezone
+}
+
+// ============================================================================
+// BUNDLE TYPES
+// ============================================================================
+
+// One part of a bundle: a fixed item, a pick from a list, or any item of a category
+export interface BundleSlot {
+  id: string
+  name: string                // e.g. "Drink"
+  item_ids: string[]          // One id = fixed item; several = pick one
+  category_id: string | null  // Pick any item from this category (added to item_ids)
+  quantity: number
+  is_required: boolean        // Bundle is unavailable when no choice is available
+}
+
+// e.g. "Burger + Fries + Drink"
+export interface Bundle {
+  id: string
+  business_id: string
+  menu_id: string
+  category_id: string | null
+  name: string
+  description: string | null
+  image_url: string | null
+  price: number
+  slots: BundleSlot[]
+  is_available: boolean
+  is_featured: boolean
+  sort_order: number
+  created_by: string
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+}
+
+export interface PublicBundleChoice {
+  id: string
+  name: string
+  price: number           // Current price of the item on its own (after price rules)
+  is_available: boolean
+}
+
+export interface PublicBundleSlot {
+  id: string
+  name: string
+  quantity: number
+  is_required: boolean
+  is_available: boolean   // At least one choice is available
+  choices: PublicBundleChoice[]
+}
+
+// Bundle as served on public menus
+export interface PublicBundle {
+  id: string
+  category_id: string | null
+  name: string
+  description: string | null
+  image_url: string | null
+  price: number
+  is_featured: boolean
+  is_available: boolean
+  unavailable_reason: string | null  // e.g. "Fries is unavailable"
+  slots: PublicBundleSlot[]
+  parts_price: number  // Cheapest available choices of required slots, bought separately
+  savings: number      // parts_price - price (0 when the bundle is not cheaper)
+}
+
+// ============================================================================
+// ITEM PLACEMENT TYPES
+// ============================================================================
+
+// A library item shown on a menu other than its own (menu_items.menu_id).
+// Name, description, photos etc. always come from the item.
+export interface MenuItemPlacement {
+  id: string
+  business_id: string
+  item_id: string
+  menu_id: string
+  category_id: string | null  // null = the item's category
+  sort_order: number
+  price: number | null        // null = the item's price
+  is_available: boolean       // false hides it on this menu only; a sold out item is sold out everywhere
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+}
+
+// An item as listed on one menu, with the placement's overrides applied
+export interface PlacedMenuItem extends MenuItem {
+  placement_id: string | null  // null = the item's own menu
+}
+
+// ============================================================================
+// ORGANIZATION TYPES
+// ============================================================================
+
+// A chain: branches are businesses with organization_id set. Each branch
+// gets a copy of the master menu (menus.master_menu_id) whose items point
+// back to the master items (menu_items.master_item_id).
+export interface Organization {
+  id: string
+  owner_id: string
+  name: string
+  slug: string
+  master_menu_id: string | null  // A menu of one of the branches
+  last_pushed_at: string | null
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+}
+
+// A branch's changes to one master item, kept across pushes
+export interface BranchItemOverride {
+  id: string
+  organization_id: string
+  business_id: string
+  master_item_id: string
+  price: number | null          // null = master price
+  is_available: boolean | null  // null = master availability
+  is_hidden: boolean            // Not shown at this branch
+  master_price: number          // Master values when the override was last set/confirmed,
+  master_is_available: boolean  // to spot master changes the override hides
+  created_at: string
+  updated_at: string
+}
+
+export type PushConflictStrategy = 'keep_branch' | 'use_master'
+
+// Master changed a field the branch overrides
+export interface PushConflict {
+  master_item_id: string
+  item_name: string
+  field: 'price' | 'is_available'
+  branch_value: number | boolean
+  master_value: number | boolean
+  previous_master_value: number | boolean
+  resolution: 'kept_branch' | 'used_master'
+}
+
+// An item write that failed on push; the item keeps its previous state
+export interface PushFailure {
+  master_item_id: string
+  item_name: string
+  action: 'add' | 'update' | 'remove'
+  error: string
+}
+
+export interface BranchPushResult {
+  business_id: string
+  business_name: string
+  menu_id: string | null   // null on a dry run that would create the branch menu
+  created_menu: boolean
+  added: number
+  updated: number
+  removed: number
+  hidden: number
+  conflicts: PushConflict[]
+  failed: PushFailure[]    // Item writes that failed (not counted in added/updated/removed)
+  republished: boolean     // Published branch menu got a new version
+  error: string | null     // Branch skipped (e.g. plan limit reached), item writes or republish failed
+}
+
+// ============================================================================
+// IMPORT / EXPORT TYPES
+// ============================================================================
+
+// Item fields a spreadsheet column can fill; `category` is a category name.
+// Translations come from "name:<language>" and "description:<language>" columns.
+export type ImportField =
+  | 'name' | 'price' | 'description' | 'category' | 'subcategory' | 'sku'
+  | 'image_url' | 'gallery_images' | 'video_url' | 'is_available' | 'is_featured'
+  | 'available_quantity' | 'prep_time_minutes' | 'compare_at_price' | 'price_variants'
+  | 'portion_size' | 'spice_level' | 'allergens' | 'dietary_flags' | 'tags'
+  | 'sort_order' | 'ingredients' | 'ingredient_list' | 'preparation_notes'
+  | 'nutritional_info' | 'schedule' | 'schedule_display'
+
+// Field -> spreadsheet column header
+export type ImportColumnMapping = Partial<Record<ImportField, string>>
+
+export interface ImportMapping {
+  business_id: string
+  mapping: ImportColumnMapping
+  updated_by: string | null
+  updated_at: string
+}
+
+// 'skip': the row is a library item placed on the menu; it is imported through its own menu
+export type ImportRowAction = 'create' | 'update' | 'skip' | 'reject'
+
+export interface ImportRowResult {
+  row: number              // Spreadsheet row number (the header is row 1)
+  action: ImportRowAction
+  sku: string | null
+  name: string | null
+  item_id: string | null   // The matched item for updates and skips, the new item after a create
+  errors: string[]
+  values: Partial<BulkCreateItemInput> & {
+    category?: string
+    translations?: Record<string, ItemTranslationValues>
+  }
+}
+
+export interface ItemTranslationValues {
+  name: string
+  description: string | null
+}
+
+export interface ImportReport {
+  dry_run: boolean
+  mapping: ImportColumnMapping      // The mapping that was applied
+  unmapped_columns: string[]
+  categories_created: string[]      // Names (would be created on a dry run)
+  summary: {
+    rows: number
+    created: number
+    updated: number
+    skipped: number
+    rejected: number
+  }
+  rows: ImportRowResult[]
+}
+
+// Import of a business export: rows are split on their menu column, one report per menu
+export interface BusinessImportReport {
+  dry_run: boolean
+  summary: {
+    menus: number
+    rows: number
+    created: number
+    updated: number
+    skipped: number
+    rejected: number
+  }
+  menus: Array<{
+    menu_id: string
+    menu_name: string
+    menu_slug: string
+    report: ImportReport
+  }>
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json'
+
+// Versioned JSON export; the import path reads it back
+export interface MenuExportDocument {
+  format: 'menuqr-menu-export'
+  version: number
+  exported_at: string
+  business: {
+    id: string
+    name: string
+    slug: string
+  }
+  languages: string[]   // Languages with translations in the document
+  menus: MenuExportMenu[]
+}
+
+export interface MenuExportMenu {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  items: MenuExportItem[]
+}
+
+export interface MenuExportItem extends Omit<MenuItem, 'menu_id' | 'deleted_at'> {
+  category: string | null
+  translations: Record<string, ItemTranslationValues>
+}
+
+// ============================================================================
+// OFFLINE BUNDLE TYPES
+// ============================================================================
+
+// A static copy of a public menu in storage: one HTML page with inlined CSS
+// (every language), the public menu JSON per language and compressed images.
+// Files live under <menu_id>/<content_hash>/ and never change once uploaded.
+export interface MenuBundle {
+  id: string
+  menu_id: string
+  business_id: string
+  version_id: string            // Published version it was built from
+  content_hash: string
+  html_url: string
+  json_url: string
+  image_urls: string[]
+  languages: string[]
+  size_bytes: number
+  built_at: string
+  expires_at: string            // Time-based content (prices, schedules) may change after this
+}
+
 // ============================================================================
 // REQUEST/RESPONSE TYPES FOR SPECIFIC ENDPOINTS
 // ============================================================================
@@ -489,5 +1011,6 @@ export interface ItemReorderRequest {
   items: Array<{
     id: string
     sort_order: number
+    menu_id?: string  // Reorder the item's placement on this menu
   }>
 }
\ No newline at end of file